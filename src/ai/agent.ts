@@ -1,9 +1,94 @@
-import { streamText, stepCountIs, type LanguageModel, type ToolSet, type ModelMessage } from 'ai';
+import { streamText, stepCountIs, type LanguageModel, type ToolSet, type ModelMessage, type StepResult, type LanguageModelUsage } from 'ai';
+import type { RequestContext } from './request-context.js';
+import type { ApprovalGate } from './approval-gate.js';
+import { isToolSuccess } from './tool-audit.js';
+import { withSecretPlaceholders } from '../vault/redaction.js';
+
+export interface AgentUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  reasoningTokens: number;
+}
 
 export interface RunAgentResult {
   text: string;
   usedTools: boolean;
-  usage: { inputTokens: number; outputTokens: number };
+  usage: AgentUsage;
+  /** Model calls made (one per tool round). */
+  steps: number;
+}
+
+/** One finished model request, as reported for usage accounting. */
+export interface UsageReport extends AgentUsage {
+  /** Provider that served the request (primary or fallback). */
+  provider?: string;
+  model: string;
+  steps: number;
+  latencyMs: number;
+}
+
+export type UsageListener = (report: UsageReport, context: RequestContext) => void;
+
+/** Token totals across all steps — each tool round is a separately billed model call. */
+export function toAgentUsage(usage: LanguageModelUsage): AgentUsage {
+  return {
+    inputTokens: usage.inputTokens ?? 0,
+    outputTokens: usage.outputTokens ?? 0,
+    cacheReadTokens: usage.inputTokenDetails?.cacheReadTokens ?? 0,
+    cacheWriteTokens: usage.inputTokenDetails?.cacheWriteTokens ?? 0,
+    reasoningTokens: usage.outputTokenDetails?.reasoningTokens ?? 0,
+  };
+}
+
+/** A finished tool call, reported for the audit log. */
+export interface ToolCallEvent {
+  toolName: string;
+  input: unknown;
+  output: unknown;
+  success: boolean;
+  durationMs: number;
+}
+
+export type ToolCallListener = (event: ToolCallEvent) => void;
+
+/**
+ * Tracks tool call timing across stream callbacks: a call starts when its
+ * `tool-call` chunk is emitted and ends with the step that holds its result.
+ */
+function createToolCallTracker(listener?: ToolCallListener) {
+  const started = new Map<string, number>();
+  return {
+    onChunk: ({ chunk }: { chunk: { type: string; toolCallId?: string } }) => {
+      if (chunk.type === 'tool-call' && chunk.toolCallId) started.set(chunk.toolCallId, Date.now());
+    },
+    onStepFinish: (step: StepResult<ToolSet>) => {
+      if (!listener) return;
+      for (const part of step.content) {
+        if (part.type !== 'tool-result' && part.type !== 'tool-error') continue;
+        const start = started.get(part.toolCallId) ?? Date.now();
+        started.delete(part.toolCallId);
+        const output = part.type === 'tool-result' ? part.output : String(part.error);
+        try {
+          listener({
+            toolName: part.toolName,
+            input: part.input,
+            output,
+            success: part.type === 'tool-result' && isToolSuccess(output),
+            durationMs: Date.now() - start,
+          });
+        } catch (err) {
+          console.error('Tool call listener failed:', err);
+        }
+      }
+    },
+  };
+}
+
+/** Offer only the routed tools; find_tools can grow the set between steps. */
+function activeToolsStep(active?: Set<string>) {
+  return active ? () => ({ activeTools: [...active] }) : undefined;
 }
 
 function isPromptTooLong(err: unknown): boolean {
@@ -19,10 +104,14 @@ async function executeStream(opts: {
   messages: ModelMessage[];
   tools: ToolSet;
   maxSteps: number;
+  context?: RequestContext;
+  onToolCall?: ToolCallListener;
+  activeTools?: Set<string>;
 }): Promise<RunAgentResult> {
   // Capture the real stream error (e.g. RetryError with 429) so we can
   // rethrow it instead of the generic NoOutputGeneratedError.
   let streamError: unknown = null;
+  const tracker = createToolCallTracker(opts.onToolCall);
 
   const result = streamText({
     model: opts.model,
@@ -30,9 +119,13 @@ async function executeStream(opts: {
     messages: opts.messages,
     tools: opts.tools,
     stopWhen: stepCountIs(opts.maxSteps),
+    prepareStep: activeToolsStep(opts.activeTools),
     // ChatGPT backend doesn't persist items — tell the SDK to send full
     // content instead of item_reference on each step.  Harmless for other providers.
     providerOptions: { openai: { store: false } },
+    experimental_context: opts.context,
+    onChunk: tracker.onChunk,
+    onStepFinish: tracker.onStepFinish,
     onError: ({ error }) => {
       streamError = error;
       console.error(error);
@@ -40,12 +133,12 @@ async function executeStream(opts: {
   });
 
   let text: string;
-  let usage: { inputTokens?: number; outputTokens?: number };
+  let usage: LanguageModelUsage;
   let steps: Array<{ text: string; toolCalls: unknown[] }>;
   try {
     [text, usage, steps] = await Promise.all([
       result.text,
-      result.usage,
+      result.totalUsage,
       result.steps,
     ]);
   } catch (err) {
@@ -78,10 +171,8 @@ async function executeStream(opts: {
   return {
     text: fullText,
     usedTools: steps.some((s) => s.toolCalls.length > 0),
-    usage: {
-      inputTokens: usage.inputTokens ?? 0,
-      outputTokens: usage.outputTokens ?? 0,
-    },
+    usage: toAgentUsage(usage),
+    steps: steps.length,
   };
 }
 
@@ -96,8 +187,12 @@ async function executeStreamWithCallbacks(opts: {
   tools: ToolSet;
   maxSteps: number;
   callbacks: StreamCallbacks;
+  context?: RequestContext;
+  onToolCall?: ToolCallListener;
+  activeTools?: Set<string>;
 }): Promise<RunAgentResult> {
   let streamError: unknown = null;
+  const tracker = createToolCallTracker(opts.onToolCall);
 
   const result = streamText({
     model: opts.model,
@@ -105,7 +200,11 @@ async function executeStreamWithCallbacks(opts: {
     messages: opts.messages,
     tools: opts.tools,
     stopWhen: stepCountIs(opts.maxSteps),
+    prepareStep: activeToolsStep(opts.activeTools),
     providerOptions: { openai: { store: false } },
+    experimental_context: opts.context,
+    onChunk: tracker.onChunk,
+    onStepFinish: tracker.onStepFinish,
     onError: ({ error }) => {
       streamError = error;
       console.error(error);
@@ -121,13 +220,13 @@ async function executeStreamWithCallbacks(opts: {
     throw streamError ?? err;
   }
 
-  let usage: { inputTokens?: number; outputTokens?: number };
+  let usage: LanguageModelUsage;
   let steps: Array<{ text: string; toolCalls: unknown[] }>;
   let text: string;
   try {
     [text, usage, steps] = await Promise.all([
       result.text,
-      result.usage,
+      result.totalUsage,
       result.steps,
     ]);
   } catch (err) {
@@ -156,10 +255,8 @@ async function executeStreamWithCallbacks(opts: {
   return {
     text: fullText,
     usedTools: steps.some((s) => s.toolCalls.length > 0),
-    usage: {
-      inputTokens: usage.inputTokens ?? 0,
-      outputTokens: usage.outputTokens ?? 0,
-    },
+    usage: toAgentUsage(usage),
+    steps: steps.length,
   };
 }
 
@@ -170,11 +267,21 @@ export async function runAgentStream(opts: {
   tools: ToolSet;
   maxSteps?: number;
   callbacks: StreamCallbacks;
+  context?: RequestContext;
+  /** Gated tool calls wait here for the owner's decision before executing. */
+  approval?: ApprovalGate;
+  /** Called for every finished tool call (audit log). */
+  onToolCall?: ToolCallListener;
+  /** Tools offered to the model, re-read before every step (see tool-router.ts). Default: all. */
+  activeTools?: Set<string>;
 }): Promise<RunAgentResult> {
   const maxSteps = opts.maxSteps ?? 10;
+  // Placeholders resolve innermost, so approval prompts and audit logs only ever see [secret:NAME]
+  const resolved = withSecretPlaceholders(opts.tools);
+  const tools = opts.approval ? opts.approval.wrap(resolved) : resolved;
 
   try {
-    return await executeStreamWithCallbacks({ ...opts, maxSteps, callbacks: opts.callbacks });
+    return await executeStreamWithCallbacks({ ...opts, tools, maxSteps, callbacks: opts.callbacks });
   } catch (err) {
     if (!isPromptTooLong(err)) throw err;
 
@@ -186,6 +293,7 @@ export async function runAgentStream(opts: {
     try {
       return await executeStreamWithCallbacks({
         ...opts,
+        tools,
         messages: [lastUserMsg],
         maxSteps,
         callbacks: opts.callbacks,
@@ -208,11 +316,18 @@ export async function runAgent(opts: {
   messages: ModelMessage[];
   tools: ToolSet;
   maxSteps?: number;
+  context?: RequestContext;
+  approval?: ApprovalGate;
+  onToolCall?: ToolCallListener;
+  activeTools?: Set<string>;
 }): Promise<RunAgentResult> {
   const maxSteps = opts.maxSteps ?? 10;
+  // Placeholders resolve innermost, so approval prompts and audit logs only ever see [secret:NAME]
+  const resolved = withSecretPlaceholders(opts.tools);
+  const tools = opts.approval ? opts.approval.wrap(resolved) : resolved;
 
   try {
-    return await executeStream({ ...opts, maxSteps });
+    return await executeStream({ ...opts, tools, maxSteps });
   } catch (err) {
     if (!isPromptTooLong(err)) throw err;
 
@@ -225,6 +340,7 @@ export async function runAgent(opts: {
     try {
       return await executeStream({
         ...opts,
+        tools,
         messages: [lastUserMsg],
         maxSteps,
       });
@@ -0,0 +1,146 @@
+import type { ToolSet } from 'ai';
+import type { ConfigManager } from '../core/config-manager.js';
+import type { ToolClass } from '../core/types.js';
+import type { ApprovalRepository, ApprovalDecision, ToolApprovalRecord } from '../db/approval-repository.js';
+import { getRequestContext } from './request-context.js';
+
+/** Unanswered requests are treated as denied after this long. */
+const APPROVAL_TIMEOUT_MS = 10 * 60 * 1000;
+
+const READ_TOOLS = new Set([
+  'list_tasks', 'get_task_runs', 'get_weather', 'get_marine_conditions', 'web_search', 'web_fetch',
+  'get_system_resources', 'check_installation_feasibility', 'read_file',
+  'browse_history', 'search_conversation_history', 'get_conversation_stats', 'get_api_usage',
+  'list_skills', 'list_mcp_servers', 'search_mcp_servers', 'list_credentials', 'diff_skill',
+  'find_tools',
+]);
+
+/** Tools that run code on the host, overwrite files or remove capabilities. */
+const DESTRUCTIVE_TOOLS = new Set([
+  'run_shell_command', 'write_file', 'remove_skill', 'add_mcp_server', 'remove_mcp_server',
+  'delete_credential',
+]);
+
+/** Classify a tool call. Unknown tools (skills, MCP servers) are assumed to change something. */
+export function classifyTool(toolName: string): ToolClass {
+  if (DESTRUCTIVE_TOOLS.has(toolName)) return 'destructive';
+  if (READ_TOOLS.has(toolName) || /^mcp_.+_schema$/.test(toolName)) return 'read';
+  return 'mutating';
+}
+
+export interface ApprovalRequest {
+  id: number;
+  chatId?: number;
+  toolName: string;
+  toolClass: ToolClass;
+  /** Human-readable description of what is about to run (command, path, or JSON args). */
+  summary: string;
+}
+
+/** Sends the approval prompt to the owner (implemented by the Telegram bot). */
+export type ApprovalPrompter = (request: ApprovalRequest) => Promise<void>;
+
+/** Show the part of the input the owner actually needs to judge. */
+function summarizeInput(toolName: string, input: unknown): string {
+  const args = (input ?? {}) as Record<string, unknown>;
+  if (toolName === 'run_shell_command' && typeof args.command === 'string') return args.command;
+  if (toolName === 'write_file' && typeof args.path === 'string') {
+    const content = typeof args.content === 'string' ? args.content : '';
+    return `${args.path} (${content.length} chars)\n${content.slice(0, 300)}`;
+  }
+  const json = JSON.stringify(args);
+  return json.length > 500 ? json.slice(0, 500) + '…' : json;
+}
+
+/**
+ * Pauses gated tool calls until the owner approves or denies them.
+ * The agent loop simply awaits the tool's execute(), so nothing runs meanwhile.
+ */
+export class ApprovalGate {
+  private configManager: ConfigManager;
+  private repo: ApprovalRepository;
+  private prompter: ApprovalPrompter | null = null;
+  private pending = new Map<number, (decision: ApprovalDecision) => void>();
+
+  constructor(configManager: ConfigManager, repo: ApprovalRepository) {
+    this.configManager = configManager;
+    this.repo = repo;
+    repo.expireStale();
+  }
+
+  setPrompter(prompter: ApprovalPrompter): void {
+    this.prompter = prompter;
+  }
+
+  /** Wrap every tool's execute() with the approval check. */
+  wrap(tools: ToolSet): ToolSet {
+    const wrapped: ToolSet = {};
+    for (const [name, t] of Object.entries(tools)) {
+      const execute = t.execute;
+      if (!execute) {
+        wrapped[name] = t;
+        continue;
+      }
+      wrapped[name] = {
+        ...t,
+        execute: async (input, options) => {
+          const decision = await this.check(name, input, getRequestContext(options).chatId);
+          if (decision === 'denied' || decision === 'timeout') {
+            return JSON.stringify({
+              success: false,
+              error: decision === 'timeout'
+                ? 'The owner did not confirm this action in time. It was not executed.'
+                : 'The owner denied this action. It was not executed — do not retry it; ask what to do instead.',
+            });
+          }
+          return execute(input, options);
+        },
+      };
+    }
+    return wrapped;
+  }
+
+  /** Deliver the owner's decision. Returns the request, or undefined if it is no longer waiting. */
+  resolve(id: number, decision: ApprovalDecision, decidedBy?: number): ToolApprovalRecord | undefined {
+    const resolver = this.pending.get(id);
+    if (!resolver) return undefined;
+    this.pending.delete(id);
+
+    const record = this.repo.findById(id);
+    if (decision === 'always' && record) this.configManager.allowToolAlways(record.tool_name);
+    this.repo.decide(id, decision, decidedBy);
+    resolver(decision);
+    return record;
+  }
+
+  private async check(toolName: string, input: unknown, chatId?: number): Promise<ApprovalDecision | 'allowed'> {
+    const toolClass = classifyTool(toolName);
+    if (!this.configManager.requiresApproval(toolName, toolClass)) return 'allowed';
+
+    const summary = summarizeInput(toolName, input);
+    const id = this.repo.create(chatId, toolName, toolClass, JSON.stringify(input ?? {}));
+
+    if (!this.prompter) {
+      this.repo.decide(id, 'denied');
+      return 'denied';
+    }
+
+    const decision = new Promise<ApprovalDecision>((resolve) => {
+      this.pending.set(id, resolve);
+    });
+    const timer = setTimeout(() => this.resolve(id, 'timeout'), APPROVAL_TIMEOUT_MS);
+
+    try {
+      await this.prompter({ id, chatId, toolName, toolClass, summary });
+    } catch (err) {
+      console.error('Failed to send approval request:', err);
+      this.resolve(id, 'denied');
+    }
+
+    try {
+      return await decision;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import type { ModelPrice } from '../core/types.js';
+
+/**
+ * Built-in list prices (USD per 1M tokens), keyed by provider and model ID prefix.
+ * Model IDs often carry date or version suffixes, so the longest matching prefix wins.
+ * Users can override or extend these via `pricing` in config.json.
+ */
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  // Anthropic
+  'anthropic/claude-opus-4-5': { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  'anthropic/claude-opus-4': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  'anthropic/claude-sonnet-4': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'anthropic/claude-3-7-sonnet': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'anthropic/claude-3-5-sonnet': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'anthropic/claude-haiku-4-5': { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  'anthropic/claude-3-5-haiku': { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  'anthropic/claude-3-haiku': { input: 0.25, output: 1.25, cacheRead: 0.03, cacheWrite: 0.3 },
+
+  // OpenAI
+  'openai/gpt-5-nano': { input: 0.05, output: 0.4, cacheRead: 0.005 },
+  'openai/gpt-5-mini': { input: 0.25, output: 2, cacheRead: 0.025 },
+  'openai/gpt-5': { input: 1.25, output: 10, cacheRead: 0.125 },
+  'openai/gpt-4.1-nano': { input: 0.1, output: 0.4, cacheRead: 0.025 },
+  'openai/gpt-4.1-mini': { input: 0.4, output: 1.6, cacheRead: 0.1 },
+  'openai/gpt-4.1': { input: 2, output: 8, cacheRead: 0.5 },
+  'openai/gpt-4o-mini': { input: 0.15, output: 0.6, cacheRead: 0.075 },
+  'openai/gpt-4o': { input: 2.5, output: 10, cacheRead: 1.25 },
+  'openai/o4-mini': { input: 1.1, output: 4.4, cacheRead: 0.275 },
+  'openai/o3-mini': { input: 1.1, output: 4.4, cacheRead: 0.55 },
+  'openai/o3': { input: 2, output: 8, cacheRead: 0.5 },
+
+  // Google
+  'google/gemini-2.5-pro': { input: 1.25, output: 10, cacheRead: 0.31 },
+  'google/gemini-2.5-flash-lite': { input: 0.1, output: 0.4, cacheRead: 0.025 },
+  'google/gemini-2.5-flash': { input: 0.3, output: 2.5, cacheRead: 0.075 },
+  'google/gemini-2.0-flash': { input: 0.1, output: 0.4, cacheRead: 0.025 },
+
+  // DeepSeek
+  'deepseek/deepseek-chat': { input: 0.28, output: 0.42, cacheRead: 0.028 },
+  'deepseek/deepseek-reasoner': { input: 0.28, output: 0.42, cacheRead: 0.028 },
+
+  // Groq
+  'groq/llama-3.3-70b': { input: 0.59, output: 0.79 },
+  'groq/llama-3.1-8b': { input: 0.05, output: 0.08 },
+
+  // xAI
+  'xai/grok-4': { input: 3, output: 15, cacheRead: 0.75 },
+  'xai/grok-3-mini': { input: 0.3, output: 0.5, cacheRead: 0.075 },
+  'xai/grok-3': { input: 3, output: 15, cacheRead: 0.75 },
+
+  // Qwen
+  'qwen/qwen-max': { input: 1.6, output: 6.4 },
+  'qwen/qwen-plus': { input: 0.4, output: 1.2 },
+  'qwen/qwen-turbo': { input: 0.05, output: 0.2 },
+};
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** Portion of inputTokens read from the provider's prompt cache. */
+  cacheReadTokens?: number;
+  /** Portion of inputTokens written to the prompt cache. */
+  cacheWriteTokens?: number;
+}
+
+/** Longest key in `table` that prefixes one of the candidates. */
+function longestPrefixMatch(table: Record<string, ModelPrice>, candidates: string[]): ModelPrice | undefined {
+  let best: { key: string; price: ModelPrice } | undefined;
+  for (const [key, price] of Object.entries(table)) {
+    if (!candidates.some((c) => c.startsWith(key))) continue;
+    if (!best || key.length > best.key.length) best = { key, price };
+  }
+  return best?.price;
+}
+
+/**
+ * Find the price for a model. Overrides win over built-ins; within each table
+ * "provider/model" keys are tried first, then bare model keys. When the
+ * provider is unknown (old usage rows) any provider's entry may match.
+ */
+export function findModelPrice(
+  provider: string | undefined,
+  model: string,
+  overrides: Record<string, ModelPrice> = {},
+): ModelPrice | undefined {
+  const candidates = provider ? [`${provider}/${model}`, model] : [model];
+  const fromOverrides = longestPrefixMatch(overrides, candidates);
+  if (fromOverrides) return fromOverrides;
+
+  if (provider) return longestPrefixMatch(DEFAULT_PRICES, [`${provider}/${model}`]);
+  const byModel = Object.fromEntries(
+    Object.entries(DEFAULT_PRICES).map(([key, price]) => [key.slice(key.indexOf('/') + 1), price]),
+  );
+  return longestPrefixMatch(byModel, [model]);
+}
+
+/** Cost in USD. Cached tokens are billed at their own rates; the rest at the input rate. */
+export function computeCost(price: ModelPrice, usage: TokenUsage): number {
+  const cacheRead = usage.cacheReadTokens ?? 0;
+  const cacheWrite = usage.cacheWriteTokens ?? 0;
+  const uncached = Math.max(0, usage.inputTokens - cacheRead - cacheWrite);
+  return (
+    uncached * price.input
+    + cacheRead * (price.cacheRead ?? price.input)
+    + cacheWrite * (price.cacheWrite ?? price.input)
+    + usage.outputTokens * price.output
+  ) / 1_000_000;
+}
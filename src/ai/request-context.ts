@@ -0,0 +1,32 @@
+/** What triggered a model request, for usage accounting. */
+export type UsageSource =
+  | 'chat'
+  | 'scheduled_task'
+  | 'evolve_skill'
+  | 'ui_translation'
+  | 'working_message'
+  | 'summary'
+  /** Daily aggregates recorded before per-request tracking. */
+  | 'legacy';
+
+/**
+ * Per-request context passed to tools via the AI SDK's `experimental_context`.
+ * The Assistant is shared across chats, so tools must not rely on global state
+ * to know who they are acting for.
+ */
+export interface RequestContext {
+  /** Telegram chat that triggered the request (undefined for CLI/background work). */
+  chatId?: number;
+  /** True when the request comes from a group chat with several participants. */
+  isGroup?: boolean;
+  /** Usage accounting: defaults to 'chat'. */
+  source?: UsageSource;
+  /** Usage accounting: task id, skill name or language, depending on the source. */
+  sourceId?: string;
+}
+
+/** Read the request context from tool execution options. */
+export function getRequestContext(options: { experimental_context?: unknown } | undefined): RequestContext {
+  const ctx = options?.experimental_context;
+  return ctx && typeof ctx === 'object' ? ctx as RequestContext : {};
+}
@@ -0,0 +1,24 @@
+/** Argument names whose values never go into the audit log. */
+const SECRET_KEY = /(api[_-]?key|token|secret|password|passwd|credential|cookie|authorization|^auth$|^value$)/i;
+
+/** Copy tool arguments with anything that looks like a secret replaced. */
+export function redactArgs(input: unknown): unknown {
+  if (Array.isArray(input)) return input.map(redactArgs);
+  if (!input || typeof input !== 'object') return input;
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(input)) {
+    out[key] = SECRET_KEY.test(key) && value !== undefined && value !== null ? '[REDACTED]' : redactArgs(value);
+  }
+  return out;
+}
+
+/** Tools report failures as `{ success: false }` or `{ error }` inside a JSON string. */
+export function isToolSuccess(output: unknown): boolean {
+  let value = output;
+  if (typeof output === 'string') {
+    try { value = JSON.parse(output); } catch { return true; }
+  }
+  if (!value || typeof value !== 'object') return true;
+  const obj = value as { success?: unknown; error?: unknown };
+  return obj.success !== false && !obj.error;
+}
@@ -0,0 +1,119 @@
+import { tool, type ToolSet } from 'ai';
+import { z } from 'zod/v4';
+
+/** Below this many tools everything is sent — routing would save little. */
+const ROUTE_ABOVE = 20;
+
+/** Tools picked by relevance on top of the core set. */
+const MAX_ROUTED_TOOLS = 10;
+
+/** Tools a single find_tools call can load. */
+const MAX_FOUND_TOOLS = 8;
+
+/** Always offered: the everyday features and the tools needed to get other tools. */
+export const CORE_TOOLS = new Set([
+  'find_tools',
+  'create_task', 'list_tasks', 'update_task', 'complete_task', 'delete_task',
+  'get_weather', 'web_search', 'web_fetch', 'run_shell_command',
+  'save_memory', 'save_user_profile', 'save_credential',
+  'evolve_skill', 'execute_dynamic_skill',
+]);
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'this', 'that', 'from', 'into', 'your', 'you', 'are', 'was', 'what', 'when', 'how',
+  'can', 'please', 'get', 'use', 'all', 'any', 'not', 'but', 'have', 'has', 'will', 'its', 'about', 'there', 'them',
+  'tool', 'tools', 'call', 'returns', 'return',
+]);
+
+/**
+ * Lowercased words minus stopwords, crudely stemmed: long words are cut to six
+ * letters ("messages", "message" → "messag"), short ones lose a plural "s".
+ */
+function terms(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words
+    .filter((w) => w.length > 2 && !STOPWORDS.has(w))
+    .map((w) => (w.length > 6 ? w.slice(0, 6) : w.replace(/s$/, '')));
+}
+
+interface ToolDoc {
+  name: string;
+  nameTerms: Set<string>;
+  terms: Set<string>;
+}
+
+/** Keyword index over tool names and descriptions, ranked by IDF-weighted matches. */
+function buildIndex(tools: ToolSet): { rank: (query: string) => string[] } {
+  const docs: ToolDoc[] = Object.entries(tools).map(([name, t]) => {
+    const nameTerms = new Set(terms(name.replace(/_/g, ' ')));
+    return { name, nameTerms, terms: new Set([...nameTerms, ...terms(t.description ?? '')]) };
+  });
+  const df = new Map<string, number>();
+  for (const doc of docs) for (const term of doc.terms) df.set(term, (df.get(term) ?? 0) + 1);
+  const idf = (term: string) => Math.log(1 + docs.length / (df.get(term) ?? docs.length));
+
+  return {
+    rank(query: string): string[] {
+      const queryTerms = [...new Set(terms(query))];
+      return docs
+        .map((doc) => ({
+          name: doc.name,
+          // A match in the tool name counts double
+          score: queryTerms.reduce((sum, q) => sum + (doc.terms.has(q) ? idf(q) * (doc.nameTerms.has(q) ? 2 : 1) : 0), 0),
+        }))
+        .filter((d) => d.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .map((d) => d.name);
+    },
+  };
+}
+
+export interface ToolRouting {
+  /** All tools plus find_tools. */
+  tools: ToolSet;
+  /** Tools the model sees on its next step. find_tools adds to it. */
+  active: Set<string>;
+}
+
+/**
+ * Pick the tools worth sending for this request: the core set plus the best
+ * keyword matches for the conversation. The model loads anything else it
+ * needs with find_tools. Returns null when there are too few tools to bother.
+ */
+export function routeTools(tools: ToolSet, query: string): ToolRouting | null {
+  if (Object.keys(tools).length <= ROUTE_ABOVE) return null;
+
+  const index = buildIndex(tools);
+  const active = new Set(Object.keys(tools).filter((name) => CORE_TOOLS.has(name)));
+  for (const name of index.rank(query).slice(0, MAX_ROUTED_TOOLS)) active.add(name);
+  active.add('find_tools');
+
+  const findTools = tool({
+    description: 'Load more tools. Only the tools relevant to the message are shown to you — if you need another one '
+      + '(e.g. one mentioned in your instructions, or an installed skill or MCP server), describe it in English '
+      + '(e.g. "currency exchange rates", "github issues") or name it, and it becomes available on your next step.',
+    inputSchema: z.object({
+      query: z.string().optional().describe('What the tool should do, in English'),
+      names: z.array(z.string()).optional().describe('Exact tool names to load'),
+    }),
+    execute: async (args) => {
+      const named = (args.names ?? []).filter((name) => name in tools);
+      const matched = args.query ? index.rank(args.query) : [];
+      const found = [...new Set([...named, ...matched])].filter((name) => !active.has(name)).slice(0, MAX_FOUND_TOOLS);
+      for (const name of found) active.add(name);
+      if (found.length === 0) {
+        // Names are cheap: let the model pick one directly
+        return JSON.stringify({
+          loaded: [],
+          message: 'No other matching tools. Load one by name if it fits.',
+          available: Object.keys(tools).filter((name) => !active.has(name)),
+        });
+      }
+      return JSON.stringify({
+        loaded: found.map((name) => ({ name, description: (tools[name].description ?? '').split('\n')[0].slice(0, 200) })),
+      });
+    },
+  });
+
+  return { tools: { ...tools, find_tools: findTools }, active };
+}
@@ -2,22 +2,24 @@ import { tool } from 'ai';
 import { z } from 'zod/v4';
 import { existsSync, readFileSync, writeFileSync, readdirSync, mkdirSync } from 'node:fs';
 import { join } from 'node:path';
-import { homedir } from 'node:os';
-import { pathToFileURL } from 'node:url';
 import type { ToolSet } from 'ai';
 import type { TaskRepository } from '../db/repository.js';
 import type { MessageRepository } from '../db/message-repository.js';
-import type { UsageRepository } from '../db/usage-repository.js';
+import { UsageRepository } from '../db/usage-repository.js';
 import type { ConfigManager } from '../core/config-manager.js';
 import type { AiConfig } from './model-factory.js';
+import { getRequestContext } from './request-context.js';
+import { writeChatMemory } from '../core/chat-memory.js';
+import { getBudgetStatuses } from '../core/budget.js';
+import { getVault, readSecret, SECRET_NAME_RE } from '../vault/vault.js';
+import { describeSkill, runSkillTool, type SandboxToolInfo } from '../skills/sandbox.js';
+import { adoptPastedSecrets } from '../vault/redaction.js';
+import { isValidTimezone } from '../scheduler/timezone.js';
 
 const GEOCODING_URL = 'https://geocoding-api.open-meteo.com/v1/search';
 const WEATHER_URL = 'https://api.open-meteo.com/v1/forecast';
 const MARINE_URL = 'https://marine-api.open-meteo.com/v1/marine';
 
-const ZARUKA_DIR = process.env.ZARUKA_DATA_DIR || join(homedir(), '.zaruka');
-const ENV_FILE = join(ZARUKA_DIR, '.env');
-
 interface GeoResult {
   name: string;
   latitude: number;
@@ -49,17 +51,37 @@ export function createAllTools(deps: ToolDeps): ToolSet {
     ...createWebTools(),
     ...createResourceTools(),
     ...createShellTools(),
-    ...createHistoryTools(deps.messageRepo, deps.configManager),
-    ...createUsageTools(deps.usageRepo),
-    ...createCredentialTools(),
+    ...createHistoryTools(deps.messageRepo),
+    ...createUsageTools(deps.usageRepo, deps.configManager),
+    ...createCredentialTools(deps.messageRepo),
     ...createExecuteSkillTools(deps.skillsDir),
     ...createProfileTools(deps.configManager),
-    ...createMemoryTools(deps.memoryDir),
+    ...createMemoryTools(deps.memoryDir, deps.configManager),
   };
 }
 
 // === Task Tools ===
 
+const TIMEZONE_DESCRIPTION = 'IANA timezone the due date and time are in, e.g. "Asia/Tokyo" for "9am Tokyo time". '
+  + 'Omit for the user\'s own timezone — the task then follows it when it changes.';
+
+const CATCH_UP_SCHEMA = z.enum(['once', 'all', 'skip']);
+const CATCH_UP_DESCRIPTION = 'What to do with occurrences missed while the bot was offline: '
+  + '"once" (default) runs the latest one, "all" runs each of them (up to 10), "skip" drops them. '
+  + 'Use "skip" for things that only make sense on time (e.g. "wake up"), "all" when every run matters (e.g. a log entry).';
+
+const NOTIFY_POLICY_SCHEMA = z.enum(['always', 'changed', 'condition']);
+const NOTIFY_POLICY_DESCRIPTION = 'Action tasks only: when to message the user with the result. '
+  + '"always" (default) after every run, "changed" only when the tracked value differs from the previous run '
+  + '(e.g. "tell me when the price changes"), "condition" only when notify_condition holds (e.g. "alert me if it drops below $100").';
+const NOTIFY_CONDITION_DESCRIPTION = 'For notify_policy "condition": what must be true for the user to be messaged, '
+  + 'e.g. "the price is below 100 USD" or "a new release is out".';
+
+const REMINDER_DAYS_DESCRIPTION = 'One-time reminders only: send an advance notice this many days before the due time '
+  + '(default 1, 0 = no notice).';
+const ESCALATE_DESCRIPTION = 'Reminders only: re-send the reminder every N minutes until the user taps Done or Skip '
+  + '(e.g. medication).';
+
 function createTaskTools(repo: TaskRepository): ToolSet {
   return {
     create_task: tool({
@@ -71,6 +93,7 @@ function createTaskTools(repo: TaskRepository): ToolSet {
         description: z.string().optional().describe('Task description'),
         due_date: z.string().optional().describe('Due date in YYYY-MM-DD format'),
         due_time: z.string().optional().describe('Due time in HH:MM format (default: 12:00)'),
+        timezone: z.string().optional().describe(TIMEZONE_DESCRIPTION),
         recurrence: z.string().optional().describe(
           'Recurrence rule in RRULE format (RFC 5545). Examples: '
           + '"FREQ=DAILY" (every day), '
@@ -82,8 +105,20 @@ function createTaskTools(repo: TaskRepository): ToolSet {
           + 'Legacy values "daily", "weekly", "monthly", "yearly" also accepted.',
         ),
         action: z.string().optional().describe('AI instruction for the bot to execute on schedule (null = simple reminder)'),
+        catch_up: CATCH_UP_SCHEMA.optional().describe(CATCH_UP_DESCRIPTION),
+        notify_policy: NOTIFY_POLICY_SCHEMA.optional().describe(NOTIFY_POLICY_DESCRIPTION),
+        notify_condition: z.string().optional().describe(NOTIFY_CONDITION_DESCRIPTION),
+        reminder_days: z.number().int().min(0).optional().describe(REMINDER_DAYS_DESCRIPTION),
+        escalate_minutes: z.number().int().min(1).optional().describe(ESCALATE_DESCRIPTION + ' Omit to remind once.'),
       }),
       execute: async (args) => {
+        if (args.timezone && !isValidTimezone(args.timezone)) {
+          return JSON.stringify({ success: false, error: `Unknown timezone "${args.timezone}". Use an IANA name like "Europe/Berlin".` });
+        }
+        if (args.notify_policy === 'condition' && !args.notify_condition) {
+          return JSON.stringify({ success: false, error: 'notify_policy "condition" needs a notify_condition.' });
+        }
+
         // Guard against duplicate active tasks with a similar title
         const existing = repo.findActiveByTitle(args.title);
         if (existing) {
@@ -104,15 +139,25 @@ function createTaskTools(repo: TaskRepository): ToolSet {
           description: args.description,
           due_date: args.due_date,
           due_time: args.due_time,
+          timezone: args.timezone,
           recurrence: args.recurrence,
           action: args.action,
+          catch_up: args.catch_up,
+          notify_policy: args.notify_policy,
+          notify_condition: args.notify_condition,
+          reminder_days: args.reminder_days,
+          escalate_minutes: args.escalate_minutes,
         });
         return JSON.stringify({
           success: true,
           task: {
             id: task.id, title: task.title,
             due_date: task.due_date, due_time: task.due_time,
+            timezone: repo.timezoneOf(task),
             recurrence: task.recurrence, action: task.action ? '(action set)' : null,
+            catch_up: task.catch_up,
+            ...(task.action ? { notify_policy: task.notify_policy, notify_condition: task.notify_condition } : {}),
+            reminder_days: task.reminder_days, escalate_minutes: task.escalate_minutes,
           },
         });
       },
@@ -130,7 +175,12 @@ function createTaskTools(repo: TaskRepository): ToolSet {
           tasks: tasks.map((t) => ({
             id: t.id, title: t.title,
             due_date: t.due_date, due_time: t.due_time,
+            ...(t.timezone ? { timezone: t.timezone } : {}),
             recurrence: t.recurrence, has_action: !!t.action,
+            catch_up: t.catch_up,
+            ...(t.notify_policy !== 'always' ? { notify_policy: t.notify_policy, notify_condition: t.notify_condition } : {}),
+            ...(t.escalate_minutes ? { escalate_minutes: t.escalate_minutes } : {}),
+            ...(t.snoozed_until ? { snoozed_until: t.snoozed_until } : {}),
             status: t.status,
           })),
         });
@@ -148,6 +198,34 @@ function createTaskTools(repo: TaskRepository): ToolSet {
       },
     }),
 
+    get_task_runs: tool({
+      description: 'Get the run history of an action task: when it ran, how long it took, whether it succeeded, and its output. '
+        + 'Use it to answer "what did the daily report say yesterday?" or "did my task run?"',
+      inputSchema: z.object({
+        id: z.number().describe('Task ID'),
+        limit: z.number().int().min(1).max(50).optional().describe('Number of most recent runs (default: 10)'),
+      }),
+      execute: async (args) => {
+        const task = repo.getById(args.id);
+        if (!task) return JSON.stringify({ success: false, error: 'Task not found' });
+        const runs = repo.getRuns(args.id, args.limit ?? 10);
+        return JSON.stringify({
+          task: { id: task.id, title: task.title, has_action: !!task.action },
+          runs: runs.map((r) => ({
+            ran_at: r.created_at,
+            trigger: r.trigger,
+            scheduled_for: r.scheduled_for,
+            duration_ms: r.duration_ms,
+            success: !!r.success,
+            notified: !!r.notified,
+            ...(r.state !== null ? { state: r.state } : {}),
+            output: r.output,
+          })),
+          ...(runs.length === 0 ? { message: task.action ? 'This task has not run yet' : 'Only action tasks keep a run history' } : {}),
+        });
+      },
+    }),
+
     delete_task: tool({
       description: 'Delete a task',
       inputSchema: z.object({ id: z.number().describe('Task ID') }),
@@ -162,6 +240,7 @@ function createTaskTools(repo: TaskRepository): ToolSet {
         description: z.string().optional().describe('New description'),
         due_date: z.string().optional().describe('New due date in YYYY-MM-DD format'),
         due_time: z.string().optional().describe('New due time in HH:MM format'),
+        timezone: z.string().optional().describe(TIMEZONE_DESCRIPTION + ' Pass "" to go back to the user\'s timezone.'),
         recurrence: z.string().optional().describe(
           'Recurrence rule in RRULE format (RFC 5545). Examples: '
           + '"FREQ=DAILY" (every day), '
@@ -173,17 +252,31 @@ function createTaskTools(repo: TaskRepository): ToolSet {
           + 'Legacy values "daily", "weekly", "monthly", "yearly" also accepted.',
         ),
         action: z.string().optional().describe('AI instruction for the bot to execute on schedule'),
+        catch_up: CATCH_UP_SCHEMA.optional().describe(CATCH_UP_DESCRIPTION),
+        notify_policy: NOTIFY_POLICY_SCHEMA.optional().describe(NOTIFY_POLICY_DESCRIPTION),
+        notify_condition: z.string().optional().describe(NOTIFY_CONDITION_DESCRIPTION),
+        reminder_days: z.number().int().min(0).optional().describe(REMINDER_DAYS_DESCRIPTION),
+        escalate_minutes: z.number().int().min(0).optional().describe(ESCALATE_DESCRIPTION + ' 0 = remind once.'),
       }),
       execute: async (args) => {
-        const { id, ...rest } = args;
-        const task = repo.update(id, rest);
+        const { id, timezone, ...rest } = args;
+        if (timezone && !isValidTimezone(timezone)) {
+          return JSON.stringify({ success: false, error: `Unknown timezone "${timezone}". Use an IANA name like "Europe/Berlin".` });
+        }
+        if (rest.notify_policy === 'condition' && !(rest.notify_condition ?? repo.getById(id)?.notify_condition)) {
+          return JSON.stringify({ success: false, error: 'notify_policy "condition" needs a notify_condition.' });
+        }
+        const task = repo.update(id, { ...rest, ...(timezone !== undefined ? { timezone: timezone || null } : {}) });
         return JSON.stringify(task
           ? {
             success: true,
             task: {
               id: task.id, title: task.title,
               due_date: task.due_date, due_time: task.due_time,
-              recurrence: task.recurrence,
+              timezone: repo.timezoneOf(task),
+              recurrence: task.recurrence, catch_up: task.catch_up,
+              ...(task.action ? { notify_policy: task.notify_policy, notify_condition: task.notify_condition } : {}),
+              reminder_days: task.reminder_days, escalate_minutes: task.escalate_minutes,
             },
           }
           : { success: false, error: 'Task not found' });
@@ -330,7 +423,7 @@ async function searchDuckDuckGo(query: string): Promise<{ title: string; url: st
 
 /** Fallback: search via Brave Search API (requires BRAVE_API_KEY). Retries on 429. */
 async function searchBrave(query: string): Promise<{ title: string; url: string; snippet: string }[]> {
-  const apiKey = process.env.BRAVE_API_KEY;
+  const apiKey = readSecret('BRAVE_API_KEY');
   if (!apiKey) throw new Error('BRAVE_API_KEY not set');
 
   const url = new URL('https://api.search.brave.com/res/v1/web/search');
@@ -386,7 +479,7 @@ function createWebTools(): ToolSet {
 
         // Try Brave first (fast), fall back to DuckDuckGo
         const providers: Array<() => Promise<{ title: string; url: string; snippet: string }[]>> = [];
-        const hasBraveKey = !!process.env.BRAVE_API_KEY;
+        const hasBraveKey = !!readSecret('BRAVE_API_KEY');
         if (hasBraveKey) {
           providers.push(() => searchBrave(args.query));
         }
@@ -500,7 +593,8 @@ function createShellTools(): ToolSet {
           const { stdout, stderr } = await execAsync(args.command, {
             timeout: 60_000,
             maxBuffer: 1024 * 1024,
-            env: { ...process.env, DEBIAN_FRONTEND: 'noninteractive' },
+            // Credentials stay in the vault — never hand them to arbitrary commands
+            env: { ...getVault().scrubEnv(process.env), DEBIAN_FRONTEND: 'noninteractive' },
           });
           const output = (stdout || '').trim();
           const errors = (stderr || '').trim();
@@ -564,18 +658,18 @@ function createShellTools(): ToolSet {
 
 // === History Tools ===
 
-function createHistoryTools(messageRepo: MessageRepository, configManager: ConfigManager): ToolSet {
+function createHistoryTools(messageRepo: MessageRepository): ToolSet {
   return {
     browse_history: tool({
-      description: 'Browse conversation history page by page (newest first). You only see the last 2 exchanges in context. '
+      description: 'Browse conversation history page by page (newest first). You only see the latest messages in full, older ones only as a summary. '
         + 'Use this to find something the user mentioned earlier: API keys, decisions, instructions, links, etc. '
         + 'Start with page 0 and keep incrementing until you find what you need or hasMore is false. '
         + 'Each page shows 20 messages.',
       inputSchema: z.object({
         page: z.number().describe('Page number (0 = most recent 20 messages, 1 = next 20, etc.)'),
       }),
-      execute: async (args) => {
-        const chatId = configManager.getChatId();
+      execute: async (args, options) => {
+        const { chatId } = getRequestContext(options);
         if (!chatId) return JSON.stringify({ error: 'No active chat' });
         const pageSize = 20;
         const offset = (args.page ?? 0) * pageSize;
@@ -594,35 +688,45 @@ function createHistoryTools(messageRepo: MessageRepository, configManager: Confi
     }),
 
     search_conversation_history: tool({
-      description: 'Search through conversation history by keyword. Returns messages containing the search text. '
-        + 'Use this when you know EXACTLY what to search for (a name, a key prefix, a service name). '
+      description: 'Search through conversation history by keyword. Returns the best matching messages first; '
+        + 'every word must appear (word prefixes match too, case-insensitive, in any language). '
+        + 'Use this when you know what to search for (a name, a key prefix, a service name). '
+        + 'Narrow it down by who wrote the message or by date. '
         + 'If the search returns nothing, try different keywords or use browse_history to scan page by page.',
       inputSchema: z.object({
         query: z.string().describe('Search text to find in past messages'),
+        role: z.enum(['user', 'assistant']).optional().describe('Only messages from the user or only your own replies'),
+        from: z.string().optional().describe('Earliest date, YYYY-MM-DD (UTC)'),
+        to: z.string().optional().describe('Latest date, YYYY-MM-DD (UTC), inclusive'),
         limit: z.number().optional().describe('Max results to return (default 10)'),
       }),
-      execute: async (args) => {
-        const results = messageRepo.searchAll(args.query, args.limit || 10);
+      execute: async (args, options) => {
+        const { chatId } = getRequestContext(options);
+        if (!chatId) return JSON.stringify({ error: 'No active chat' });
+        const results = messageRepo.search(chatId, args.query, {
+          role: args.role, from: args.from, to: args.to, limit: args.limit || 10,
+        });
         if (results.length === 0) return JSON.stringify({ found: 0, message: 'No messages found matching the query.' });
         const formatted = results.map((m) => ({
           role: m.role,
-          text: m.text.length > 300 ? m.text.slice(0, 300) + '...' : m.text,
+          // Short messages in full, long ones as the fragment around the match
+          text: m.text.length > 300 ? m.snippet : m.text,
           date: m.created_at,
+          ...(m.sender_name ? { sender: m.sender_name } : {}),
         }));
         return JSON.stringify({ found: results.length, messages: formatted });
       },
     }),
 
     get_conversation_stats: tool({
-      description: 'Get statistics about conversation history: total messages, date range, etc. '
+      description: 'Get statistics about conversation history with the current user: total messages, date range, etc. '
         + 'Use when user asks "how many messages have we exchanged?", "when did we first talk?", etc.',
-      inputSchema: z.object({
-        chat_id: z.number().optional().describe('Chat ID (omit for overall stats)'),
-      }),
-      execute: async (args) => {
-        if (args.chat_id) return JSON.stringify(messageRepo.getStats(args.chat_id));
+      inputSchema: z.object({}),
+      execute: async (_args, options) => {
+        const { chatId } = getRequestContext(options);
         const disk = messageRepo.getDiskUsage();
-        return JSON.stringify({ ...disk, note: 'Provide chat_id for per-chat stats' });
+        if (!chatId) return JSON.stringify(disk);
+        return JSON.stringify({ ...messageRepo.getStats(chatId), ...disk });
       },
     }),
   };
@@ -630,19 +734,31 @@ function createHistoryTools(messageRepo: MessageRepository, configManager: Confi
 
 // === Usage Tools ===
 
-function createUsageTools(usageRepo: UsageRepository): ToolSet {
+function createUsageTools(usageRepo: UsageRepository, configManager: ConfigManager): ToolSet {
   return {
     get_api_usage: tool({
-      description: 'Get API token usage statistics (today and this month). Use when user asks about costs, spending, tokens, usage, how much they\'ve used, etc.',
+      description: 'Get API token usage statistics (today and this month, broken down by source such as chat or scheduled tasks) and spending budget status. Use when user asks about costs, spending, budgets, tokens, usage, how much they\'ve used, etc.',
       inputSchema: z.object({
         period: z.enum(['today', 'month']).optional().describe('Period to query (default: both)'),
       }),
       execute: async (args) => {
         const today = usageRepo.getToday();
         const month = usageRepo.getMonth();
-        if (args.period === 'today') return JSON.stringify({ period: 'today', ...today });
-        if (args.period === 'month') return JSON.stringify({ period: 'month', ...month });
-        return JSON.stringify({ today, month });
+        const budgets = getBudgetStatuses(configManager, usageRepo).map((s) => ({
+          provider: s.provider,
+          period: s.period,
+          limit_usd: s.limit,
+          spent_usd: Math.round(s.spent * 10000) / 10000,
+          percent: s.percent,
+          hard_cap: s.hardCap ?? null,
+          cap_reached: !!s.hardCap && s.spent >= s.limit,
+        }));
+        // What consumed the tokens: chat, scheduled tasks, skill creation, ...
+        const range = UsageRepository.getDateRange(args.period === 'today' ? 'today' : 'month');
+        const by_source = usageRepo.getSourceBreakdown(range.from, range.to);
+        if (args.period === 'today') return JSON.stringify({ period: 'today', ...today, by_source, budgets });
+        if (args.period === 'month') return JSON.stringify({ period: 'month', ...month, by_source, budgets });
+        return JSON.stringify({ today, month, month_by_source: by_source, budgets });
       },
     }),
   };
@@ -660,7 +776,10 @@ function createProfileTools(configManager: ConfigManager): ToolSet {
         city: z.string().optional().describe('User\'s city of residence'),
         birthday: z.string().optional().describe('User\'s birthday in MM-DD format (e.g. "03-15" for March 15)'),
       }),
-      execute: async (args) => {
+      execute: async (args, options) => {
+        const { chatId } = getRequestContext(options);
+        if (!chatId) return JSON.stringify({ success: false, error: 'No active chat' });
+        const isOwner = chatId === configManager.getChatId();
         const profile: { name?: string; city?: string; timezone?: string; birthday?: string } = {};
 
         if (args.name) profile.name = args.name;
@@ -676,14 +795,15 @@ function createProfileTools(configManager: ConfigManager): ToolSet {
               if (data.results?.length) {
                 profile.city = data.results[0].name;
                 profile.timezone = data.results[0].timezone;
-                configManager.updateTimezone(data.results[0].timezone);
+                // The owner's timezone also drives the scheduler
+                if (isOwner) configManager.updateTimezone(data.results[0].timezone);
               }
             }
           } catch { /* timezone resolution is best-effort */ }
         }
 
         if (Object.keys(profile).length > 0) {
-          configManager.updateProfile(profile);
+          configManager.updateProfile(chatId, profile);
         }
 
         return JSON.stringify({ success: true, saved: profile });
@@ -696,25 +816,24 @@ function createProfileTools(configManager: ConfigManager): ToolSet {
 
 const MEMORY_MAX_CHARS = 4000;
 
-function createMemoryTools(memoryDir: string): ToolSet {
-  const memoryFile = join(memoryDir, 'MEMORY.md');
-
+function createMemoryTools(memoryDir: string, configManager: ConfigManager): ToolSet {
   return {
     save_memory: tool({
-      description: 'Save persistent memory that will be available across all future conversations. '
+      description: 'Save persistent memory about the current user that will be available across all future conversations with them. '
         + 'This REPLACES the entire memory file — include ALL content you want to keep. '
         + 'Use this when the user shares important personal info, preferences, or context worth remembering long-term.',
       inputSchema: z.object({
         content: z.string().describe('Full markdown content to save as memory (max ~4000 chars)'),
       }),
-      execute: async (args) => {
+      execute: async (args, options) => {
+        const chatId = getRequestContext(options).chatId ?? configManager.getChatId();
+        if (!chatId) return JSON.stringify({ success: false, error: 'No active chat' });
         try {
           let content = args.content;
           if (content.length > MEMORY_MAX_CHARS) {
             content = content.slice(0, MEMORY_MAX_CHARS);
           }
-          mkdirSync(memoryDir, { recursive: true });
-          writeFileSync(memoryFile, content, 'utf-8');
+          writeChatMemory(memoryDir, chatId, content);
           return JSON.stringify({
             success: true,
             chars: content.length,
@@ -728,54 +847,83 @@ function createMemoryTools(memoryDir: string): ToolSet {
   };
 }
 
-// === Credential Tool ===
+// === Credential Tools ===
 
-function createCredentialTools(): ToolSet {
+function createCredentialTools(messageRepo: MessageRepository): ToolSet {
+  const vault = getVault();
   return {
     save_credential: tool({
       description: 'Save a user-provided credential (API key, token, login, password) so it can be used by skills. '
-        + 'The credential is stored securely and available immediately. '
+        + 'The credential is stored encrypted in the vault and available immediately. '
+        + 'A skill can read it as process.env.NAME only if its code references that name, or if it is listed in `skills`. '
         + 'Use SCREAMING_SNAKE_CASE for the name (e.g. FREEDOM_FINANCE_API_KEY).',
       inputSchema: z.object({
         name: z.string().describe('Environment variable name in SCREAMING_SNAKE_CASE (e.g. FREEDOM_FINANCE_API_KEY)'),
         value: z.string().describe('The credential value to save'),
+        skills: z.array(z.string()).optional()
+          .describe('Restrict access to these skills (skill file names without .js). Omit to allow skills that reference the name.'),
       }),
       execute: async (args) => {
-        const { name, value } = args;
+        const { name, value, skills } = args;
 
-        if (!/^[A-Z][A-Z0-9_]*$/.test(name)) {
+        if (!SECRET_NAME_RE.test(name)) {
           return JSON.stringify({ error: 'Invalid name. Use SCREAMING_SNAKE_CASE (e.g. MY_API_KEY)' });
         }
+        if (vault.list().some((s) => s.name === name && s.system)) {
+          return JSON.stringify({ error: `${name} is managed by Zaruka (provider settings) and cannot be overwritten.` });
+        }
 
-        process.env[name] = value;
-
-        try {
-          let lines: string[] = [];
-          if (existsSync(ENV_FILE)) {
-            lines = readFileSync(ENV_FILE, 'utf-8').split('\n');
-          }
+        vault.set(name, value, { skills });
+        // The value was usually pasted in chat: give it its real name in history
+        for (const pasted of adoptPastedSecrets(name, value)) messageRepo.renameSecretPlaceholder(pasted, name);
+        messageRepo.redactSecretValue(value, name);
+        return JSON.stringify({
+          success: true, name,
+          message: `Credential ${name} saved to the vault and available immediately.`,
+        });
+      },
+    }),
 
-          const prefix = `${name}=`;
-          const existingIdx = lines.findIndex((l) => l.startsWith(prefix));
-          if (existingIdx !== -1) {
-            lines[existingIdx] = `${name}=${value}`;
-          } else {
-            while (lines.length > 0 && lines[lines.length - 1].trim() === '') lines.pop();
-            lines.push(`${name}=${value}`);
-          }
+    list_credentials: tool({
+      description: 'List stored credentials: names, which skills may read them, and when they were last changed. Values are never shown.',
+      inputSchema: z.object({}),
+      execute: async () => JSON.stringify({
+        credentials: vault.list().map((s) => ({
+          name: s.name,
+          access: s.system ? 'zaruka only' : s.skills?.length === 0 ? 'tool calls only' : s.skills ? s.skills : 'skills that reference it',
+          updated_at: s.updatedAt,
+        })),
+      }),
+    }),
 
-          writeFileSync(ENV_FILE, lines.join('\n') + '\n', { mode: 0o600 });
+    rotate_credential: tool({
+      description: 'Replace the value of a stored credential (e.g. after the user regenerates an API key), and/or change which skills may read it.',
+      inputSchema: z.object({
+        name: z.string().describe('Credential name'),
+        value: z.string().optional().describe('New value (omit to keep the current one)'),
+        skills: z.array(z.string()).optional().describe('New list of skills allowed to read it'),
+      }),
+      execute: async (args) => {
+        const info = vault.list().find((s) => s.name === args.name);
+        if (!info) return JSON.stringify({ error: `Credential ${args.name} not found` });
+        if (info.system) return JSON.stringify({ error: `${args.name} is managed by Zaruka — change it via /settings.` });
+        vault.set(args.name, args.value ?? vault.get(args.name)!, { skills: args.skills });
+        if (args.value) messageRepo.redactSecretValue(args.value, args.name);
+        return JSON.stringify({ success: true, name: args.name, rotated: !!args.value, skills: args.skills ?? info.skills ?? null });
+      },
+    }),
 
-          return JSON.stringify({
-            success: true, name,
-            message: `Credential ${name} saved and available immediately.`,
-          });
-        } catch (err) {
-          return JSON.stringify({
-            success: true, name,
-            message: `Credential ${name} set for this session (file save failed: ${err}).`,
-          });
-        }
+    delete_credential: tool({
+      description: 'Delete a stored credential from the vault.',
+      inputSchema: z.object({
+        name: z.string().describe('Credential name'),
+      }),
+      execute: async (args) => {
+        const info = vault.list().find((s) => s.name === args.name);
+        if (!info) return JSON.stringify({ error: `Credential ${args.name} not found` });
+        if (info.system) return JSON.stringify({ error: `${args.name} is managed by Zaruka and cannot be deleted here.` });
+        vault.delete(args.name);
+        return JSON.stringify({ success: true, name: args.name });
       },
     }),
   };
@@ -786,8 +934,9 @@ function createCredentialTools(): ToolSet {
 function createExecuteSkillTools(skillsDir: string): ToolSet {
   return {
     execute_dynamic_skill: tool({
-      description: 'Execute a dynamically created skill tool by name. Use this to call skills that were just created by evolve_skill, '
-        + 'or to retry a failed skill call. This loads the latest version of the skill from disk.',
+      description: 'Fallback for skills created or updated by evolve_skill during this conversation turn, whose tools are not '
+        + 'in your tool list yet. Installed skills are regular tools — call them directly instead. '
+        + 'Loads the latest version of the skill from disk and runs it in the skill sandbox; args are checked against the skill\'s schema.',
       inputSchema: z.object({
         tool_name: z.string().describe('Name of the tool to execute (e.g. "get_freedom_finance_positions")'),
         args: z.record(z.string(), z.unknown()).optional().describe('Arguments to pass to the tool (key-value pairs)'),
@@ -798,35 +947,38 @@ function createExecuteSkillTools(skillsDir: string): ToolSet {
         }
 
         const files = readdirSync(skillsDir).filter((f) => f.endsWith('.js') || f.endsWith('.mjs'));
+        // Only files mentioning the tool can define it — saves starting a sandbox per file
+        const candidates = files.filter((f) => readFileSync(join(skillsDir, f), 'utf-8').includes(input.tool_name));
 
-        for (const file of files) {
+        for (const file of candidates) {
+          let infos: SandboxToolInfo[];
           try {
-            const fullPath = join(skillsDir, file);
-            const mod = await import(pathToFileURL(fullPath).href + `?t=${Date.now()}`);
-            const toolsMap = mod.tools as Record<string, { execute?: (args: unknown) => Promise<unknown> }> | undefined;
-
-            if (toolsMap && typeof toolsMap === 'object') {
-              const found = toolsMap[input.tool_name];
-              if (found && typeof found.execute === 'function') {
-                const result = await found.execute(input.args || {});
-                return typeof result === 'string' ? result : JSON.stringify(result);
-              }
-            }
+            infos = await describeSkill(skillsDir, file);
           } catch (err) {
             console.error(`execute_dynamic_skill: error loading ${file}:`, err instanceof Error ? err.message : err);
             continue;
           }
+          const info = infos.find((i) => i.name === input.tool_name);
+          if (!info) continue;
+          try {
+            const result = await runSkillTool(skillsDir, file, input.tool_name, input.args || {});
+            // Untyped args are easy to get wrong: show the schema so the call can be fixed
+            let parsed: unknown;
+            try { parsed = JSON.parse(result); } catch { return result; }
+            if (parsed && typeof parsed === 'object' && (parsed as { error?: unknown }).error === 'invalid_arguments') {
+              return JSON.stringify({ ...parsed, input_schema: info.inputSchema });
+            }
+            return result;
+          } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+          }
         }
 
         // Not found — list available
         const available: string[] = [];
         for (const file of files) {
           try {
-            const fullPath = join(skillsDir, file);
-            const mod = await import(pathToFileURL(fullPath).href + `?t=${Date.now()}`);
-            if (mod.tools && typeof mod.tools === 'object') {
-              available.push(...Object.keys(mod.tools));
-            }
+            available.push(...(await describeSkill(skillsDir, file)).map((info) => info.name));
           } catch { /* skip broken files */ }
         }
 
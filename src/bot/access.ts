@@ -0,0 +1,326 @@
+import { Markup, type Context, type Telegraf } from 'telegraf';
+import type { ChatRole } from '../core/types.js';
+import type { BotContext } from './bot-context.js';
+import { t, type UIKey } from './i18n.js';
+import { isGroupChat, canManageGroup } from './group.js';
+
+/** Commands available to read-only chats. Everything else (including free text) is refused. */
+const READONLY_COMMANDS = new Set(['start', 'help', 'version', 'tasks', 'usage', 'resources', 'search', 'cancel']);
+const READONLY_CALLBACK = /^(task:(list|view|noop)|usage:|search:)/;
+
+/** Commands and callbacks reserved for the owner. Members may still change their own chat language. */
+const OWNER_ONLY_COMMANDS = new Set(['invite', 'users', 'audit', 'secrets', 'skills']);
+const OWNER_ONLY_CALLBACK = /^(settings:(?!lang$|back$|history$)|thresh|model|onboard|users|approve|audit|secrets|skills)/;
+
+/** In groups, changing settings additionally requires the owner or a group admin. */
+const GROUP_ADMIN_CALLBACK = /^(group|settings|lang):/;
+
+const UNKNOWN_NOTICE_COOLDOWN_MS = 10 * 60 * 1000;
+const MAX_CODE_ATTEMPTS = 5;
+const CODE_ATTEMPT_WINDOW_MS = 60 * 60 * 1000;
+
+/** Per-chat: when the owner was last told about this unknown chat. */
+const lastUnknownNotice = new Map<number, number>();
+/** Per-chat: failed pairing/invite attempts within the current window. */
+const codeAttempts = new Map<number, { count: number; since: number }>();
+
+const ROLE_KEYS: Record<ChatRole, UIKey> = {
+  owner: 'access.role_owner',
+  member: 'access.role_member',
+  readonly: 'access.role_readonly',
+};
+
+function chatDisplayName(tCtx: Context): string {
+  const chat = tCtx.chat;
+  if (chat && 'title' in chat) return chat.title;
+  const from = tCtx.from;
+  if (!from) return String(chat?.id ?? '?');
+  const name = [from.first_name, from.last_name].filter(Boolean).join(' ');
+  return from.username ? `${name} (@${from.username})` : name;
+}
+
+function commandName(text: string | undefined): string | undefined {
+  const match = text?.match(/^\/(\w+)(?:@\w+)?/);
+  return match?.[1].toLowerCase();
+}
+
+/** Extract a pairing/invite code from "/start CODE", "/pair CODE" or a bare code. */
+function extractCode(text: string | undefined): string | undefined {
+  if (!text) return undefined;
+  const cmd = text.match(/^\/(?:start|pair)(?:@\w+)?\s+(\S+)\s*$/i);
+  if (cmd) return cmd[1];
+  const bare = text.trim();
+  return /^[A-Za-z0-9]{4}-?[A-Za-z0-9]{4}$/.test(bare) ? bare : undefined;
+}
+
+function tooManyAttempts(chatId: number): boolean {
+  const entry = codeAttempts.get(chatId);
+  if (!entry || Date.now() - entry.since > CODE_ATTEMPT_WINDOW_MS) return false;
+  return entry.count >= MAX_CODE_ATTEMPTS;
+}
+
+function recordFailedAttempt(chatId: number): void {
+  const entry = codeAttempts.get(chatId);
+  if (!entry || Date.now() - entry.since > CODE_ATTEMPT_WINDOW_MS) {
+    codeAttempts.set(chatId, { count: 1, since: Date.now() });
+  } else {
+    entry.count++;
+  }
+}
+
+/** Check whether a role may perform the action carried by this update. */
+function isPermitted(role: ChatRole, tCtx: Context): boolean {
+  if (role === 'owner') return true;
+
+  const cbData = tCtx.callbackQuery && 'data' in tCtx.callbackQuery ? tCtx.callbackQuery.data : undefined;
+  const cmd = commandName(tCtx.text);
+
+  if (role === 'member') {
+    if (cbData) return !OWNER_ONLY_CALLBACK.test(cbData);
+    return !cmd || !OWNER_ONLY_COMMANDS.has(cmd);
+  }
+
+  // readonly
+  if (cbData) return READONLY_CALLBACK.test(cbData);
+  return !!cmd && READONLY_COMMANDS.has(cmd);
+}
+
+/**
+ * Gate every update through the allowlist.
+ * Unknown chats can only pair (with the setup code) or redeem an invite;
+ * anything else is dropped and the owner is notified.
+ */
+export function registerAccessControl(bot: Telegraf, ctx: BotContext): void {
+  const { configManager } = ctx;
+
+  bot.use(async (tCtx, next) => {
+    const chatId = tCtx.chat?.id;
+    if (!chatId) return next();
+
+    const isGroup = isGroupChat(tCtx);
+    let role = configManager.getChatRole(chatId);
+
+    // The owner adding the bot to a group allowlists that group
+    if (!role && isGroup && tCtx.from?.id === configManager.getChatId()) {
+      configManager.setChatRole(chatId, 'member', chatDisplayName(tCtx));
+      role = 'member';
+      console.log(`Group allowlisted by owner: ${chatDisplayName(tCtx)} (${chatId})`);
+    }
+
+    // Inside groups the owner keeps owner rights
+    if (role && isGroup && tCtx.from?.id === configManager.getChatId()) role = 'owner';
+
+    if (role) {
+      if (ctx.onboarding.active && role !== 'owner') {
+        if (tCtx.callbackQuery) await tCtx.answerCbQuery().catch(() => {});
+        await tCtx.reply(t(configManager, 'access.setup_in_progress')).catch(() => {});
+        return;
+      }
+      if (!configManager.getAllowlist()[String(chatId)]?.name) {
+        configManager.setChatRole(chatId, role, chatDisplayName(tCtx));
+      }
+      const cbData = tCtx.callbackQuery && 'data' in tCtx.callbackQuery ? tCtx.callbackQuery.data : undefined;
+      const permitted = isPermitted(role, tCtx)
+        && !(isGroup && cbData && GROUP_ADMIN_CALLBACK.test(cbData) && !(await canManageGroup(tCtx, configManager)));
+      if (!permitted) {
+        if (tCtx.callbackQuery) {
+          await tCtx.answerCbQuery(t(configManager, 'access.not_permitted')).catch(() => {});
+        } else if (!isGroup || tCtx.text?.startsWith('/')) {
+          // Don't answer ordinary group chatter
+          await tCtx.reply(t(configManager, 'access.not_permitted')).catch(() => {});
+        }
+        return;
+      }
+      return next();
+    }
+
+    const name = chatDisplayName(tCtx);
+    const code = extractCode(tCtx.text);
+
+    if (code && !tooManyAttempts(chatId)) {
+      if (configManager.claimOwnership(code, chatId, name)) {
+        console.log(`Owner paired: ${name} (${chatId})`);
+        await tCtx.reply(t(configManager, 'access.paired'));
+        if (ctx.onboarding.active) await ctx.onboarding.sendWelcome(tCtx);
+        return;
+      }
+
+      const granted = configManager.redeemInvite(code, chatId, name);
+      if (granted) {
+        console.log(`Invite redeemed: ${name} (${chatId}) as ${granted}`);
+        await tCtx.reply(t(configManager, 'access.joined', { role: t(configManager, ROLE_KEYS[granted]) }));
+        await notifyOwner(tCtx, ctx, t(configManager, 'access.owner_joined', {
+          name,
+          role: t(configManager, ROLE_KEYS[granted]),
+        }));
+        return;
+      }
+
+      recordFailedAttempt(chatId);
+    }
+
+    console.log(`Blocked message from unauthorized chat ${chatId}`);
+    if (tCtx.callbackQuery) return;
+
+    const last = lastUnknownNotice.get(chatId) ?? 0;
+    if (Date.now() - last < UNKNOWN_NOTICE_COOLDOWN_MS) return;
+    lastUnknownNotice.set(chatId, Date.now());
+
+    await tCtx.reply(t(configManager, 'access.unknown_chat')).catch(() => {});
+
+    const preview = tCtx.text ? `\n\n«${tCtx.text.slice(0, 200)}»` : '';
+    await notifyOwner(
+      tCtx,
+      ctx,
+      t(configManager, 'access.owner_unknown', { name, id: String(chatId) }) + preview,
+      Markup.inlineKeyboard([
+        [
+          Markup.button.callback(t(configManager, 'access.allow_member_btn'), `users:allow:${chatId}:member`),
+          Markup.button.callback(t(configManager, 'access.allow_readonly_btn'), `users:allow:${chatId}:readonly`),
+        ],
+      ]),
+    );
+  });
+}
+
+async function notifyOwner(
+  tCtx: Context,
+  ctx: BotContext,
+  text: string,
+  extra?: ReturnType<typeof Markup.inlineKeyboard>,
+): Promise<void> {
+  const owner = ctx.configManager.getChatId();
+  if (!owner) return;
+  try {
+    await tCtx.telegram.sendMessage(owner, text, extra);
+  } catch (err) {
+    console.error('Failed to notify owner:', err instanceof Error ? err.message : err);
+  }
+}
+
+// --- /users and /invite ---
+
+function usersText(ctx: BotContext): string {
+  const { configManager } = ctx;
+  const lines = [t(configManager, 'access.users_title'), ''];
+  for (const [id, entry] of Object.entries(configManager.getAllowlist())) {
+    lines.push(`• ${entry.name ?? id} — ${t(configManager, ROLE_KEYS[entry.role])}`);
+  }
+  return lines.join('\n');
+}
+
+function usersKeyboard(ctx: BotContext) {
+  const { configManager } = ctx;
+  const rows: ReturnType<typeof Markup.button.callback>[][] = [];
+  for (const [id, entry] of Object.entries(configManager.getAllowlist())) {
+    if (entry.role === 'owner') continue;
+    rows.push([Markup.button.callback(`${entry.name ?? id}`, `users:view:${id}`)]);
+  }
+  rows.push([Markup.button.callback(t(configManager, 'access.invite_btn'), 'users:invite')]);
+  return Markup.inlineKeyboard(rows);
+}
+
+function userDetailKeyboard(ctx: BotContext, chatId: string) {
+  const { configManager } = ctx;
+  return Markup.inlineKeyboard([
+    [
+      Markup.button.callback(t(configManager, 'access.role_member'), `users:role:${chatId}:member`),
+      Markup.button.callback(t(configManager, 'access.role_readonly'), `users:role:${chatId}:readonly`),
+    ],
+    [Markup.button.callback(t(configManager, 'access.make_owner_btn'), `users:role:${chatId}:owner`)],
+    [Markup.button.callback(t(configManager, 'access.remove_btn'), `users:remove:${chatId}`)],
+    [Markup.button.callback(t(configManager, 'settings.back'), 'users:list')],
+  ]);
+}
+
+function inviteRoleKeyboard(ctx: BotContext) {
+  const { configManager } = ctx;
+  return Markup.inlineKeyboard([
+    [
+      Markup.button.callback(t(configManager, 'access.role_member'), 'users:invite:member'),
+      Markup.button.callback(t(configManager, 'access.role_readonly'), 'users:invite:readonly'),
+    ],
+  ]);
+}
+
+export function registerAccessCommands(bot: Telegraf, ctx: BotContext): void {
+  const { configManager } = ctx;
+
+  bot.command('users', async (tCtx) => {
+    await tCtx.reply(usersText(ctx), usersKeyboard(ctx));
+  });
+
+  bot.command('invite', async (tCtx) => {
+    await tCtx.reply(t(configManager, 'access.invite_choose_role'), inviteRoleKeyboard(ctx));
+  });
+
+  bot.action('users:list', async (tCtx) => {
+    await tCtx.answerCbQuery();
+    try { await tCtx.editMessageText(usersText(ctx), usersKeyboard(ctx)); } catch { /* identical */ }
+  });
+
+  bot.action('users:invite', async (tCtx) => {
+    await tCtx.answerCbQuery();
+    await tCtx.editMessageText(t(configManager, 'access.invite_choose_role'), inviteRoleKeyboard(ctx));
+  });
+
+  bot.action(/^users:invite:(member|readonly)$/, async (tCtx) => {
+    await tCtx.answerCbQuery();
+    const role = tCtx.match[1] as 'member' | 'readonly';
+    const code = configManager.createInvite(role);
+    const username = tCtx.botInfo?.username ?? 'bot';
+    await tCtx.editMessageText(t(configManager, 'access.invite_created', {
+      code,
+      role: t(configManager, ROLE_KEYS[role]),
+      bot: `@${username}`,
+    }));
+  });
+
+  bot.action(/^users:view:(-?\d+)$/, async (tCtx) => {
+    await tCtx.answerCbQuery();
+    const id = tCtx.match[1];
+    const entry = configManager.getAllowlist()[id];
+    if (!entry) {
+      await tCtx.editMessageText(usersText(ctx), usersKeyboard(ctx));
+      return;
+    }
+    await tCtx.editMessageText(
+      `${entry.name ?? id}\nID: ${id}\n${t(configManager, ROLE_KEYS[entry.role])}`,
+      userDetailKeyboard(ctx, id),
+    );
+  });
+
+  bot.action(/^users:role:(-?\d+):(owner|member|readonly)$/, async (tCtx) => {
+    const chatId = Number(tCtx.match[1]);
+    const role = tCtx.match[2] as ChatRole;
+    if (!configManager.getChatRole(chatId)) {
+      await tCtx.answerCbQuery();
+      return;
+    }
+    configManager.setChatRole(chatId, role);
+    await tCtx.answerCbQuery(t(configManager, 'access.role_changed', { role: t(configManager, ROLE_KEYS[role]) }));
+    if (role === 'owner') {
+      console.log(`Ownership transferred to chat ${chatId}`);
+      await tCtx.telegram.sendMessage(chatId, t(configManager, 'access.now_owner')).catch(() => {});
+    }
+    try { await tCtx.editMessageText(usersText(ctx), usersKeyboard(ctx)); } catch { /* identical */ }
+  });
+
+  bot.action(/^users:remove:(-?\d+)$/, async (tCtx) => {
+    const removed = configManager.removeChat(Number(tCtx.match[1]));
+    await tCtx.answerCbQuery(removed ? t(configManager, 'access.removed') : undefined);
+    try { await tCtx.editMessageText(usersText(ctx), usersKeyboard(ctx)); } catch { /* identical */ }
+  });
+
+  // Quick approval from the unknown-chat notification
+  bot.action(/^users:allow:(-?\d+):(member|readonly)$/, async (tCtx) => {
+    const chatId = Number(tCtx.match[1]);
+    const role = tCtx.match[2] as 'member' | 'readonly';
+    if (!configManager.getChatRole(chatId)) configManager.setChatRole(chatId, role);
+    await tCtx.answerCbQuery(t(configManager, 'access.role_changed', { role: t(configManager, ROLE_KEYS[role]) }));
+    await tCtx.editMessageReplyMarkup(undefined).catch(() => {});
+    await tCtx.telegram.sendMessage(chatId, t(configManager, 'access.joined', {
+      role: t(configManager, ROLE_KEYS[role]),
+    })).catch(() => {});
+  });
+}
@@ -0,0 +1,69 @@
+import { Markup, type Telegraf } from 'telegraf';
+import type { ApprovalGate, ApprovalPrompter } from '../ai/approval-gate.js';
+import type { ApprovalDecision } from '../db/approval-repository.js';
+import type { ConfigManager } from '../core/config-manager.js';
+import { t } from './i18n.js';
+
+const DECISIONS: Record<string, ApprovalDecision> = {
+  yes: 'approved',
+  no: 'denied',
+  always: 'always',
+};
+
+/** Send approval requests to the owner's chat with Approve / Deny / Always allow buttons. */
+export function createApprovalPrompter(bot: Telegraf, configManager: ConfigManager): ApprovalPrompter {
+  return async (request) => {
+    const ownerChatId = configManager.getChatId();
+    if (!ownerChatId) throw new Error('No owner paired — cannot ask for approval');
+
+    const lines = [
+      t(configManager, 'approval.title'),
+      '',
+      t(configManager, 'approval.tool', {
+        tool: request.toolName,
+        class: t(configManager, `approval.class_${request.toolClass}`),
+      }),
+    ];
+    if (request.chatId && request.chatId !== ownerChatId) {
+      const name = configManager.getAllowlist()[String(request.chatId)]?.name ?? String(request.chatId);
+      lines.push(t(configManager, 'approval.from_chat', { chat: name }));
+    }
+    lines.push('', request.summary);
+
+    await bot.telegram.sendMessage(ownerChatId, lines.join('\n'), Markup.inlineKeyboard([
+      [
+        Markup.button.callback(t(configManager, 'approval.approve_btn'), `approve:${request.id}:yes`),
+        Markup.button.callback(t(configManager, 'approval.deny_btn'), `approve:${request.id}:no`),
+      ],
+      [Markup.button.callback(t(configManager, 'approval.always_btn'), `approve:${request.id}:always`)],
+    ]));
+  };
+}
+
+export function registerApprovalCallbacks(
+  bot: Telegraf,
+  configManager: ConfigManager,
+  getGate: () => ApprovalGate | null,
+): void {
+  bot.action(/^approve:(\d+):(yes|no|always)$/, async (tCtx) => {
+    const id = parseInt(tCtx.match[1], 10);
+    const decision = DECISIONS[tCtx.match[2]];
+    const record = getGate()?.resolve(id, decision, tCtx.from?.id);
+
+    if (!record) {
+      await tCtx.answerCbQuery(t(configManager, 'approval.expired'));
+      await tCtx.editMessageReplyMarkup(undefined).catch(() => {});
+      return;
+    }
+    await tCtx.answerCbQuery();
+
+    // Keep the request text, replace the buttons with the outcome
+    const original = (tCtx.callbackQuery.message as { text?: string } | undefined)?.text ?? '';
+    const outcome = decision === 'approved'
+      ? t(configManager, 'approval.approved')
+      : decision === 'always'
+        ? t(configManager, 'approval.always', { tool: record.tool_name })
+        : t(configManager, 'approval.denied');
+    await tCtx.editMessageText(`${original}\n\n${outcome}`).catch(() => {});
+  });
+}
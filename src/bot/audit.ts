@@ -0,0 +1,77 @@
+import { Markup, type Telegraf } from 'telegraf';
+import type { ToolCallRecord } from '../db/tool-call-repository.js';
+import type { BotContext } from './bot-context.js';
+import { t } from './i18n.js';
+
+const PAGE_SIZE = 10;
+/** Telegram limits callback data to 64 bytes. */
+const MAX_CALLBACK_BYTES = 64;
+
+function callbackData(offset: number, toolName: string): string | null {
+  const data = `audit:${offset}:${toolName}`;
+  return Buffer.byteLength(data) <= MAX_CALLBACK_BYTES ? data : null;
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatEntry(entry: ToolCallRecord): string {
+  const args = entry.args.length > 120 ? entry.args.slice(0, 120) + '…' : entry.args;
+  const time = entry.created_at.slice(5, 16);
+  return `${entry.success ? '✓' : '✗'} ${time} ${entry.tool_name} · ${formatDuration(entry.duration_ms)}\n   ${args}`;
+}
+
+function auditPage(ctx: BotContext, offset: number, toolName: string) {
+  const { configManager, toolCallRepo } = ctx;
+  const filter = { toolName: toolName || undefined };
+  const total = toolCallRepo.count(filter);
+  const entries = toolCallRepo.list(filter, PAGE_SIZE, offset);
+
+  const lines: string[] = [];
+  if (total === 0) {
+    lines.push(t(configManager, 'audit.empty'));
+  } else {
+    lines.push(t(configManager, 'audit.title', {
+      from: String(offset + 1),
+      to: String(offset + entries.length),
+      total: String(total),
+    }));
+  }
+  if (toolName) lines.push(t(configManager, 'audit.filter', { tool: toolName }));
+  if (entries.length > 0) lines.push('', ...entries.map(formatEntry));
+
+  const rows: ReturnType<typeof Markup.button.callback>[][] = [];
+  const nav: ReturnType<typeof Markup.button.callback>[] = [];
+  const newer = offset > 0 ? callbackData(Math.max(0, offset - PAGE_SIZE), toolName) : null;
+  const older = offset + PAGE_SIZE < total ? callbackData(offset + PAGE_SIZE, toolName) : null;
+  if (newer) nav.push(Markup.button.callback(t(configManager, 'audit.newer_btn'), newer));
+  if (older) nav.push(Markup.button.callback(t(configManager, 'audit.older_btn'), older));
+  if (nav.length > 0) rows.push(nav);
+
+  // Filter shortcuts for the most used tools
+  const filters: ReturnType<typeof Markup.button.callback>[] = [];
+  for (const { tool_name } of toolCallRepo.topTools(6)) {
+    const data = callbackData(0, tool_name);
+    if (data && tool_name !== toolName) filters.push(Markup.button.callback(tool_name, data));
+  }
+  for (let i = 0; i < filters.length; i += 2) rows.push(filters.slice(i, i + 2));
+  if (toolName) rows.push([Markup.button.callback(t(configManager, 'audit.all_btn'), 'audit:0:')]);
+
+  return { text: lines.join('\n'), keyboard: Markup.inlineKeyboard(rows) };
+}
+
+export function registerAuditCommands(bot: Telegraf, ctx: BotContext): void {
+  // /audit [tool_name]
+  bot.command('audit', async (tCtx) => {
+    const toolName = tCtx.payload.trim();
+    const { text, keyboard } = auditPage(ctx, 0, toolName);
+    await tCtx.reply(text, keyboard);
+  });
+
+  bot.action(/^audit:(\d+):(.*)$/, async (tCtx) => {
+    await tCtx.answerCbQuery();
+    const { text, keyboard } = auditPage(ctx, parseInt(tCtx.match[1], 10), tCtx.match[2]);
+    try { await tCtx.editMessageText(text, keyboard); } catch { /* identical */ }
+  });
+}
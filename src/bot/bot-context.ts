@@ -1,8 +1,10 @@
 import type { Assistant } from '../core/assistant.js';
 import type { MessageRepository } from '../db/message-repository.js';
 import type { ConfigManager } from '../core/config-manager.js';
+import type { TaskRunResult } from '../core/types.js';
 import type { UsageRepository } from '../db/usage-repository.js';
 import type { TaskRepository } from '../db/repository.js';
+import type { ToolCallRepository } from '../db/tool-call-repository.js';
 import type { OnboardingHandler } from './onboarding/handler.js';
 
 export type Transcriber = (fileUrl: string) => Promise<string>;
@@ -12,6 +14,7 @@ export interface BotContext {
   messageRepo: MessageRepository;
   usageRepo: UsageRepository;
   taskRepo: TaskRepository;
+  toolCallRepo: ToolCallRepository;
   getAssistant: () => Assistant | null;
   getTranscriber: () => Transcriber | null;
   setTranscriber: (t: Transcriber) => void;
@@ -20,10 +23,17 @@ export interface BotContext {
   lastLanguage: Map<number, string>;
   awaitingThresholdInput: Map<number, 'cpu' | 'ram' | 'disk'>;
   awaitingLanguageInput: Set<number>;
-  captureChatId: (chatId: number) => void;
+  /** Group chat ID → user ID expected to send the keyword list. */
+  awaitingKeywordsInput: Map<number, number>;
   clearAssistant: () => void;
   /** Rebuild the assistant with current config (after provider/model switch). */
   rebuildAssistant: () => Promise<void>;
+  /** Reload one skill's tools after it was changed, removed or installed. */
+  reloadSkill: (name: string) => Promise<void>;
+  /** Summarize messages that left the chat's history window, in the background. */
+  summarizeHistory: (chatId: number, isGroup: boolean) => void;
+  /** Run an action task now ("Run now"), recording it in the task's run history. */
+  runTaskNow: (taskId: number) => Promise<TaskRunResult | undefined>;
   /** Re-translate UI strings for the current language and update Telegram commands. */
   refreshTranslations: () => Promise<void>;
 }
@@ -1,17 +1,20 @@
 import { Markup, type Telegraf } from 'telegraf';
 import { getResourceSnapshot, formatResourceReport } from '../monitor/resources.js';
-import { fmtNum } from '../db/usage-repository.js';
+import { fmtNum, type SourceDetail } from '../db/usage-repository.js';
+import type { UsageSource } from '../ai/request-context.js';
+import { getBudgetStatuses, formatBudgetStatus } from '../core/budget.js';
+import { generateUsageChart, toChartData } from '../charts/usage-chart.js';
 import type { BotContext } from './bot-context.js';
 import { getAppVersion } from './utils.js';
 import { settingsText, settingsKeyboard } from './settings.js';
 import { showTasksList } from './tasks.js';
+import { isGroupChat, groupSettingsText, groupSettingsKeyboard } from './group.js';
 import { t, type UIKey } from './i18n.js';
 
 export function registerCommands(bot: Telegraf, ctx: BotContext): void {
   const { configManager, usageRepo, onboarding, awaitingThresholdInput } = ctx;
 
   bot.command('start', async (tCtx) => {
-    ctx.captureChatId(tCtx.chat.id);
     if (onboarding.active) {
       await onboarding.sendWelcome(tCtx);
       return;
@@ -28,14 +31,12 @@ export function registerCommands(bot: Telegraf, ctx: BotContext): void {
   });
 
   bot.command('resources', async (tCtx) => {
-    ctx.captureChatId(tCtx.chat.id);
     await tCtx.sendChatAction('typing');
     const snapshot = await getResourceSnapshot();
     await tCtx.reply(formatResourceReport(snapshot));
   });
 
   bot.command('usage', async (tCtx) => {
-    ctx.captureChatId(tCtx.chat.id);
     const config = configManager.getConfig();
     if (!config.ai) {
       await tCtx.reply(t(configManager, 'cmd.usage_no_ai'));
@@ -61,12 +62,15 @@ export function registerCommands(bot: Telegraf, ctx: BotContext): void {
   });
 
   bot.command('settings', async (tCtx) => {
-    ctx.captureChatId(tCtx.chat.id);
-    await tCtx.reply(settingsText(configManager), settingsKeyboard(configManager));
+    const chatId = tCtx.chat.id;
+    if (isGroupChat(tCtx)) {
+      await tCtx.reply(groupSettingsText(configManager, chatId), groupSettingsKeyboard(configManager, chatId));
+      return;
+    }
+    await tCtx.reply(settingsText(configManager, chatId), settingsKeyboard(configManager, chatId));
   });
 
   bot.command('tasks', async (tCtx) => {
-    ctx.captureChatId(tCtx.chat.id);
     await showTasksList(tCtx, ctx);
   });
 
@@ -78,6 +82,9 @@ export function registerCommands(bot: Telegraf, ctx: BotContext): void {
     } else if (ctx.awaitingLanguageInput.has(chatId)) {
       ctx.awaitingLanguageInput.delete(chatId);
       await tCtx.reply(t(configManager, 'cmd.cancel_done'));
+    } else if (ctx.awaitingKeywordsInput.has(chatId)) {
+      ctx.awaitingKeywordsInput.delete(chatId);
+      await tCtx.reply(t(configManager, 'cmd.cancel_done'));
     } else {
       await tCtx.reply(t(configManager, 'cmd.cancel_nothing'));
     }
@@ -92,6 +99,18 @@ const PERIOD_KEYS: Record<string, UIKey> = {
   year: 'period.year',
 };
 
+const USAGE_SOURCES: UsageSource[] = [
+  'chat', 'scheduled_task', 'evolve_skill', 'ui_translation', 'working_message', 'summary', 'legacy',
+];
+
+function formatSourceStats(s: Omit<SourceDetail, 'source_id' | 'chat_id'> & { avg_steps?: number | null }): string {
+  const parts = [`${fmtNum(s.input_tokens + s.output_tokens)} tok`, `${s.requests} req`];
+  if (s.cost_usd > 0) parts.push(`~$${s.cost_usd.toFixed(4)}`);
+  if (s.avg_steps) parts.push(`${s.avg_steps.toFixed(1)} steps`);
+  if (s.avg_latency_ms) parts.push(`${(s.avg_latency_ms / 1000).toFixed(1)}s`);
+  return parts.join(' · ');
+}
+
 export function registerUsageCallbacks(bot: Telegraf, ctx: BotContext): void {
   const { configManager, usageRepo } = ctx;
 
@@ -108,6 +127,11 @@ export function registerUsageCallbacks(bot: Telegraf, ctx: BotContext): void {
         Markup.button.callback(t(configManager, 'period.month'), 'usage:month'),
         Markup.button.callback(t(configManager, 'period.year'), 'usage:year'),
       ],
+      [
+        Markup.button.callback(t(configManager, 'usage.chart_tokens_btn'), `usage:chart:${period}:tokens`),
+        Markup.button.callback(t(configManager, 'usage.chart_cost_btn'), `usage:chart:${period}:cost`),
+      ],
+      [Markup.button.callback(t(configManager, 'usage.by_source_btn'), `usage:src:${period}`)],
     ]);
 
     try {
@@ -131,8 +155,20 @@ export function registerUsageCallbacks(bot: Telegraf, ctx: BotContext): void {
       const lines: string[] = [header, ''];
       lines.push(`${t(configManager, 'cmd.usage_requests')}: ${summary.requests}`);
       lines.push(`${t(configManager, 'cmd.usage_input')}: ${fmtNum(summary.input_tokens)}`);
+      if (summary.cache_read_tokens > 0) {
+        lines.push(`  ${t(configManager, 'cmd.usage_cache_read')}: ${fmtNum(summary.cache_read_tokens)}`);
+      }
+      if (summary.cache_write_tokens > 0) {
+        lines.push(`  ${t(configManager, 'cmd.usage_cache_write')}: ${fmtNum(summary.cache_write_tokens)}`);
+      }
       lines.push(`${t(configManager, 'cmd.usage_output')}: ${fmtNum(summary.output_tokens)}`);
+      if (summary.reasoning_tokens > 0) {
+        lines.push(`  ${t(configManager, 'cmd.usage_reasoning')}: ${fmtNum(summary.reasoning_tokens)}`);
+      }
       lines.push(`${t(configManager, 'cmd.usage_total')}: ${fmtNum(summary.total_tokens)}`);
+      if (summary.cost_usd > 0) {
+        lines.push(`${t(configManager, 'cmd.usage_cost')}: ~$${summary.cost_usd.toFixed(4)}`);
+      }
 
       const breakdown = usageRepo.getModelBreakdown(from, to);
       if (breakdown.length > 0) {
@@ -142,6 +178,12 @@ export function registerUsageCallbacks(bot: Telegraf, ctx: BotContext): void {
         }
       }
 
+      const budgets = getBudgetStatuses(configManager, usageRepo);
+      if (budgets.length > 0) {
+        lines.push('', `${t(configManager, 'cmd.usage_budgets')}:`);
+        for (const b of budgets) lines.push(`  ${formatBudgetStatus(b)}`);
+      }
+
       try {
         await tCtx.editMessageText(lines.join('\n'), keyboard);
       } catch { /* message might be identical */ }
@@ -153,4 +195,66 @@ export function registerUsageCallbacks(bot: Telegraf, ctx: BotContext): void {
       } catch { /* ignore */ }
     }
   });
+
+  // Drill-down: usage by source, then the heaviest tasks/chats/skills within one source
+  bot.action(/^usage:src:(today|week|month|year)(?::(\w+))?$/, async (tCtx) => {
+    await tCtx.answerCbQuery();
+    const period = tCtx.match[1] as 'today' | 'week' | 'month' | 'year';
+    const source = USAGE_SOURCES.find((s) => s === tCtx.match[2]);
+
+    const { UsageRepository } = await import('../db/usage-repository.js');
+    const { from, to } = UsageRepository.getDateRange(period);
+    const periodLabel = t(configManager, PERIOD_KEYS[period]);
+    const lines: string[] = [];
+    const rows: ReturnType<typeof Markup.button.callback>[][] = [];
+
+    if (!source) {
+      const breakdown = usageRepo.getSourceBreakdown(from, to);
+      lines.push(t(configManager, 'usage.sources_header', { period: periodLabel }), '');
+      if (breakdown.length === 0) lines.push(t(configManager, 'cmd.usage_no_data'));
+      for (const b of breakdown) {
+        const label = t(configManager, `usage.source_${b.source}` as UIKey);
+        lines.push(`${label}: ${formatSourceStats(b)}`);
+        if (b.source !== 'legacy') rows.push([Markup.button.callback(label, `usage:src:${period}:${b.source}`)]);
+      }
+      rows.push([Markup.button.callback(t(configManager, 'usage.back_btn'), `usage:${period}`)]);
+    } else {
+      const label = t(configManager, `usage.source_${source}` as UIKey);
+      lines.push(t(configManager, 'usage.source_header', { source: label, period: periodLabel }), '');
+      const details = usageRepo.getSourceDetails(source, from, to);
+      if (details.length === 0) lines.push(t(configManager, 'cmd.usage_no_data'));
+      for (const d of details) {
+        const name = source === 'scheduled_task' && d.source_id ? `#${d.source_id}`
+          : d.source_id ?? (d.chat_id ? String(d.chat_id) : '—');
+        lines.push(`${name}: ${formatSourceStats(d)}`);
+      }
+      rows.push([Markup.button.callback(t(configManager, 'usage.back_btn'), `usage:src:${period}`)]);
+    }
+
+    try {
+      await tCtx.editMessageText(lines.join('\n'), Markup.inlineKeyboard(rows));
+    } catch { /* message might be identical */ }
+  });
+
+  bot.action(/^usage:chart:(today|week|month|year):(tokens|cost)$/, async (tCtx) => {
+    await tCtx.answerCbQuery();
+    const period = tCtx.match[1] as 'today' | 'week' | 'month' | 'year';
+    const mode = tCtx.match[2] as 'tokens' | 'cost';
+
+    try {
+      const { UsageRepository } = await import('../db/usage-repository.js');
+      const { from, to } = UsageRepository.getDateRange(period);
+      const periodLabel = t(configManager, PERIOD_KEYS[period]);
+      const png = await generateUsageChart(toChartData(usageRepo.getDailyTotals(from, to)), {
+        period,
+        mode,
+        title: `Usage — ${periodLabel}`,
+      });
+      await tCtx.replyWithPhoto({ source: png });
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      console.error('Usage chart failed:', errMsg);
+      await tCtx.reply(t(configManager, 'cmd.usage_failed', { error: errMsg })).catch(() => {});
+    }
+  });
 }
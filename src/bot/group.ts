@@ -0,0 +1,137 @@
+import { Markup, type Context, type Telegraf } from 'telegraf';
+import type { ConfigManager } from '../core/config-manager.js';
+import type { MessageSender } from '../db/message-repository.js';
+import type { BotContext } from './bot-context.js';
+import { languageDisplayName } from './utils.js';
+import { t } from './i18n.js';
+
+export function isGroupChat(tCtx: Context): boolean {
+  const type = tCtx.chat?.type;
+  return type === 'group' || type === 'supergroup';
+}
+
+/** The person who sent the current update (for history attribution). */
+export function messageSender(tCtx: Context): MessageSender | undefined {
+  const from = tCtx.from;
+  if (!from) return undefined;
+  const name = [from.first_name, from.last_name].filter(Boolean).join(' ') || from.username || String(from.id);
+  return { id: from.id, name };
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Decide whether a group message is addressed to the bot.
+ * Returns the text with the @mention stripped when triggered.
+ */
+export function groupTrigger(
+  tCtx: Context,
+  configManager: ConfigManager,
+  text: string,
+): { triggered: boolean; text: string } {
+  const chatId = tCtx.chat!.id;
+  const policy = configManager.getGroupPolicy(chatId);
+  const username = tCtx.botInfo?.username;
+  const msg = tCtx.message as { reply_to_message?: { from?: { id: number } } } | undefined;
+
+  if (policy.mention && username) {
+    const mention = new RegExp(`@${escapeRegExp(username)}\\b`, 'i');
+    if (mention.test(text)) {
+      return { triggered: true, text: text.replace(mention, '').trim() };
+    }
+  }
+
+  if (policy.reply && msg?.reply_to_message?.from?.id === tCtx.botInfo?.id) {
+    return { triggered: true, text };
+  }
+
+  for (const keyword of policy.keywords) {
+    if (new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(keyword)}($|[^\\p{L}\\p{N}])`, 'iu').test(text)) {
+      return { triggered: true, text };
+    }
+  }
+
+  return { triggered: false, text };
+}
+
+/** Owner or a Telegram admin of the group may change group settings. */
+export async function canManageGroup(tCtx: Context, configManager: ConfigManager): Promise<boolean> {
+  const userId = tCtx.from?.id;
+  if (!userId) return false;
+  if (userId === configManager.getChatId()) return true;
+  try {
+    const member = await tCtx.telegram.getChatMember(tCtx.chat!.id, userId);
+    return member.status === 'creator' || member.status === 'administrator';
+  } catch {
+    return false;
+  }
+}
+
+// --- Group settings (shown by /settings inside a group) ---
+
+export function groupSettingsText(configManager: ConfigManager, chatId: number): string {
+  const policy = configManager.getGroupPolicy(chatId);
+  const onOff = (v: boolean) => v ? t(configManager, 'settings.on') : t(configManager, 'settings.off');
+  const rawLang = configManager.getChatLanguage(chatId);
+  const lang = rawLang === 'auto' ? t(configManager, 'settings.lang_auto') : languageDisplayName(rawLang);
+  const keywords = policy.keywords.length > 0 ? policy.keywords.join(', ') : '—';
+  return t(configManager, 'group.title') + '\n\n'
+    + `${t(configManager, 'group.mention_label')}: ${onOff(policy.mention)}\n`
+    + `${t(configManager, 'group.reply_label')}: ${onOff(policy.reply)}\n`
+    + `${t(configManager, 'group.keywords_label')}: ${keywords}\n`
+    + `${t(configManager, 'settings.language_label')}: ${lang}\n`
+    + `${t(configManager, 'settings.history_label')}: ${configManager.getHistoryWindow(chatId, true)}`;
+}
+
+export function groupSettingsKeyboard(configManager: ConfigManager, chatId: number) {
+  const policy = configManager.getGroupPolicy(chatId);
+  const onOff = (v: boolean) => v ? t(configManager, 'settings.on') : t(configManager, 'settings.off');
+  return Markup.inlineKeyboard([
+    [Markup.button.callback(t(configManager, 'group.mention_btn', { status: onOff(policy.mention) }), 'group:toggle:mention')],
+    [Markup.button.callback(t(configManager, 'group.reply_btn', { status: onOff(policy.reply) }), 'group:toggle:reply')],
+    [Markup.button.callback(t(configManager, 'group.keywords_btn'), 'group:keywords')],
+    [Markup.button.callback(t(configManager, 'settings.lang_btn'), 'settings:lang')],
+    [Markup.button.callback(
+      t(configManager, 'settings.history_btn', { count: String(configManager.getHistoryWindow(chatId, true)) }),
+      'settings:history',
+    )],
+  ]);
+}
+
+export function registerGroupCallbacks(bot: Telegraf, ctx: BotContext): void {
+  const { configManager } = ctx;
+
+  bot.action(/^group:toggle:(mention|reply)$/, async (tCtx) => {
+    await tCtx.answerCbQuery();
+    const chatId = tCtx.chat!.id;
+    const key = tCtx.match[1] as 'mention' | 'reply';
+    const policy = configManager.getGroupPolicy(chatId);
+    configManager.updateGroupPolicy(chatId, { [key]: !policy[key] });
+    await tCtx.editMessageText(groupSettingsText(configManager, chatId), groupSettingsKeyboard(configManager, chatId));
+  });
+
+  bot.action('group:keywords', async (tCtx) => {
+    await tCtx.answerCbQuery();
+    const chatId = tCtx.chat!.id;
+    ctx.awaitingKeywordsInput.set(chatId, tCtx.from!.id);
+    // Force-reply so the answer reaches the bot even with privacy mode on
+    await tCtx.reply(t(configManager, 'group.keywords_prompt'), Markup.forceReply());
+  });
+}
+
+/** Handle the keyword list typed after pressing "Keywords". */
+export async function handleKeywordsInput(tCtx: Context, text: string, ctx: BotContext): Promise<void> {
+  const chatId = tCtx.chat!.id;
+  ctx.awaitingKeywordsInput.delete(chatId);
+
+  const keywords = text.trim() === '-'
+    ? []
+    : text.split(',').map((k) => k.trim()).filter((k) => k.length > 0);
+  ctx.configManager.updateGroupPolicy(chatId, { keywords });
+  await tCtx.reply(
+    groupSettingsText(ctx.configManager, chatId),
+    groupSettingsKeyboard(ctx.configManager, chatId),
+  );
+}
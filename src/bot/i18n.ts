@@ -1,4 +1,5 @@
 import { generateText, type LanguageModel } from 'ai';
+import { toAgentUsage, type UsageReport } from '../ai/agent.js';
 import type { ConfigManager } from '../core/config-manager.js';
 
 /**
@@ -17,6 +18,8 @@ export const UI_STRINGS = {
   'settings.model_btn': '🧠 Model',
   'settings.lang_btn': '🌐 Language',
   'settings.resources_btn': '📈 Resources',
+  'settings.history_label': 'Recent messages in context',
+  'settings.history_btn': '🧵 Context: {count} messages',
   'settings.reset_btn': '🗑 Reset all data',
   'settings.back': '« Back',
 
@@ -62,7 +65,7 @@ export const UI_STRINGS = {
   'cmd.start': "Hi! I'm Zaruka, your personal AI assistant.\n\nJust send me a message and I'll help you with tasks, weather, and more.\n\nCommands:\n/settings — Configure model, language, thresholds\n/tasks — View and manage tasks\n/usage — API token usage\n/resources — System resource usage\n/help — Show this help",
 
   // /help
-  'cmd.help': '🤖 Zaruka — Commands\n\n/settings — Configure model, language, alert thresholds\n/tasks — View and manage tasks\n/usage — API token usage\n/resources — Show current CPU, RAM, disk usage\n/version — Show app version\n/help — Show this help\n\nOr just send me any message!',
+  'cmd.help': '🤖 Zaruka — Commands\n\n/settings — Configure model, language, alert thresholds\n/tasks — View and manage tasks\n/usage — API token usage\n/resources — Show current CPU, RAM, disk usage\n/search — Search chat history\n/version — Show app version\n/users — Manage who can use the bot (owner)\n/invite — Create an invite code (owner)\n/audit — Tool call log (owner)\n/secrets — Stored credentials (owner)\n/skills — Installed skills (owner)\n/help — Show this help\n\nOr just send me any message!',
 
   // /usage
   'cmd.usage_title': '📊 Usage Statistics — Select a time period:',
@@ -72,10 +75,28 @@ export const UI_STRINGS = {
   'cmd.usage_no_data': 'No usage data for this period.',
   'cmd.usage_requests': 'Requests',
   'cmd.usage_input': 'Input',
+  'cmd.usage_cache_read': 'cached read',
+  'cmd.usage_cache_write': 'cache write',
   'cmd.usage_output': 'Output',
+  'cmd.usage_reasoning': 'reasoning',
   'cmd.usage_total': 'Total',
   'cmd.usage_per_model': 'Per model',
+  'cmd.usage_cost': 'Cost',
+  'cmd.usage_budgets': 'Budgets',
   'cmd.usage_failed': 'Failed to load usage data: {error}',
+  'usage.chart_tokens_btn': '📈 Tokens chart',
+  'usage.chart_cost_btn': '💵 Cost chart',
+  'usage.by_source_btn': '🔎 By source',
+  'usage.back_btn': '◀ Back',
+  'usage.sources_header': '🔎 Usage by source — {period}',
+  'usage.source_header': '🔎 {source} — {period}',
+  'usage.source_chat': '💬 Chat messages',
+  'usage.source_scheduled_task': '⏰ Scheduled tasks',
+  'usage.source_evolve_skill': '🧬 Skill creation',
+  'usage.source_ui_translation': '🌐 UI translation',
+  'usage.source_working_message': '⏳ Status messages',
+  'usage.source_summary': '🧾 Conversation summaries',
+  'usage.source_legacy': '📦 Before per-request tracking',
 
   // Period labels (used for buttons and headers)
   'period.today': 'Today',
@@ -117,6 +138,133 @@ export const UI_STRINGS = {
   'tasks.paused_msg': '⏸ Task paused.',
   'tasks.resumed_msg': '▶️ Task resumed.',
   'tasks.not_found': 'Task not found.',
+  'tasks.run_btn': '▶️ Run now',
+  'tasks.running': '⏳ Running…',
+  'tasks.already_running': 'This task is already running.',
+  'tasks.run_failed': '⚠️ [{title}] failed\n\n{error}',
+
+  // Reminder buttons
+  'remind.done_btn': '✅ Done',
+  'remind.skip_btn': '⏭ Skip',
+  'remind.snooze_10m_btn': '💤 10 min',
+  'remind.snooze_1h_btn': '💤 1 hour',
+  'remind.snooze_tomorrow_btn': '💤 Tomorrow',
+  'remind.done': '✅ Done',
+  'remind.skipped': '⏭ Skipped',
+  'remind.snoozed': '💤 Snoozed until {time}',
+  'remind.not_found': 'This task no longer exists.',
+
+  // Access control
+  'access.role_owner': '👑 Owner',
+  'access.role_member': '👤 Member',
+  'access.role_readonly': '👁 Read-only',
+  'access.paired': '✓ Paired! You are now the owner of this assistant.',
+  'access.joined': '✓ Access granted: {role}. Send /help to see what you can do.',
+  'access.unknown_chat': '🔒 This is a private assistant. Ask the owner for an invite code, then send /start <code>.',
+  'access.not_permitted': '🔒 Your access level does not allow this.',
+  'access.setup_in_progress': '⏳ The assistant is being set up by its owner. Please try again later.',
+  'access.owner_unknown': '🚪 Unknown chat tried to reach the bot: {name} (ID {id})',
+  'access.owner_joined': '✓ {name} joined as {role}.',
+  'access.allow_member_btn': '✅ Allow as member',
+  'access.allow_readonly_btn': '👁 Allow read-only',
+  'access.users_title': '👥 Who can use this bot',
+  'access.invite_btn': '➕ Invite',
+  'access.invite_choose_role': 'Which access level should the invite grant?',
+  'access.invite_created': '🎟 Invite code for {role}:\n\n{code}\n\nAsk them to send this to {bot}:\n/start {code}\n\nThe code works once and expires in 24 hours.',
+  'access.make_owner_btn': '👑 Transfer ownership',
+  'access.remove_btn': '🗑 Remove access',
+  'access.role_changed': '✓ Access level: {role}',
+  'access.removed': '🗑 Access removed.',
+  'access.now_owner': '👑 You are now the owner of this assistant.',
+
+  // Group chats
+  'group.title': '👥 Group settings\n\nI only answer when addressed.',
+  'group.mention_label': 'Respond to @mentions',
+  'group.reply_label': 'Respond to replies',
+  'group.keywords_label': 'Keywords',
+  'group.mention_btn': '📣 @mentions: {status}',
+  'group.reply_btn': '↩️ Replies: {status}',
+  'group.keywords_btn': '🔑 Keywords',
+  'group.keywords_prompt': 'Reply with trigger words separated by commas (e.g. zaruka, bot). Send "-" to clear.\n\nSend /cancel to cancel.\n\nNote: keyword triggers need the bot\'s privacy mode disabled in @BotFather.',
+
+  // Tool approval
+  'approval.title': '⚠️ Confirm action',
+  'approval.tool': 'Tool: {tool} ({class})',
+  'approval.from_chat': 'Requested in: {chat}',
+  'approval.class_read': 'read-only',
+  'approval.class_mutating': 'mutating',
+  'approval.class_destructive': 'destructive',
+  'approval.approve_btn': '✅ Approve',
+  'approval.deny_btn': '❌ Deny',
+  'approval.always_btn': '♾ Always allow',
+  'approval.approved': '✅ Approved',
+  'approval.denied': '❌ Denied',
+  'approval.always': '♾ Approved — {tool} will no longer ask',
+  'approval.expired': 'This request is no longer waiting.',
+  'approval.level_label': 'Confirm actions',
+  'approval.level_btn': '🛡 Confirm: {level}',
+  'approval.level_off': 'Never',
+  'approval.level_destructive': 'Destructive',
+  'approval.level_mutating': 'Any change',
+
+  // /audit
+  'audit.title': '🧾 Tool calls {from}–{to} of {total}',
+  'audit.filter': 'Tool: {tool}',
+  'audit.empty': 'No tool calls recorded yet.',
+  'audit.newer_btn': '« Newer',
+  'audit.older_btn': 'Older »',
+  'audit.all_btn': 'All tools',
+
+  // /search
+  'search.usage': 'Search this chat\'s history:\n/search <words> [role:user|assistant] [from:YYYY-MM-DD] [to:YYYY-MM-DD]\n\nExample: /search invoice from:2025-01-01',
+  'search.title': '🔎 Results {from}–{to} for "{query}"',
+  'search.filters': 'Filters: {filters}',
+  'search.empty': 'Nothing found for "{query}".',
+  'search.expired': 'Search expired. Run /search again.',
+  'search.newer_btn': '« Better matches',
+  'search.older_btn': 'More »',
+
+  // /secrets
+  'secrets.title': '🔐 Stored credentials',
+  'secrets.empty': 'The vault is empty.',
+  'secrets.hint': 'Values are never shown. Send a new key in chat to rotate it.',
+  'secrets.access_system': 'Zaruka only',
+  'secrets.access_referenced': 'skills that use it',
+  'secrets.access_tools': 'tool calls only (pasted in chat)',
+  'secrets.confirm_delete': 'Delete {name} from the vault? Skills that use it will stop working.',
+  'secrets.delete_btn': '🗑 Delete',
+  'secrets.cancel_btn': 'Cancel',
+  'secrets.deleted': '{name} deleted',
+
+  // /skills
+  'skills.title': '🧩 Skills',
+  'skills.empty': 'No skills yet. Ask me for something I can\'t do and I\'ll create one.',
+  'skills.hint': 'Tap a skill to enable, disable, revert or export it. Send me a .zskill file to install one.',
+  'skills.enabled': 'enabled',
+  'skills.disabled': 'disabled',
+  'skills.credentials': '🔑 Credentials: {list}',
+  'skills.hosts': '🌐 Hosts: {list}',
+  'skills.updated': '🕓 Updated: {date}',
+  'skills.versions': '📚 Other versions: {list}',
+  'skills.disable_btn': '⏸ Disable',
+  'skills.enable_btn': '▶️ Enable',
+  'skills.revert_btn': '⏪ Revert to v{version}',
+  'skills.back_btn': '« Back',
+  'skills.toggled_on': '{name} enabled',
+  'skills.toggled_off': '{name} disabled',
+  'skills.reverted': '{name} reverted to v{version}',
+  'skills.not_found': 'Skill not found',
+  'skills.export_btn': '📦 Export',
+  'skills.import_title': '📦 Install skill from {file}?',
+  'skills.import_invalid': '⚠️ Could not import {file}: {error}',
+  'skills.install_btn': '✅ Install',
+  'skills.cancel_btn': 'Cancel',
+  'skills.installed': '✅ {name} v{version} installed.',
+  'skills.install_failed': '⚠️ Could not install {name}: {error}',
+  'skills.installed_credentials': 'It needs these credentials — send them to me: {list}',
+  'skills.import_cancelled': 'Import cancelled.',
+  'skills.import_expired': 'This import has expired. Send the file again.',
+  'skills.load_failed': '⚠️ Skill {name} failed to load after a change: {error}',
 
   // Telegram command descriptions (shown in the bot menu)
   'cmd_desc.start': 'Start the bot',
@@ -124,6 +272,12 @@ export const UI_STRINGS = {
   'cmd_desc.tasks': 'View and manage tasks',
   'cmd_desc.usage': 'API token usage',
   'cmd_desc.resources': 'System resource usage',
+  'cmd_desc.users': 'Manage who can use the bot',
+  'cmd_desc.invite': 'Create an invite code',
+  'cmd_desc.audit': 'Tool call log',
+  'cmd_desc.search': 'Search chat history',
+  'cmd_desc.secrets': 'Stored credentials',
+  'cmd_desc.skills': 'Installed skills',
   'cmd_desc.version': 'Show app version',
   'cmd_desc.help': 'Show help',
 } as const;
@@ -154,8 +308,10 @@ export function translationCacheComplete(cm: ConfigManager): boolean {
 export async function translateUI(
   model: LanguageModel,
   language: string,
+  onUsage?: (report: UsageReport) => void,
 ): Promise<Record<string, string>> {
-  const { text } = await generateText({
+  const startedAt = Date.now();
+  const { text, totalUsage, response } = await generateText({
     model,
     prompt: [
       `Translate the following UI strings from English to ${language}.`,
@@ -175,6 +331,12 @@ export async function translateUI(
     ].join('\n'),
     maxOutputTokens: 4096,
   });
+  onUsage?.({
+    model: response.modelId,
+    ...toAgentUsage(totalUsage),
+    steps: 1,
+    latencyMs: Date.now() - startedAt,
+  });
 
   // Strip markdown fences if present
   const cleaned = text.replace(/^```(?:json)?\s*/m, '').replace(/\s*```\s*$/m, '');
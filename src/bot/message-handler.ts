@@ -1,12 +1,15 @@
 import type { Telegraf } from 'telegraf';
 import type { ChatMessage, Attachment } from '../core/assistant.js';
-import type { AttachmentMeta } from '../db/message-repository.js';
+import type { AttachmentMeta, MessageSender } from '../db/message-repository.js';
 import type { BotContext } from './bot-context.js';
 import { Markup } from 'telegraf';
 import { buildRateLimitMessage, PROVIDER_LABELS } from './providers.js';
 import type { AiProvider } from '../core/types.js';
 import { closeUnclosedCodeFences, detectLanguage, splitMessage } from './utils.js';
 import { t } from './i18n.js';
+import { BudgetExceededError } from '../core/budget.js';
+import { isGroupChat, messageSender, groupTrigger, handleKeywordsInput } from './group.js';
+import { stashPastedSecrets } from '../vault/redaction.js';
 
 /** Max file size for Telegram bot API downloads (20 MB). */
 const MAX_FILE_SIZE = 20 * 1024 * 1024;
@@ -87,6 +90,13 @@ function isDuplicate(chatId: number, messageId: number): boolean {
   return false;
 }
 
+/** In groups, media is only handled when addressed to the bot (caption mention, keyword or reply). */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function isAddressedMedia(tCtx: any, ctx: BotContext): boolean {
+  if (!isGroupChat(tCtx)) return true;
+  return groupTrigger(tCtx, ctx.configManager, tCtx.message.caption ?? '').triggered;
+}
+
 export function registerHandlers(bot: Telegraf, ctx: BotContext): void {
   // "Show more options" button callback — asks assistant to search for more services
   bot.action('more_options', async (tCtx) => {
@@ -105,7 +115,7 @@ export function registerHandlers(bot: Telegraf, ctx: BotContext): void {
 
   bot.on('photo', (tCtx) => {
     if (isDuplicate(tCtx.chat.id, tCtx.message.message_id)) return;
-    ctx.captureChatId(tCtx.chat.id);
+    if (!isAddressedMedia(tCtx, ctx)) return;
     if (!ctx.getAssistant()) {
       tCtx.reply(t(ctx.configManager, 'error.no_ai')).catch(() => {});
       return;
@@ -115,7 +125,7 @@ export function registerHandlers(bot: Telegraf, ctx: BotContext): void {
 
   bot.on('document', (tCtx) => {
     if (isDuplicate(tCtx.chat.id, tCtx.message.message_id)) return;
-    ctx.captureChatId(tCtx.chat.id);
+    if (!isAddressedMedia(tCtx, ctx)) return;
     if (!ctx.getAssistant()) {
       tCtx.reply(t(ctx.configManager, 'error.no_ai')).catch(() => {});
       return;
@@ -125,7 +135,7 @@ export function registerHandlers(bot: Telegraf, ctx: BotContext): void {
 
   bot.on('voice', (tCtx) => {
     if (isDuplicate(tCtx.chat.id, tCtx.message.message_id)) return;
-    ctx.captureChatId(tCtx.chat.id);
+    if (!isAddressedMedia(tCtx, ctx)) return;
     if (!ctx.getAssistant()) {
       tCtx.reply(t(ctx.configManager, 'error.no_ai')).catch(() => {});
       return;
@@ -136,8 +146,22 @@ export function registerHandlers(bot: Telegraf, ctx: BotContext): void {
   bot.on('text', (tCtx) => {
     const chatId = tCtx.chat.id;
     if (isDuplicate(chatId, tCtx.message.message_id)) return;
-    ctx.captureChatId(chatId);
-    const text = tCtx.message.text;
+    let text = tCtx.message.text;
+
+    if (ctx.awaitingKeywordsInput.get(chatId) === tCtx.from.id) {
+      handleKeywordsInput(tCtx, text, ctx).catch((err) => console.error('Keywords input error:', err));
+      return;
+    }
+
+    if (isGroupChat(tCtx)) {
+      const trigger = groupTrigger(tCtx, ctx.configManager, text);
+      if (!trigger.triggered) {
+        // Not addressed to us — keep it as context for when we are
+        ctx.messageRepo.save(chatId, 'user', stashPastedSecrets(text), undefined, messageSender(tCtx));
+        return;
+      }
+      text = trigger.text;
+    }
 
     if (ctx.onboarding.active) {
       ctx.onboarding.handleText(tCtx, text).catch((err) => console.error('Onboarding text error:', err));
@@ -303,8 +327,7 @@ async function handleLanguageInput(tCtx: any, text: string, ctx: BotContext): Pr
 
   const lang = text.trim();
   ctx.awaitingLanguageInput.delete(chatId);
-  ctx.configManager.updateLanguage(lang);
-  await ctx.refreshTranslations();
+  if (ctx.configManager.updateChatLanguage(chatId, lang)) await ctx.refreshTranslations();
   await tCtx.reply(t(ctx.configManager, 'settings.lang_changed', { lang }));
 }
 
@@ -380,6 +403,9 @@ function ensureWorkingPool(lang: string, ctx: BotContext): void {
     + `Generate 20 short (2-5 words each) status messages in ${lang} meaning "I'm busy working on your request, please wait". `
     + `The tone: playful, warm, varied (e.g. short phrases like "working on it…", "one moment…", "almost there…" but in ${lang}). `
     + `Each starts with one emoji. All different. One per line, no numbering, no quotes — ONLY the messages.`,
+    undefined,
+    undefined,
+    { source: 'working_message', sourceId: lang },
   ).then((result) => {
     const lines = result.text.split('\n').map((l) => l.trim()).filter((l) => l.length > 1 && l.length < 60);
     if (lines.length >= 5) {
@@ -408,15 +434,20 @@ class TelegramStreamWriter {
   private typingTimer: ReturnType<typeof setInterval> | null = null;
   private lastEditText = '';
   private finalizedMessages: number[] = [];
+  private replyTo?: number;
 
-  constructor(tCtx: any) {
+  constructor(tCtx: any, replyTo?: number) {
     this.tCtx = tCtx;
     this.chatId = tCtx.chat.id;
+    this.replyTo = replyTo;
   }
 
   /** Send the initial "working" message and start timers. */
   async start(initialText: string): Promise<void> {
-    const sent = await this.tCtx.reply(initialText);
+    const sent = await this.tCtx.reply(
+      initialText,
+      this.replyTo ? { reply_parameters: { message_id: this.replyTo } } : undefined,
+    );
     this.messageId = sent.message_id;
 
     this.typingTimer = setInterval(() => {
@@ -577,34 +608,41 @@ interface ProcessOpts {
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 async function processAndReply(tCtx: any, userMessage: string, ctx: BotContext, msgLang?: string, opts?: ProcessOpts): Promise<void> {
   const chatId: number = tCtx.chat.id;
+  const isGroup = isGroupChat(tCtx);
+  const sender: MessageSender | undefined = messageSender(tCtx);
+  // Pasted keys go to the vault; logs, history and the model only see [secret:NAME]
+  userMessage = stashPastedSecrets(userMessage);
   console.log(`[chat:${chatId}] User: ${userMessage.slice(0, 100)}${userMessage.length > 100 ? '...' : ''}`);
 
   // Save user message immediately (with optional attachment metadata)
   if (!opts?.skipUserSave) {
-    ctx.messageRepo.save(chatId, 'user', userMessage, opts?.attachmentMeta);
+    ctx.messageRepo.save(chatId, 'user', userMessage, opts?.attachmentMeta, sender);
   }
 
   const lang = msgLang || 'English';
   ensureWorkingPool(lang, ctx);
 
   // Build history; if another task is already running, hint AI not to repeat it
-  const recentMessages = ctx.messageRepo.getRecent(chatId, 4);
+  const recentMessages = ctx.messageRepo.getRecent(chatId, ctx.configManager.getHistoryWindow(chatId, isGroup));
   const history: ChatMessage[] = recentMessages.map((m) => ({
     role: m.role,
     text: m.text,
     fileType: m.file_type,
     mimeType: m.mime_type,
     fileName: m.file_name,
+    senderName: isGroup ? m.sender_name : undefined,
   }));
+  const attributed = isGroup && sender ? `[${sender.name}]: ${userMessage}` : userMessage;
   const busy = (activeTasks.get(chatId) ?? 0) > 0;
   const message = busy
     ? `[CONTEXT: A previous request is still being processed in the background. `
-      + `Do NOT repeat, redo, or continue that task. Answer this new message directly and briefly.]\n${userMessage}`
-    : userMessage;
+      + `Do NOT repeat, redo, or continue that task. Answer this new message directly and briefly.]\n${attributed}`
+    : attributed;
 
   activeTasks.set(chatId, (activeTasks.get(chatId) ?? 0) + 1);
 
-  const writer = new TelegramStreamWriter(tCtx);
+  // In groups, thread the answer under the message that addressed us
+  const writer = new TelegramStreamWriter(tCtx, isGroup ? tCtx.message?.message_id : undefined);
 
   try {
     await writer.start(pickWorkingMessage(lang));
@@ -614,6 +652,7 @@ async function processAndReply(tCtx: any, userMessage: string, ctx: BotContext,
       history,
       { onTextDelta: (d) => writer.onDelta(d) },
       opts?.attachments,
+      { chatId, isGroup },
     );
 
     const response = result.text;
@@ -628,6 +667,7 @@ async function processAndReply(tCtx: any, userMessage: string, ctx: BotContext,
       console.log(`[chat:${chatId}] Assistant: ${response.slice(0, 100)}${response.length > 100 ? '...' : ''}`);
       ctx.messageRepo.save(chatId, 'assistant', response);
       await writer.finish(response);
+      ctx.summarizeHistory(chatId, isGroup);
 
       // Handle automatic provider failover
       if (result.switchedTo) {
@@ -656,7 +696,9 @@ async function processAndReply(tCtx: any, userMessage: string, ctx: BotContext,
     const isRateLimit = /rate.?limit|quota|limit exceeded|429|RESOURCE_EXHAUSTED/i.test(fullErrorText);
     const isServerError = /\b50[0-4]\b|overloaded|internal.server.error/i.test(fullErrorText);
 
-    if (isRateLimit) {
+    if (err instanceof BudgetExceededError) {
+      await writer.abort(`💸 ${err.message}`);
+    } else if (isRateLimit) {
       const config = ctx.configManager.getConfig();
       await writer.abort(buildRateLimitMessage(config.ai?.provider, !!config.ai?.authToken, errorMsg));
     } else if (isServerError) {
@@ -0,0 +1,84 @@
+import { Markup, type Telegraf } from 'telegraf';
+import type { Task } from '../core/types.js';
+import type { ConfigManager } from '../core/config-manager.js';
+import type { ReminderSender } from '../scheduler/cron.js';
+import { fakeUtcToLocal, toWallClock, wallClockToInstant } from '../scheduler/timezone.js';
+import type { BotContext } from './bot-context.js';
+import { t } from './i18n.js';
+
+type SnoozePeriod = '10m' | '1h' | 'tomorrow';
+
+/** Done / Snooze / Skip under a reminder. An advance notice can only be settled early. */
+export function reminderKeyboard(task: Task, kind: 'due' | 'notice', cm: ConfigManager) {
+  const done = Markup.button.callback(t(cm, 'remind.done_btn'), `remind:done:${task.id}`);
+  const skip = Markup.button.callback(t(cm, 'remind.skip_btn'), `remind:skip:${task.id}`);
+  if (kind === 'notice') return Markup.inlineKeyboard([[done, skip]]);
+  return Markup.inlineKeyboard([
+    [done, skip],
+    [
+      Markup.button.callback(t(cm, 'remind.snooze_10m_btn'), `remind:snooze:${task.id}:10m`),
+      Markup.button.callback(t(cm, 'remind.snooze_1h_btn'), `remind:snooze:${task.id}:1h`),
+      Markup.button.callback(t(cm, 'remind.snooze_tomorrow_btn'), `remind:snooze:${task.id}:tomorrow`),
+    ],
+  ]);
+}
+
+/** Send reminders to the owner's chat with the reminder buttons. */
+export function createReminderSender(bot: Telegraf, configManager: ConfigManager): ReminderSender {
+  return async (task, message, kind) => {
+    const chatId = configManager.getChatId();
+    if (!chatId) {
+      console.warn('Cannot send reminder: no owner paired yet.');
+      return;
+    }
+    await bot.telegram.sendMessage(chatId, message, reminderKeyboard(task, kind, configManager));
+  };
+}
+
+/** "Tomorrow" is the same wall-clock time a day later in the task's timezone, across DST changes. */
+function snoozeUntil(period: SnoozePeriod, timezone: string, now = new Date()): Date {
+  if (period === '10m') return new Date(now.getTime() + 10 * 60_000);
+  if (period === '1h') return new Date(now.getTime() + 60 * 60_000);
+  return wallClockToInstant(new Date(toWallClock(now, timezone).getTime() + 86_400_000), timezone);
+}
+
+export function registerReminderCallbacks(bot: Telegraf, ctx: BotContext): void {
+  const { configManager, taskRepo } = ctx;
+
+  /** Keep the reminder text, replace the buttons with the outcome. */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async function settle(tCtx: any, outcome: string): Promise<void> {
+    const original = (tCtx.callbackQuery.message as { text?: string } | undefined)?.text ?? '';
+    await tCtx.editMessageText(`${original}\n\n${outcome}`).catch(() => {});
+  }
+
+  bot.action(/^remind:(done|skip):(\d+)$/, async (tCtx) => {
+    const task = taskRepo.acknowledge(parseInt(tCtx.match[2], 10));
+    if (!task || task.status === 'deleted') {
+      await tCtx.answerCbQuery(t(configManager, 'remind.not_found'));
+      await tCtx.editMessageReplyMarkup(undefined).catch(() => {});
+      return;
+    }
+    await tCtx.answerCbQuery();
+    await settle(tCtx, t(configManager, tCtx.match[1] === 'done' ? 'remind.done' : 'remind.skipped'));
+  });
+
+  bot.action(/^remind:snooze:(\d+):(10m|1h|tomorrow)$/, async (tCtx) => {
+    const id = parseInt(tCtx.match[1], 10);
+    const existing = taskRepo.getById(id);
+    if (!existing || existing.status === 'deleted') {
+      await tCtx.answerCbQuery(t(configManager, 'remind.not_found'));
+      await tCtx.editMessageReplyMarkup(undefined).catch(() => {});
+      return;
+    }
+    const timezone = taskRepo.timezoneOf(existing);
+    const until = snoozeUntil(tCtx.match[2] as SnoozePeriod, timezone);
+    taskRepo.snooze(id, until);
+
+    const local = fakeUtcToLocal(toWallClock(until, timezone));
+    const today = fakeUtcToLocal(toWallClock(new Date(), timezone)).date;
+    const time = local.date === today ? local.time : `${local.date} ${local.time}`;
+    await tCtx.answerCbQuery();
+    await settle(tCtx, t(configManager, 'remind.snoozed', { time }));
+  });
+}
@@ -0,0 +1,79 @@
+import { Markup, type Telegraf } from 'telegraf';
+import type { MessageSearchFilter, MessageSearchResult } from '../db/message-repository.js';
+import type { BotContext } from './bot-context.js';
+import { t } from './i18n.js';
+
+const PAGE_SIZE = 5;
+
+/** Per-chat: the last /search, for the paging buttons (a query may not fit in callback data). */
+const lastSearch = new Map<number, { query: string; filter: MessageSearchFilter }>();
+
+/** Split /search arguments into the query and role:, from: and to: filters. */
+function parseSearch(payload: string): { query: string; filter: MessageSearchFilter } {
+  const filter: MessageSearchFilter = {};
+  const words: string[] = [];
+  for (const word of payload.split(/\s+/).filter(Boolean)) {
+    const [, key, value] = word.match(/^(role|from|to):(.+)$/i) ?? [];
+    if (key?.toLowerCase() === 'role' && (value === 'user' || value === 'assistant')) filter.role = value;
+    else if (key && key.toLowerCase() !== 'role' && /^\d{4}-\d{2}-\d{2}$/.test(value)) filter[key.toLowerCase() as 'from' | 'to'] = value;
+    else words.push(word);
+  }
+  return { query: words.join(' '), filter };
+}
+
+function formatResult(m: MessageSearchResult): string {
+  const who = m.role === 'assistant' ? '🤖' : `👤${m.sender_name ? ` ${m.sender_name}` : ''}`;
+  return `${who} · ${m.created_at.slice(0, 16)}\n${m.snippet.replace(/\s+/g, ' ')}`;
+}
+
+function searchPage(ctx: BotContext, chatId: number, offset: number) {
+  const { configManager, messageRepo } = ctx;
+  const { query, filter } = lastSearch.get(chatId)!;
+  // One extra row tells whether there is a next page
+  const results = messageRepo.search(chatId, query, { ...filter, limit: PAGE_SIZE + 1, offset });
+  const page = results.slice(0, PAGE_SIZE);
+
+  const lines = page.length === 0
+    ? [t(configManager, 'search.empty', { query })]
+    : [t(configManager, 'search.title', { from: String(offset + 1), to: String(offset + page.length), query })];
+  const filters = [
+    filter.role && `role:${filter.role}`,
+    filter.from && `from:${filter.from}`,
+    filter.to && `to:${filter.to}`,
+  ].filter(Boolean);
+  if (filters.length > 0) lines.push(t(configManager, 'search.filters', { filters: filters.join(' ') }));
+  if (page.length > 0) lines.push('', page.map(formatResult).join('\n\n'));
+
+  const nav: ReturnType<typeof Markup.button.callback>[] = [];
+  if (offset > 0) nav.push(Markup.button.callback(t(configManager, 'search.newer_btn'), `search:${Math.max(0, offset - PAGE_SIZE)}`));
+  if (results.length > PAGE_SIZE) nav.push(Markup.button.callback(t(configManager, 'search.older_btn'), `search:${offset + PAGE_SIZE}`));
+
+  return { text: lines.join('\n'), keyboard: Markup.inlineKeyboard(nav.length > 0 ? [nav] : []) };
+}
+
+export function registerSearchCommands(bot: Telegraf, ctx: BotContext): void {
+  const { configManager } = ctx;
+
+  // /search <words> [role:user|assistant] [from:YYYY-MM-DD] [to:YYYY-MM-DD]
+  bot.command('search', async (tCtx) => {
+    const search = parseSearch(tCtx.payload);
+    if (!search.query) {
+      await tCtx.reply(t(configManager, 'search.usage'));
+      return;
+    }
+    lastSearch.set(tCtx.chat.id, search);
+    const { text, keyboard } = searchPage(ctx, tCtx.chat.id, 0);
+    await tCtx.reply(text, keyboard);
+  });
+
+  bot.action(/^search:(\d+)$/, async (tCtx) => {
+    const chatId = tCtx.chat!.id;
+    if (!lastSearch.has(chatId)) {
+      await tCtx.answerCbQuery(t(configManager, 'search.expired'));
+      return;
+    }
+    await tCtx.answerCbQuery();
+    const { text, keyboard } = searchPage(ctx, chatId, parseInt(tCtx.match[1], 10));
+    try { await tCtx.editMessageText(text, keyboard); } catch { /* identical */ }
+  });
+}
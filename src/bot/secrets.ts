@@ -0,0 +1,68 @@
+import { Markup, type Telegraf } from 'telegraf';
+import type { ConfigManager } from '../core/config-manager.js';
+import { getVault, type SecretInfo } from '../vault/vault.js';
+import type { BotContext } from './bot-context.js';
+import { t } from './i18n.js';
+
+/** Telegram limits callback data to 64 bytes. */
+const MAX_NAME_LENGTH = 64 - 'secrets:del:'.length;
+
+function formatSecret(cm: ConfigManager, secret: SecretInfo): string {
+  const access = secret.system
+    ? t(cm, 'secrets.access_system')
+    : secret.skills?.length === 0
+      ? t(cm, 'secrets.access_tools')
+      : secret.skills
+        ? secret.skills.join(', ')
+        : t(cm, 'secrets.access_referenced');
+  return `🔑 ${secret.name}\n   ${access} · ${secret.updatedAt.slice(0, 10)}`;
+}
+
+/** Names, scopes and dates only — values are never sent to Telegram. */
+function secretsList(cm: ConfigManager) {
+  const secrets = getVault().list();
+  const lines = [t(cm, 'secrets.title'), ''];
+  if (secrets.length === 0) lines.push(t(cm, 'secrets.empty'));
+  else lines.push(...secrets.map((s) => formatSecret(cm, s)), '', t(cm, 'secrets.hint'));
+
+  const rows = secrets
+    .filter((s) => !s.system && s.name.length <= MAX_NAME_LENGTH)
+    .map((s) => [Markup.button.callback(`🗑 ${s.name}`, `secrets:del:${s.name}`)]);
+  return { text: lines.join('\n'), keyboard: Markup.inlineKeyboard(rows) };
+}
+
+export function registerSecretsCommands(bot: Telegraf, ctx: BotContext): void {
+  const { configManager } = ctx;
+
+  bot.command('secrets', async (tCtx) => {
+    const { text, keyboard } = secretsList(configManager);
+    await tCtx.reply(text, keyboard);
+  });
+
+  bot.action('secrets:list', async (tCtx) => {
+    await tCtx.answerCbQuery();
+    const { text, keyboard } = secretsList(configManager);
+    try { await tCtx.editMessageText(text, keyboard); } catch { /* identical */ }
+  });
+
+  // Ask before deleting
+  bot.action(/^secrets:del:([A-Z][A-Z0-9_]*)$/, async (tCtx) => {
+    await tCtx.answerCbQuery();
+    const name = tCtx.match[1];
+    await tCtx.editMessageText(t(configManager, 'secrets.confirm_delete', { name }), Markup.inlineKeyboard([
+      [
+        Markup.button.callback(t(configManager, 'secrets.delete_btn'), `secrets:rm:${name}`),
+        Markup.button.callback(t(configManager, 'secrets.cancel_btn'), 'secrets:list'),
+      ],
+    ])).catch(() => {});
+  });
+
+  bot.action(/^secrets:rm:([A-Z][A-Z0-9_]*)$/, async (tCtx) => {
+    const name = tCtx.match[1];
+    const secret = getVault().list().find((s) => s.name === name);
+    if (secret && !secret.system) getVault().delete(name);
+    await tCtx.answerCbQuery(t(configManager, 'secrets.deleted', { name }));
+    const { text, keyboard } = secretsList(configManager);
+    try { await tCtx.editMessageText(text, keyboard); } catch { /* identical */ }
+  });
+}
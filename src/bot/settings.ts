@@ -1,6 +1,6 @@
 import { Markup, type Telegraf } from 'telegraf';
 import type { ConfigManager } from '../core/config-manager.js';
-import type { AiProvider } from '../core/types.js';
+import type { AiProvider, ToolClass } from '../core/types.js';
 import type { BotContext } from './bot-context.js';
 import { fetchAvailableModels, clearModelsCache } from './models.js';
 import { settingsProviderKeyboard, PROVIDER_LABELS } from './providers.js';
@@ -8,27 +8,70 @@ import { showModelList } from './model-keyboard.js';
 import { languageKeyboardRows, languageDisplayName } from './utils.js';
 import { forceTokenRefresh } from '../auth/token-refresh.js';
 import { t } from './i18n.js';
+import { isGroupChat, groupSettingsText, groupSettingsKeyboard } from './group.js';
+
+/** Confirmation levels cycled by the "Confirm" button, least to most strict. */
+const APPROVAL_LEVELS: Array<{ key: 'off' | 'destructive' | 'mutating'; classes: ToolClass[] }> = [
+  { key: 'off', classes: [] },
+  { key: 'destructive', classes: ['destructive'] },
+  { key: 'mutating', classes: ['mutating', 'destructive'] },
+];
+
+function approvalLevelIndex(configManager: ConfigManager): number {
+  const classes = configManager.getToolApproval().classes;
+  if (classes.includes('mutating')) return 2;
+  return classes.includes('destructive') ? 1 : 0;
+}
+
+function approvalLevelLabel(configManager: ConfigManager): string {
+  return t(configManager, `approval.level_${APPROVAL_LEVELS[approvalLevelIndex(configManager)].key}`);
+}
+
+/** History window sizes cycled by the "Context" button. Older messages reach the model as a summary. */
+const HISTORY_WINDOWS = [4, 8, 12, 20, 40];
+
+function historyWindowButton(configManager: ConfigManager, chatId: number, isGroup: boolean) {
+  const count = configManager.getHistoryWindow(chatId, isGroup);
+  return Markup.button.callback(t(configManager, 'settings.history_btn', { count: String(count) }), 'settings:history');
+}
 
 /** Per-chat: which provider the user is currently browsing models for. */
 const browsingProvider = new Map<number, AiProvider>();
 
-export function settingsText(configManager: ConfigManager): string {
-  const model = configManager.getModel();
-  const rawLang = configManager.getLanguage();
+export function settingsText(configManager: ConfigManager, chatId: number): string {
+  const rawLang = configManager.getChatLanguage(chatId);
   const lang = rawLang === 'auto' ? t(configManager, 'settings.lang_auto') : languageDisplayName(rawLang);
+  const langLine = `${t(configManager, 'settings.language_label')}: ${lang}\n`
+    + `${t(configManager, 'settings.history_label')}: ${configManager.getHistoryWindow(chatId, false)}`;
+
+  // Members only control their own chat's preferences
+  if (configManager.getChatRole(chatId) !== 'owner') {
+    return t(configManager, 'settings.title') + '\n\n' + langLine;
+  }
+
+  const model = configManager.getModel();
   const alertsEnabled = configManager.isResourceMonitorEnabled();
   const onOff = alertsEnabled ? t(configManager, 'settings.on') : t(configManager, 'settings.off');
   return t(configManager, 'settings.title') + '\n\n'
     + `${t(configManager, 'settings.model_label')}: ${model}\n`
-    + `${t(configManager, 'settings.language_label')}: ${lang}\n`
-    + `${t(configManager, 'settings.alerts_label')}: ${onOff}`;
+    + `${langLine}\n`
+    + `${t(configManager, 'settings.alerts_label')}: ${onOff}\n`
+    + `${t(configManager, 'approval.level_label')}: ${approvalLevelLabel(configManager)}`;
 }
 
-export function settingsKeyboard(configManager: ConfigManager) {
+export function settingsKeyboard(configManager: ConfigManager, chatId: number) {
+  if (configManager.getChatRole(chatId) !== 'owner') {
+    return Markup.inlineKeyboard([
+      [Markup.button.callback(t(configManager, 'settings.lang_btn'), 'settings:lang')],
+      [historyWindowButton(configManager, chatId, false)],
+    ]);
+  }
   return Markup.inlineKeyboard([
     [Markup.button.callback(t(configManager, 'settings.model_btn'), 'settings:model')],
     [Markup.button.callback(t(configManager, 'settings.lang_btn'), 'settings:lang')],
+    [historyWindowButton(configManager, chatId, false)],
     [Markup.button.callback(t(configManager, 'settings.resources_btn'), 'settings:resources')],
+    [Markup.button.callback(t(configManager, 'approval.level_btn', { level: approvalLevelLabel(configManager) }), 'settings:approval')],
     [Markup.button.callback(t(configManager, 'settings.reset_btn'), 'settings:reset')],
   ]);
 }
@@ -206,7 +249,7 @@ export function registerSettingsCallbacks(bot: Telegraf, ctx: BotContext): void
   // Language
   bot.action('settings:lang', async (tCtx) => {
     await tCtx.answerCbQuery();
-    const rawLang = configManager.getLanguage();
+    const rawLang = configManager.getChatLanguage(tCtx.chat!.id);
     const current = rawLang === 'auto' ? t(configManager, 'settings.lang_auto') : languageDisplayName(rawLang);
     await tCtx.editMessageText(
       t(configManager, 'settings.lang_prompt', { lang: current }),
@@ -228,8 +271,7 @@ export function registerSettingsCallbacks(bot: Telegraf, ctx: BotContext): void
   bot.action(/^lang:(.+)$/, async (tCtx) => {
     await tCtx.answerCbQuery();
     const lang = tCtx.match[1];
-    configManager.updateLanguage(lang);
-    await ctx.refreshTranslations();
+    if (configManager.updateChatLanguage(tCtx.chat!.id, lang)) await ctx.refreshTranslations();
     await tCtx.editMessageText(t(configManager, 'settings.lang_changed', { lang: languageDisplayName(lang) }));
   });
 
@@ -291,6 +333,27 @@ export function registerSettingsCallbacks(bot: Telegraf, ctx: BotContext): void
     await tCtx.editMessageText(resourcesText(configManager), resourcesKeyboard(configManager));
   });
 
+  bot.action('settings:approval', async (tCtx) => {
+    await tCtx.answerCbQuery();
+    const next = APPROVAL_LEVELS[(approvalLevelIndex(configManager) + 1) % APPROVAL_LEVELS.length];
+    configManager.updateApprovalClasses(next.classes);
+    const chatId = tCtx.chat!.id;
+    await tCtx.editMessageText(settingsText(configManager, chatId), settingsKeyboard(configManager, chatId));
+  });
+
+  bot.action('settings:history', async (tCtx) => {
+    await tCtx.answerCbQuery();
+    const chatId = tCtx.chat!.id;
+    const isGroup = isGroupChat(tCtx);
+    const current = configManager.getHistoryWindow(chatId, isGroup);
+    configManager.updateHistoryWindow(chatId, HISTORY_WINDOWS.find((size) => size > current) ?? HISTORY_WINDOWS[0]);
+    if (isGroup) {
+      await tCtx.editMessageText(groupSettingsText(configManager, chatId), groupSettingsKeyboard(configManager, chatId));
+      return;
+    }
+    await tCtx.editMessageText(settingsText(configManager, chatId), settingsKeyboard(configManager, chatId));
+  });
+
   // Reset — confirmation
   bot.action('settings:reset', async (tCtx) => {
     await tCtx.answerCbQuery();
@@ -311,8 +374,13 @@ export function registerSettingsCallbacks(bot: Telegraf, ctx: BotContext): void
       const { getDb } = await import('../db/schema.js');
       const db = getDb();
       db.exec('DELETE FROM messages');
+      db.exec('DELETE FROM conversation_summaries');
       db.exec('DELETE FROM tasks');
-      db.exec('DELETE FROM api_usage');
+      db.exec('DELETE FROM task_runs');
+      db.exec('DELETE FROM usage_events');
+      db.exec('DELETE FROM tool_calls');
+      db.exec('DELETE FROM tool_approvals');
+      db.exec('DELETE FROM budget_alerts');
     } catch (err) {
       console.error('Reset: failed to clear DB tables:', err);
     }
@@ -329,6 +397,11 @@ export function registerSettingsCallbacks(bot: Telegraf, ctx: BotContext): void
   // Back to settings
   bot.action('settings:back', async (tCtx) => {
     await tCtx.answerCbQuery();
-    await tCtx.editMessageText(settingsText(configManager), settingsKeyboard(configManager));
+    const chatId = tCtx.chat!.id;
+    if (isGroupChat(tCtx)) {
+      await tCtx.editMessageText(groupSettingsText(configManager, chatId), groupSettingsKeyboard(configManager, chatId));
+      return;
+    }
+    await tCtx.editMessageText(settingsText(configManager, chatId), settingsKeyboard(configManager, chatId));
   });
 }
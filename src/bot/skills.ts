@@ -0,0 +1,187 @@
+import { Markup, type Telegraf } from 'telegraf';
+import { randomBytes } from 'node:crypto';
+import { join } from 'node:path';
+import { homedir } from 'node:os';
+import type { ConfigManager } from '../core/config-manager.js';
+import {
+  BUNDLE_EXTENSION, MAX_BUNDLE_BYTES, exportSkill, formatBundleSummary, installBundle, parseBundle, type SkillBundle,
+} from '../skills/bundle.js';
+import type { SkillManifest } from '../skills/manifest.js';
+import { listSkills, listVersions, rollbackSkill, setSkillEnabled } from '../skills/versions.js';
+import type { BotContext } from './bot-context.js';
+import { t } from './i18n.js';
+
+const ZARUKA_DIR = process.env.ZARUKA_DATA_DIR || join(homedir(), '.zaruka');
+const SKILLS_DIR = join(ZARUKA_DIR, 'skills');
+
+/** Telegram limits callback data to 64 bytes. */
+const MAX_NAME_LENGTH = 64 - 'skills:revert:'.length;
+
+/** Bundles received as documents, waiting for the owner to confirm the install. */
+const pendingImports = new Map<string, SkillBundle>();
+
+function skillsList(cm: ConfigManager) {
+  const skills = listSkills(SKILLS_DIR);
+  const lines = [t(cm, 'skills.title'), ''];
+  if (skills.length === 0) lines.push(t(cm, 'skills.empty'));
+  for (const s of skills) {
+    lines.push(`${s.enabled ? '✅' : '⏸'} ${s.name} · v${s.version}${s.enabled ? '' : ` (${t(cm, 'skills.disabled')})`}`);
+    if (s.description) lines.push(`   ${s.description.slice(0, 100)}`);
+  }
+  if (skills.length > 0) lines.push('', t(cm, 'skills.hint'));
+
+  const rows = skills
+    .filter((s) => s.name.length <= MAX_NAME_LENGTH)
+    .map((s) => [Markup.button.callback(`${s.enabled ? '✅' : '⏸'} ${s.name}`, `skills:view:${s.name}`)]);
+  return { text: lines.join('\n'), keyboard: Markup.inlineKeyboard(rows) };
+}
+
+function skillView(cm: ConfigManager, name: string) {
+  const skill = listSkills(SKILLS_DIR).find((s) => s.name === name);
+  if (!skill) return null;
+  const previous = listVersions(SKILLS_DIR, name).filter((v) => v.version < skill.version).pop();
+
+  const lines = [
+    `🧩 ${skill.name} · v${skill.version} · ${t(cm, skill.enabled ? 'skills.enabled' : 'skills.disabled')}`,
+  ];
+  if (skill.description) lines.push('', skill.description);
+  lines.push('');
+  if (skill.credentials.length > 0) lines.push(t(cm, 'skills.credentials', { list: skill.credentials.join(', ') }));
+  if (skill.hosts.length > 0) lines.push(t(cm, 'skills.hosts', { list: skill.hosts.join(', ') }));
+  lines.push(t(cm, 'skills.updated', { date: skill.updatedAt.slice(0, 10) }));
+  const versions = listVersions(SKILLS_DIR, name).map((v) => v.version).filter((v) => v !== skill.version);
+  if (versions.length > 0) lines.push(t(cm, 'skills.versions', { list: versions.map((v) => `v${v}`).join(', ') }));
+
+  const rows = [
+    [skill.enabled
+      ? Markup.button.callback(t(cm, 'skills.disable_btn'), `skills:off:${name}`)
+      : Markup.button.callback(t(cm, 'skills.enable_btn'), `skills:on:${name}`)],
+  ];
+  if (previous) rows.push([Markup.button.callback(t(cm, 'skills.revert_btn', { version: String(previous.version) }), `skills:revert:${name}`)]);
+  rows.push([Markup.button.callback(t(cm, 'skills.export_btn'), `skills:export:${name}`)]);
+  rows.push([Markup.button.callback(t(cm, 'skills.back_btn'), 'skills:list')]);
+  return { text: lines.join('\n'), keyboard: Markup.inlineKeyboard(rows) };
+}
+
+export function registerSkillsCommands(bot: Telegraf, ctx: BotContext): void {
+  const { configManager } = ctx;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const showView = async (tCtx: any, name: string) => {
+    const view = skillView(configManager, name);
+    const { text, keyboard } = view ?? skillsList(configManager);
+    try { await tCtx.editMessageText(text, keyboard); } catch { /* identical */ }
+  };
+
+  bot.command('skills', async (tCtx) => {
+    const { text, keyboard } = skillsList(configManager);
+    await tCtx.reply(text, keyboard);
+  });
+
+  bot.action('skills:list', async (tCtx) => {
+    await tCtx.answerCbQuery();
+    const { text, keyboard } = skillsList(configManager);
+    try { await tCtx.editMessageText(text, keyboard); } catch { /* identical */ }
+  });
+
+  bot.action(/^skills:view:([\w-]+)$/, async (tCtx) => {
+    await tCtx.answerCbQuery();
+    await showView(tCtx, tCtx.match[1]);
+  });
+
+  bot.action(/^skills:(on|off):([\w-]+)$/, async (tCtx) => {
+    const [, action, name] = tCtx.match;
+    try {
+      setSkillEnabled(SKILLS_DIR, name, action === 'on');
+    } catch {
+      await tCtx.answerCbQuery(t(configManager, 'skills.not_found'));
+      return;
+    }
+    await tCtx.answerCbQuery(t(configManager, action === 'on' ? 'skills.toggled_on' : 'skills.toggled_off', { name }));
+    // Reload tools so the change applies to the next message
+    await ctx.reloadSkill(name);
+    await showView(tCtx, name);
+  });
+
+  bot.action(/^skills:revert:([\w-]+)$/, async (tCtx) => {
+    const name = tCtx.match[1];
+    try {
+      const manifest = rollbackSkill(SKILLS_DIR, name);
+      await tCtx.answerCbQuery(t(configManager, 'skills.reverted', { name, version: String(manifest.version) }));
+    } catch (err) {
+      await tCtx.answerCbQuery(err instanceof Error ? err.message.slice(0, 200) : String(err));
+      return;
+    }
+    await ctx.reloadSkill(name);
+    await showView(tCtx, name);
+  });
+
+  bot.action(/^skills:export:([\w-]+)$/, async (tCtx) => {
+    const name = tCtx.match[1];
+    try {
+      const { fileName, content } = exportSkill(SKILLS_DIR, name);
+      await tCtx.answerCbQuery();
+      await tCtx.replyWithDocument({ source: Buffer.from(content), filename: fileName });
+    } catch (err) {
+      await tCtx.answerCbQuery(err instanceof Error ? err.message.slice(0, 200) : String(err));
+    }
+  });
+
+  // A .zskill file from the owner is a bundle to install; any other document goes to the assistant
+  bot.on('document', async (tCtx, next) => {
+    const doc = tCtx.message.document;
+    const fileName = doc.file_name ?? '';
+    if (!fileName.endsWith(BUNDLE_EXTENSION) || tCtx.from.id !== configManager.getChatId()) return next();
+
+    let bundle: SkillBundle;
+    try {
+      if ((doc.file_size ?? 0) > MAX_BUNDLE_BYTES) throw new Error('file is too large');
+      const link = await tCtx.telegram.getFileLink(doc.file_id);
+      const resp = await fetch(link.href);
+      if (!resp.ok) throw new Error(`download failed (${resp.status})`);
+      bundle = parseBundle(Buffer.from(await resp.arrayBuffer()));
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      await tCtx.reply(t(configManager, 'skills.import_invalid', { file: fileName, error }));
+      return;
+    }
+
+    const id = randomBytes(4).toString('hex');
+    pendingImports.set(id, bundle);
+    const text = `${t(configManager, 'skills.import_title', { file: fileName })}\n\n${formatBundleSummary(bundle, SKILLS_DIR)}`;
+    await tCtx.reply(text, Markup.inlineKeyboard([[
+      Markup.button.callback(t(configManager, 'skills.install_btn'), `skills:install:${id}`),
+      Markup.button.callback(t(configManager, 'skills.cancel_btn'), `skills:discard:${id}`),
+    ]]));
+  });
+
+  bot.action(/^skills:(install|discard):([0-9a-f]+)$/, async (tCtx) => {
+    const [, action, id] = tCtx.match;
+    const bundle = pendingImports.get(id);
+    pendingImports.delete(id);
+    await tCtx.answerCbQuery();
+    if (!bundle) {
+      await tCtx.editMessageText(t(configManager, 'skills.import_expired')).catch(() => {});
+      return;
+    }
+    if (action === 'discard') {
+      await tCtx.editMessageText(t(configManager, 'skills.import_cancelled')).catch(() => {});
+      return;
+    }
+
+    let manifest: SkillManifest;
+    try {
+      manifest = installBundle(SKILLS_DIR, bundle);
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      await tCtx.editMessageText(t(configManager, 'skills.install_failed', { name: bundle.name, error })).catch(() => {});
+      return;
+    }
+    await ctx.reloadSkill(manifest.name);
+    const lines = [t(configManager, 'skills.installed', { name: manifest.name, version: String(manifest.version) })];
+    if (bundle.credentials.length > 0) {
+      lines.push(t(configManager, 'skills.installed_credentials', { list: bundle.credentials.join(', ') }));
+    }
+    await tCtx.editMessageText(lines.join('\n')).catch(() => {});
+  });
+}
@@ -1,12 +1,14 @@
 import rrule from 'rrule';
 import { Markup, type Telegraf } from 'telegraf';
-import type { Task } from '../core/types.js';
+import type { Task, TaskRun } from '../core/types.js';
 import type { BotContext } from './bot-context.js';
 import { t } from './i18n.js';
 import { normalizeRecurrence } from '../db/repository.js';
 
 const { RRule } = rrule;
 const PAGE_SIZE = 5;
+/** Runs shown in the detail view of an action task. */
+const RECENT_RUNS = 3;
 
 type Filter = 'active' | 'completed' | 'all';
 
@@ -102,7 +104,15 @@ export function tasksKeyboard(
 
 // --- Detail view ---
 
-export function taskDetailText(task: Task): string {
+function runLine(run: TaskRun): string {
+  const trigger = run.trigger === 'manual' ? ' · manual' : run.trigger === 'catch_up' ? ' · catch-up' : '';
+  const quiet = run.notified ? '' : ' · 🔕';
+  const output = run.output.replace(/\s+/g, ' ');
+  const preview = output.length > 60 ? output.slice(0, 59) + '…' : output;
+  return `${run.success ? '✅' : '⚠️'} ${run.created_at.slice(0, 16)} · ${(run.duration_ms / 1000).toFixed(1)}s${trigger}${quiet}\n   ${preview}`;
+}
+
+export function taskDetailText(task: Task, runs: TaskRun[] = []): string {
   const icon = statusIcon(task);
   const lines = [`${icon} ${task.title}`];
   if (task.description) lines.push(`\n📝 ${task.description}`);
@@ -110,11 +120,19 @@ export function taskDetailText(task: Task): string {
   if (task.due_date) {
     let datePart = `📅 ${formatDateFull(task.due_date)}`;
     if (task.due_time && task.due_time !== '12:00') datePart += ` ⏰ ${task.due_time}`;
+    if (task.timezone) datePart += ` (${task.timezone})`;
     meta.push(datePart);
   }
   if (task.recurrence) meta.push(`🔁 ${recurrenceToText(task.recurrence)}`);
   if (task.action) meta.push('🤖 action');
+  if (task.action && task.notify_policy === 'changed') meta.push('🔕 notifies only when the result changes');
+  if (task.action && task.notify_policy === 'condition') meta.push(`🔕 notifies only when: ${task.notify_condition}`);
+  if (task.catch_up === 'all') meta.push('⏭ missed runs: all');
+  if (task.catch_up === 'skip') meta.push('⏭ missed runs: skipped');
+  if (task.escalate_minutes) meta.push(`🔔 repeats every ${task.escalate_minutes} min until done`);
+  if (task.snoozed_until) meta.push('💤 snoozed');
   if (meta.length > 0) lines.push(meta.join('\n'));
+  if (runs.length > 0) lines.push(`\n🕘 Last runs (UTC)\n${runs.map(runLine).join('\n')}`);
   return lines.join('\n');
 }
 
@@ -141,6 +159,10 @@ export function taskDetailKeyboard(task: Task, filter: Filter, page: number, cm:
     ]);
   }
 
+  if (task.action && task.status !== 'deleted') {
+    rows.push([Markup.button.callback(t(cm, 'tasks.run_btn'), `task:run:${task.id}`)]);
+  }
+
   rows.push([
     Markup.button.callback(t(cm, 'tasks.back_btn'), `task:list:${filter}:${page}`),
   ]);
@@ -153,6 +175,9 @@ export function taskDetailKeyboard(task: Task, filter: Filter, page: number, cm:
 /** Per-chat state: which filter/page the user was on when they clicked a task. */
 const viewState = new Map<number, { filter: Filter; page: number }>();
 
+/** Tasks with a "Run now" in progress. */
+const runningTasks = new Set<number>();
+
 function getFilteredTasks(ctx: BotContext, filter: Filter): Task[] {
   const { taskRepo } = ctx;
   if (filter === 'active') {
@@ -220,11 +245,47 @@ export function registerTasksCallbacks(bot: Telegraf, ctx: BotContext): void {
     }
     const state = viewState.get(tCtx.chat!.id) ?? { filter: 'active' as Filter, page: 0 };
     await tCtx.editMessageText(
-      taskDetailText(task),
+      taskDetailText(task, task.action ? taskRepo.getRuns(id, RECENT_RUNS) : []),
       taskDetailKeyboard(task, state.filter, state.page, configManager),
     );
   });
 
+  // Run an action task now
+  bot.action(/^task:run:(\d+)$/, async (tCtx) => {
+    const id = parseInt(tCtx.match[1], 10);
+    const task = taskRepo.getById(id);
+    if (!task?.action || task.status === 'deleted') {
+      await tCtx.answerCbQuery(t(configManager, 'tasks.not_found'));
+      return;
+    }
+    if (runningTasks.has(id)) {
+      await tCtx.answerCbQuery(t(configManager, 'tasks.already_running'));
+      return;
+    }
+    await tCtx.answerCbQuery(t(configManager, 'tasks.running'));
+
+    // An AI run can outlast Telegram's callback handler timeout — finish in the background
+    runningTasks.add(id);
+    ctx.runTaskNow(id)
+      .then(async (result) => {
+        if (!result) return;
+        await tCtx.reply(result.run.success
+          ? `🤖 [${task.title}]\n\n${result.text}`
+          : t(configManager, 'tasks.run_failed', { title: task.title, error: result.text }));
+        // Refresh the detail view with the new run
+        const current = taskRepo.getById(id);
+        const state = viewState.get(tCtx.chat!.id) ?? { filter: 'active' as Filter, page: 0 };
+        if (current) {
+          await tCtx.editMessageText(
+            taskDetailText(current, taskRepo.getRuns(id, RECENT_RUNS)),
+            taskDetailKeyboard(current, state.filter, state.page, configManager),
+          ).catch(() => {});
+        }
+      })
+      .catch((err) => console.error(`Task #${id}: run now failed:`, err))
+      .finally(() => runningTasks.delete(id));
+  });
+
   // Complete task
   bot.action(/^task:done:(\d+)$/, async (tCtx) => {
     const id = parseInt(tCtx.match[1], 10);
@@ -3,14 +3,26 @@ import type { Assistant } from '../core/assistant.js';
 import type { MessageRepository } from '../db/message-repository.js';
 import type { ConfigManager } from '../core/config-manager.js';
 import type { UsageRepository } from '../db/usage-repository.js';
-import type { AiProvider } from '../core/types.js';
+import type { AiProvider, TaskRunResult } from '../core/types.js';
 import type { TaskRepository } from '../db/repository.js';
+import type { ToolCallRepository } from '../db/tool-call-repository.js';
+import type { ApprovalGate } from '../ai/approval-gate.js';
+import type { ConversationSummarizer } from '../core/summarizer.js';
+import type { ReminderSender } from '../scheduler/cron.js';
 import type { BotContext } from './bot-context.js';
 import { OnboardingHandler } from './onboarding/handler.js';
 import { registerCommands, registerUsageCallbacks } from './commands.js';
 import { registerSettingsCallbacks } from './settings.js';
 import { registerTasksCallbacks } from './tasks.js';
 import { registerHandlers } from './message-handler.js';
+import { registerAccessControl, registerAccessCommands } from './access.js';
+import { registerGroupCallbacks } from './group.js';
+import { createApprovalPrompter, registerApprovalCallbacks } from './approvals.js';
+import { registerAuditCommands } from './audit.js';
+import { registerSecretsCommands } from './secrets.js';
+import { registerSkillsCommands } from './skills.js';
+import { registerSearchCommands } from './search.js';
+import { createReminderSender, registerReminderCallbacks } from './reminders.js';
 import { getAppVersion } from './utils.js';
 import { t } from './i18n.js';
 
@@ -21,6 +33,10 @@ export class TelegramBot {
   private assistant: Assistant | null;
   private configManager: ConfigManager;
   private onboarding: OnboardingHandler;
+  private approvalGate: ApprovalGate | null = null;
+  private skillReloader: ((name: string) => Promise<void>) | null = null;
+  private summarizer: ConversationSummarizer | null = null;
+  private taskRunner: ((taskId: number) => Promise<TaskRunResult | undefined>) | null = null;
 
   constructor(
     token: string,
@@ -29,6 +45,7 @@ export class TelegramBot {
     configManager: ConfigManager,
     usageRepo: UsageRepository,
     taskRepo: TaskRepository,
+    toolCallRepo: ToolCallRepository,
     transcribe?: (fileUrl: string) => Promise<string>,
     transcriberFactory?: () => Promise<((fileUrl: string) => Promise<string>) | undefined>,
     onSetupComplete?: () => Promise<void>,
@@ -48,7 +65,7 @@ export class TelegramBot {
           if (!this.assistant) return;
           try {
             await tCtx.sendChatAction('typing');
-            const result = await this.assistant.process('\ud83d\udc4b');
+            const result = await this.assistant.process('\ud83d\udc4b', undefined, undefined, { chatId: tCtx.chat?.id });
             if (result.text) {
               const formatted = result.text.replace(/^#{1,6}\s+(.+)$/gm, '<b>$1</b>');
               await tCtx.reply(formatted, { parse_mode: 'HTML' }).catch(() => tCtx.reply(result.text));
@@ -66,6 +83,7 @@ export class TelegramBot {
       messageRepo,
       usageRepo,
       taskRepo,
+      toolCallRepo,
       getAssistant: () => this.assistant,
       getTranscriber: () => _transcribe,
       setTranscriber: (t) => { _transcribe = t; },
@@ -74,36 +92,37 @@ export class TelegramBot {
       lastLanguage: new Map(),
       awaitingThresholdInput: new Map(),
       awaitingLanguageInput: new Set(),
-      captureChatId: (chatId) => {
-        if (!configManager.getChatId()) {
-          configManager.setChatId(chatId);
-          console.log(`Chat ID captured: ${chatId}`);
-        }
-      },
+      awaitingKeywordsInput: new Map(),
       clearAssistant: () => { this.assistant = null; },
       rebuildAssistant: async () => {
         if (onSetupComplete) await onSetupComplete();
       },
+      reloadSkill: async (name) => {
+        if (this.skillReloader) await this.skillReloader(name);
+      },
+      summarizeHistory: (chatId, isGroup) => {
+        this.summarizer?.update(chatId, configManager.getHistoryWindow(chatId, isGroup))
+          .catch((err) => console.error(`[chat:${chatId}] Summary failed:`, err instanceof Error ? err.message : err));
+      },
+      runTaskNow: async (taskId) => this.taskRunner?.(taskId),
       refreshTranslations: refreshTranslations ?? (async () => {}),
     };
 
-    // Only allow the owner chat through. The first user to message the bot
-    // becomes the owner; after that every other chat_id is silently ignored.
-    this.bot.use((tCtx, next) => {
-      const chatId = tCtx.chat?.id;
-      if (!chatId) return next();
-      const owner = configManager.getChatId();
-      if (owner && chatId !== owner) {
-        console.log(`Blocked message from unauthorized chat ${chatId}`);
-        return;
-      }
-      return next();
-    });
+    // Only allowlisted chats get through; ownership is claimed with the pairing code
+    registerAccessControl(this.bot, ctx);
 
     registerCommands(this.bot, ctx);
+    registerAccessCommands(this.bot, ctx);
+    registerAuditCommands(this.bot, ctx);
+    registerSecretsCommands(this.bot, ctx);
+    registerSkillsCommands(this.bot, ctx);
+    registerSearchCommands(this.bot, ctx);
     registerSettingsCallbacks(this.bot, ctx);
     registerUsageCallbacks(this.bot, ctx);
     registerTasksCallbacks(this.bot, ctx);
+    registerReminderCallbacks(this.bot, ctx);
+    registerGroupCallbacks(this.bot, ctx);
+    registerApprovalCallbacks(this.bot, configManager, () => this.approvalGate);
     this.registerOnboardingCallbacks();
     registerHandlers(this.bot, ctx);
 
@@ -116,6 +135,27 @@ export class TelegramBot {
     this.assistant = assistant;
   }
 
+  /** Called after /skills changes a skill, so its tools update without a full rebuild. */
+  setSkillReloader(reload: (name: string) => Promise<void>): void {
+    this.skillReloader = reload;
+  }
+
+  /** Fold older messages into per-chat summaries after each reply. */
+  setSummarizer(summarizer: ConversationSummarizer): void {
+    this.summarizer = summarizer;
+  }
+
+  /** Run action tasks on demand from the task detail view. */
+  setTaskRunner(run: (taskId: number) => Promise<TaskRunResult | undefined>): void {
+    this.taskRunner = run;
+  }
+
+  /** Route tool approval requests to the owner's chat. */
+  setApprovalGate(gate: ApprovalGate): void {
+    this.approvalGate = gate;
+    gate.setPrompter(createApprovalPrompter(this.bot, this.configManager));
+  }
+
   /** Update Telegram bot command descriptions using translated strings. */
   async updateCommands(): Promise<void> {
     await this.bot.telegram.setMyCommands([
@@ -124,6 +164,12 @@ export class TelegramBot {
       { command: 'tasks', description: t(this.configManager, 'cmd_desc.tasks') },
       { command: 'usage', description: t(this.configManager, 'cmd_desc.usage') },
       { command: 'resources', description: t(this.configManager, 'cmd_desc.resources') },
+      { command: 'search', description: t(this.configManager, 'cmd_desc.search') },
+      { command: 'users', description: t(this.configManager, 'cmd_desc.users') },
+      { command: 'invite', description: t(this.configManager, 'cmd_desc.invite') },
+      { command: 'audit', description: t(this.configManager, 'cmd_desc.audit') },
+      { command: 'secrets', description: t(this.configManager, 'cmd_desc.secrets') },
+      { command: 'skills', description: t(this.configManager, 'cmd_desc.skills') },
       { command: 'version', description: t(this.configManager, 'cmd_desc.version') },
       { command: 'help', description: t(this.configManager, 'cmd_desc.help') },
     ]);
@@ -193,13 +239,18 @@ export class TelegramBot {
     return async (message: string) => {
       const chatId = this.configManager.getChatId();
       if (!chatId) {
-        console.warn('Cannot send message: no chat ID captured yet.');
+        console.warn('Cannot send message: no owner paired yet.');
         return;
       }
       await this.bot.telegram.sendMessage(chatId, message);
     };
   }
 
+  /** Send task reminders to the owner with Done / Snooze / Skip buttons. */
+  getReminderFn(): ReminderSender {
+    return createReminderSender(this.bot, this.configManager);
+  }
+
   async start(): Promise<void> {
     await this.updateCommands();
 
@@ -1,13 +1,31 @@
-/** Data shape matching ccusage's DailyUsage */
+import type { DailyTotal } from '../db/usage-repository.js';
+
+/** Data shape matching ccusage's DailyUsage (plus reasoning tokens). Token kinds don't overlap. */
 export interface ChartDailyData {
   date: string;
+  /** Uncached input. */
   inputTokens: number;
+  /** Output excluding reasoning. */
   outputTokens: number;
   cacheCreationTokens: number;
   cacheReadTokens: number;
+  reasoningTokens?: number;
   cost: number;
 }
 
+/** Split stored totals (where cache counts are part of input, reasoning part of output) into chart segments. */
+export function toChartData(rows: DailyTotal[]): ChartDailyData[] {
+  return rows.map((r) => ({
+    date: r.date,
+    inputTokens: Math.max(0, r.input_tokens - r.cache_read_tokens - r.cache_write_tokens),
+    outputTokens: Math.max(0, r.output_tokens - r.reasoning_tokens),
+    cacheCreationTokens: r.cache_write_tokens,
+    cacheReadTokens: r.cache_read_tokens,
+    reasoningTokens: r.reasoning_tokens,
+    cost: r.cost_usd,
+  }));
+}
+
 interface ChartOptions {
   title?: string;
   mode?: 'tokens' | 'cost';
@@ -22,6 +40,7 @@ interface Bucket {
   outputTokens: number;
   cacheCreationTokens: number;
   cacheReadTokens: number;
+  reasoningTokens: number;
   cost: number;
 }
 
@@ -43,6 +62,7 @@ function bucketize(daily: ChartDailyData[], period?: string): Bucket[] {
         existing.outputTokens += d.outputTokens;
         existing.cacheCreationTokens += d.cacheCreationTokens;
         existing.cacheReadTokens += d.cacheReadTokens;
+        existing.reasoningTokens += d.reasoningTokens ?? 0;
         existing.cost += d.cost;
       } else {
         const monthIdx = parseInt(d.date.slice(5, 7), 10) - 1;
@@ -52,6 +72,7 @@ function bucketize(daily: ChartDailyData[], period?: string): Bucket[] {
           outputTokens: d.outputTokens,
           cacheCreationTokens: d.cacheCreationTokens,
           cacheReadTokens: d.cacheReadTokens,
+          reasoningTokens: d.reasoningTokens ?? 0,
           cost: d.cost,
         });
       }
@@ -66,6 +87,7 @@ function bucketize(daily: ChartDailyData[], period?: string): Bucket[] {
       outputTokens: d.outputTokens,
       cacheCreationTokens: d.cacheCreationTokens,
       cacheReadTokens: d.cacheReadTokens,
+      reasoningTokens: d.reasoningTokens ?? 0,
       cost: d.cost,
     }));
   }
@@ -86,6 +108,7 @@ function bucketize(daily: ChartDailyData[], period?: string): Bucket[] {
       existing.outputTokens += d.outputTokens;
       existing.cacheCreationTokens += d.cacheCreationTokens;
       existing.cacheReadTokens += d.cacheReadTokens;
+      existing.reasoningTokens += d.reasoningTokens ?? 0;
       existing.cost += d.cost;
     } else {
       weeks.set(key, {
@@ -94,6 +117,7 @@ function bucketize(daily: ChartDailyData[], period?: string): Bucket[] {
         outputTokens: d.outputTokens,
         cacheCreationTokens: d.cacheCreationTokens,
         cacheReadTokens: d.cacheReadTokens,
+        reasoningTokens: d.reasoningTokens ?? 0,
         cost: d.cost,
       });
     }
@@ -117,6 +141,7 @@ const COL_INPUT = '#60a5fa';     // blue
 const COL_OUTPUT = '#fb923c';    // orange
 const COL_CACHE_W = '#a78bfa';   // purple — cache write (creation)
 const COL_CACHE_R = '#34d399';   // green — cache read
+const COL_REASONING = '#f472b6'; // pink — reasoning (thinking) output
 const COL_COST = '#4ade80';      // green
 
 function buildSvg(buckets: Bucket[], options: ChartOptions): string {
@@ -137,7 +162,7 @@ function buildSvg(buckets: Bucket[], options: ChartOptions): string {
   for (const b of buckets) {
     const val = mode === 'cost'
       ? b.cost
-      : b.inputTokens + b.outputTokens + b.cacheCreationTokens + b.cacheReadTokens;
+      : b.inputTokens + b.outputTokens + b.cacheCreationTokens + b.cacheReadTokens + b.reasoningTokens;
     if (val > maxVal) maxVal = val;
   }
   if (maxVal === 0) maxVal = 1;
@@ -179,8 +204,8 @@ function buildSvg(buckets: Bucket[], options: ChartOptions): string {
       const y = padTop + chartH - h;
       parts.push(`<rect x="${x}" y="${y}" width="${barWidth}" height="${h}" fill="${COL_COST}" rx="2"/>`);
     } else {
-      // Stacked from bottom: cache_read, cache_write, input, output
-      const total = b.cacheReadTokens + b.cacheCreationTokens + b.inputTokens + b.outputTokens;
+      // Stacked from bottom: cache_read, cache_write, input, output, reasoning
+      const total = b.cacheReadTokens + b.cacheCreationTokens + b.inputTokens + b.outputTokens + b.reasoningTokens;
       const totalH = (total / maxVal) * chartH;
       const yBase = padTop + chartH;
 
@@ -189,6 +214,7 @@ function buildSvg(buckets: Bucket[], options: ChartOptions): string {
         { value: b.cacheCreationTokens, color: COL_CACHE_W },
         { value: b.inputTokens, color: COL_INPUT },
         { value: b.outputTokens, color: COL_OUTPUT },
+        { value: b.reasoningTokens, color: COL_REASONING },
       ];
 
       let cumH = 0;
@@ -216,6 +242,7 @@ function buildSvg(buckets: Bucket[], options: ChartOptions): string {
       [COL_CACHE_W, 'Cache write'],
       [COL_INPUT, 'Input'],
       [COL_OUTPUT, 'Output'],
+      [COL_REASONING, 'Reasoning'],
     ] as const) {
       parts.push(`<rect x="${lx}" y="${ly - 8}" width="10" height="10" fill="${color}" rx="2"/>`);
       parts.push(`<text x="${lx + 14}" y="${ly}" fill="#aaa" font-family="sans-serif" font-size="11">${label}</text>`);
@@ -0,0 +1,51 @@
+import { writeFileSync } from 'node:fs';
+import { getDb } from '../db/schema.js';
+import { ToolCallRepository, type ToolCallRecord } from '../db/tool-call-repository.js';
+
+export interface AuditOptions {
+  tool?: string;
+  since?: string;
+  format?: string;
+  output?: string;
+}
+
+const CSV_COLUMNS: Array<keyof ToolCallRecord> = [
+  'id', 'created_at', 'chat_id', 'tool_name', 'success', 'duration_ms', 'args', 'result',
+];
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const s = String(value);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function toCsv(rows: ToolCallRecord[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const row of rows) lines.push(CSV_COLUMNS.map((c) => csvCell(row[c])).join(','));
+  return lines.join('\n') + '\n';
+}
+
+/** Export the tool call audit log as JSON (default) or CSV. */
+export async function runAudit(opts: AuditOptions): Promise<void> {
+  const format = opts.format ?? 'json';
+  if (format !== 'json' && format !== 'csv') {
+    console.error(`Unknown format "${format}". Use json or csv.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const db = getDb();
+  const rows = new ToolCallRepository(db).export({ toolName: opts.tool, since: opts.since });
+  db.close();
+
+  const out = format === 'csv'
+    ? toCsv(rows)
+    : JSON.stringify(rows.map((r) => ({ ...r, success: r.success === 1 })), null, 2) + '\n';
+
+  if (opts.output) {
+    writeFileSync(opts.output, out);
+    console.log(`Exported ${rows.length} tool calls to ${opts.output}`);
+  } else {
+    process.stdout.write(out);
+  }
+}
@@ -1,6 +1,8 @@
 import { readFileSync, existsSync } from 'node:fs';
 import { join } from 'node:path';
 import { homedir } from 'node:os';
+import { getVault } from '../vault/vault.js';
+import { hydrateConfigSecrets } from '../vault/config-secrets.js';
 
 const ZARUKA_DIR = process.env.ZARUKA_DATA_DIR || join(homedir(), '.zaruka');
 const CONFIG_PATH = join(ZARUKA_DIR, 'config.json');
@@ -30,6 +32,13 @@ export async function runDoctor(): Promise<void> {
   }
 
   const config = JSON.parse(readFileSync(CONFIG_PATH, 'utf-8'));
+  try {
+    hydrateConfigSecrets(config, getVault());
+    console.log('  ✓ Credential vault unlocked');
+  } catch (err) {
+    console.log(`  ✗ ${err instanceof Error ? err.message : err}`);
+    allOk = false;
+  }
 
   // 3. Check Telegram token
   try {
@@ -83,6 +83,48 @@ program
     await runDoctor();
   });
 
+program
+  .command('audit')
+  .description('Export the tool call audit log')
+  .option('-t, --tool <name>', 'Only calls to this tool')
+  .option('-s, --since <date>', 'Only calls on or after this date (YYYY-MM-DD, UTC)')
+  .option('-f, --format <format>', 'Output format: json or csv', 'json')
+  .option('-o, --output <file>', 'Write to a file instead of stdout')
+  .action(async (opts) => {
+    const { runAudit } = await import('./audit.js');
+    await runAudit(opts);
+  });
+
+const skills = program
+  .command('skills')
+  .description('Manage dynamic skills');
+
+skills
+  .command('test [name]')
+  .description('Run the stored tests of a skill (or all skills) in the sandbox')
+  .action(async (name?: string) => {
+    const { runSkillsTest } = await import('./skills.js');
+    await runSkillsTest(name);
+  });
+
+skills
+  .command('export <name>')
+  .description('Pack a skill (code, manifest, tests) into a shareable .zskill bundle')
+  .option('-o, --output <file>', 'Bundle file to write (default: ./<name>.zskill)')
+  .action(async (name: string, opts) => {
+    const { runSkillsExport } = await import('./skills.js');
+    await runSkillsExport(name, opts);
+  });
+
+skills
+  .command('import <file>')
+  .description('Verify a .zskill bundle, show its permissions and install it')
+  .option('-y, --yes', 'Install without asking for confirmation')
+  .action(async (file: string, opts) => {
+    const { runSkillsImport } = await import('./skills.js');
+    await runSkillsImport(file, opts);
+  });
+
 program
   .command('config')
   .description('Reconfigure settings (runs setup again)')
@@ -4,6 +4,9 @@ import { execSync } from 'node:child_process';
 import { join } from 'node:path';
 import { homedir, platform } from 'node:os';
 import type { ZarukaConfig } from '../core/types.js';
+import { generateAccessCode } from '../core/access.js';
+import { getVault } from '../vault/vault.js';
+import { stripConfigSecrets } from '../vault/config-secrets.js';
 
 const ZARUKA_DIR = process.env.ZARUKA_DATA_DIR || join(homedir(), '.zaruka');
 const CONFIG_PATH = join(ZARUKA_DIR, 'config.json');
@@ -421,8 +424,9 @@ export async function runSetup(): Promise<void> {
   await checkFfmpeg();
 
   // Save config
+  const pairingCode = generateAccessCode();
   const config: ZarukaConfig = {
-    telegram: { botToken: botToken.trim() },
+    telegram: { botToken: botToken.trim(), pairingCode },
     ai: {
       provider,
       ...(apiKey ? { apiKey: apiKey.trim() } : {}),
@@ -440,10 +444,14 @@ export async function runSetup(): Promise<void> {
   }
   mkdirSync(join(ZARUKA_DIR, 'logs'), { recursive: true });
 
-  writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2));
+  // The bot token and provider credentials go into the encrypted vault
+  writeFileSync(CONFIG_PATH, JSON.stringify(stripConfigSecrets(config, getVault()), null, 2));
   chmodSync(CONFIG_PATH, 0o600);
 
   console.log('  Setup complete!\n');
+  console.log('  Pairing code (claims ownership of the bot):\n');
+  console.log(`    ${pairingCode}\n`);
+  console.log(`  Once started, send "/start ${pairingCode}" to your bot in Telegram.\n`);
   console.log('  Start:  npm run dev');
   console.log('  Or:     npm start (production)\n');
 }
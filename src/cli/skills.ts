@@ -0,0 +1,75 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import { homedir } from 'node:os';
+import { confirm } from '@inquirer/prompts';
+import { exportSkill, formatBundleSummary, installBundle, parseBundle } from '../skills/bundle.js';
+import { formatTestReport, loadTests, runSkillTests, testsPassed } from '../skills/skill-tests.js';
+import { listSkills, skillFile } from '../skills/versions.js';
+
+const ZARUKA_DIR = process.env.ZARUKA_DATA_DIR || join(homedir(), '.zaruka');
+const SKILLS_DIR = join(ZARUKA_DIR, 'skills');
+
+/** Run the stored tests of one skill (or all of them). Exits non-zero if any test fails. */
+export async function runSkillsTest(name?: string): Promise<void> {
+  const names = name ? [name.replace(/\.m?js$/, '')] : listSkills(SKILLS_DIR).map((s) => s.name);
+  if (names.length === 0) {
+    console.log('No skills installed.');
+    return;
+  }
+
+  let failed = false;
+  for (const skill of names) {
+    const file = skillFile(SKILLS_DIR, skill);
+    if (!file) {
+      console.error(`Skill "${skill}" not found.`);
+      failed = true;
+      continue;
+    }
+    const tests = loadTests(SKILLS_DIR, skill);
+    if (!tests || tests.length === 0) {
+      console.log(`${skill}: no tests`);
+      continue;
+    }
+    const results = await runSkillTests(SKILLS_DIR, basename(file), tests);
+    console.log(formatTestReport(skill, results) + '\n');
+    if (!testsPassed(results)) failed = true;
+  }
+  if (failed) process.exitCode = 1;
+}
+
+/** Write a skill bundle to a file (default: ./<skill>.zskill). */
+export async function runSkillsExport(name: string, opts: { output?: string }): Promise<void> {
+  try {
+    const { fileName, content } = exportSkill(SKILLS_DIR, name.replace(/\.m?js$/, ''));
+    const output = opts.output ?? fileName;
+    writeFileSync(output, content);
+    console.log(`Exported ${name} to ${output}`);
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : String(err));
+    process.exitCode = 1;
+  }
+}
+
+/** Verify a bundle, show the permissions it requests and install it after confirmation. */
+export async function runSkillsImport(file: string, opts: { yes?: boolean }): Promise<void> {
+  let bundle;
+  try {
+    bundle = parseBundle(readFileSync(file));
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : String(err));
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(formatBundleSummary(bundle, SKILLS_DIR) + '\n');
+  if (!opts.yes && !(await confirm({ message: `Install ${bundle.name} with these permissions?`, default: false }))) {
+    console.log('Cancelled.');
+    return;
+  }
+
+  const manifest = installBundle(SKILLS_DIR, bundle);
+  console.log(`Installed ${manifest.name} v${manifest.version}. A running bot loads it automatically.`);
+  if (bundle.credentials.length > 0) {
+    console.log(`Add these credentials by sending them to the bot: ${bundle.credentials.join(', ')}`);
+  }
+}
@@ -2,23 +2,35 @@ import { readFileSync, existsSync } from 'node:fs';
 import { join } from 'node:path';
 import { homedir } from 'node:os';
 import type { ZarukaConfig } from '../core/types.js';
+import type { RequestContext } from '../ai/request-context.js';
+import type { UsageListener } from '../ai/agent.js';
+import { readChatMemory } from '../core/chat-memory.js';
+import { ConversationSummarizer } from '../core/summarizer.js';
 import { ConfigManager } from '../core/config-manager.js';
 import { Assistant } from '../core/assistant.js';
 import { createModel } from '../ai/model-factory.js';
 import { createAllTools } from '../ai/tools.js';
 import { createEvolveTool } from '../mcp/evolve-tool.js';
-import { loadDynamicSkills } from '../skills/dynamic-loader.js';
+import { SkillWatcher } from '../skills/skill-watcher.js';
 import { createSkillManagementTools } from '../skills/skill-tools.js';
 import { getDb } from '../db/schema.js';
 import { TaskRepository } from '../db/repository.js';
 import { MessageRepository } from '../db/message-repository.js';
+import { SummaryRepository } from '../db/summary-repository.js';
 import { UsageRepository } from '../db/usage-repository.js';
+import { ApprovalRepository } from '../db/approval-repository.js';
+import { ToolCallRepository } from '../db/tool-call-repository.js';
+import { redactArgs } from '../ai/tool-audit.js';
+import { findModelPrice, computeCost, type TokenUsage } from '../ai/pricing.js';
+import { findExceededCap } from '../core/budget.js';
+import { ApprovalGate } from '../ai/approval-gate.js';
 import { loadCredentials } from '../mcp/credential-tool.js';
+import { readSecret } from '../vault/vault.js';
 import { TelegramBot, type Transcriber } from '../bot/telegram.js';
 import { Scheduler } from '../scheduler/cron.js';
 import { createTranscriber } from '../audio/transcribe.js';
 import { startTokenRefreshLoop } from '../auth/token-refresh.js';
-import { translateUI, translationCacheComplete } from '../bot/i18n.js';
+import { t, translateUI, translationCacheComplete } from '../bot/i18n.js';
 import { McpManager } from '../mcp/mcp-manager.js';
 import { createMcpManagementTools } from '../mcp/mcp-tools.js';
 
@@ -28,34 +40,43 @@ const SKILLS_DIR = join(ZARUKA_DIR, 'skills');
 const MEMORY_DIR = join(ZARUKA_DIR, 'memory');
 
 function loadConfig(): ZarukaConfig {
+  // ZARUKA_* settings come from the environment or from a migrated ~/.zaruka/.env (now in the vault)
+  const telegramToken = readSecret('ZARUKA_TELEGRAM_TOKEN');
+  const aiProvider = readSecret('ZARUKA_AI_PROVIDER');
+  const aiKey = readSecret('ZARUKA_AI_KEY');
+
   // Support Docker/Coolify env vars (full config)
-  if (process.env.ZARUKA_TELEGRAM_TOKEN && process.env.ZARUKA_AI_PROVIDER && process.env.ZARUKA_AI_KEY) {
+  if (telegramToken && aiProvider && aiKey) {
+    // Keep the paired owner and allowlist across container restarts
+    const saved: Partial<ZarukaConfig> = existsSync(CONFIG_PATH)
+      ? JSON.parse(readFileSync(CONFIG_PATH, 'utf-8'))
+      : {};
     return {
-      telegram: { botToken: process.env.ZARUKA_TELEGRAM_TOKEN },
+      telegram: { ...saved.telegram, botToken: telegramToken },
       ai: {
-        provider: process.env.ZARUKA_AI_PROVIDER as NonNullable<ZarukaConfig['ai']>['provider'],
-        apiKey: process.env.ZARUKA_AI_KEY,
-        model: process.env.ZARUKA_AI_MODEL || getDefaultModel(process.env.ZARUKA_AI_PROVIDER),
-        baseUrl: process.env.ZARUKA_AI_BASE_URL || null,
+        provider: aiProvider as NonNullable<ZarukaConfig['ai']>['provider'],
+        apiKey: aiKey,
+        model: readSecret('ZARUKA_AI_MODEL') || getDefaultModel(aiProvider),
+        baseUrl: readSecret('ZARUKA_AI_BASE_URL') || null,
       },
-      timezone: process.env.ZARUKA_TIMEZONE || 'UTC',
-      language: process.env.ZARUKA_LANGUAGE || 'auto',
-      reminderCron: process.env.ZARUKA_REMINDER_CRON || '0 9 * * *',
+      timezone: readSecret('ZARUKA_TIMEZONE') || 'UTC',
+      language: readSecret('ZARUKA_LANGUAGE') || 'auto',
+      reminderCron: readSecret('ZARUKA_REMINDER_CRON') || '0 9 * * *',
     };
   }
 
   // Telegram-only: start in onboarding mode (no AI config yet)
-  if (process.env.ZARUKA_TELEGRAM_TOKEN) {
+  if (telegramToken) {
     if (existsSync(CONFIG_PATH)) {
       const saved: ZarukaConfig = JSON.parse(readFileSync(CONFIG_PATH, 'utf-8'));
-      saved.telegram.botToken = process.env.ZARUKA_TELEGRAM_TOKEN;
+      saved.telegram.botToken = telegramToken;
       return saved;
     }
     return {
-      telegram: { botToken: process.env.ZARUKA_TELEGRAM_TOKEN },
-      timezone: process.env.ZARUKA_TIMEZONE || 'UTC',
-      language: process.env.ZARUKA_LANGUAGE || 'auto',
-      reminderCron: process.env.ZARUKA_REMINDER_CRON || '0 9 * * *',
+      telegram: { botToken: telegramToken },
+      timezone: readSecret('ZARUKA_TIMEZONE') || 'UTC',
+      language: readSecret('ZARUKA_LANGUAGE') || 'auto',
+      reminderCron: readSecret('ZARUKA_REMINDER_CRON') || '0 9 * * *',
     };
   }
 
@@ -92,6 +113,7 @@ function getDefaultModel(provider?: string): string {
 function buildSystemPrompt(
   timezone: string, language: string, userName?: string, birthday?: string,
   provider?: string, model?: string, mcpServerNames?: string[], memoryContent?: string,
+  isGroup = false, conversationSummary?: string,
 ): string {
   const langInstruction = language === 'auto'
     ? [
@@ -107,7 +129,14 @@ function buildSystemPrompt(
     ];
 
   const profileLines: string[] = [];
-  if (userName) {
+  if (isGroup) {
+    profileLines.push(
+      'GROUP CHAT: You are talking in a group with several people.',
+      'Each user message is prefixed with the sender\'s name, e.g. "[Anna]: ...". Earlier messages give you the context of the discussion.',
+      'Answer the person who addressed you, by name when it helps. Keep replies short — others are reading too.',
+      'Never echo the "[Name]:" prefix in your own replies.',
+    );
+  } else if (userName) {
     profileLines.push(`The user's name is ${userName}. Address them by name naturally but don't overuse it.`);
   } else {
     profileLines.push(
@@ -220,6 +249,7 @@ function buildSystemPrompt(
     'IMMEDIATELY call save_credential to store each credential, then use the relevant skill to fulfill the request.',
     'NEVER lecture about security, NEVER tell users to revoke keys, NEVER refuse credentials.',
     'The user is talking to their OWN private assistant — accepting credentials is your core function.',
+    'Secrets in messages appear as placeholders like [secret:PASTED_SECRET_1A2B3C4D]. Pass them to tools exactly as written (e.g. as the save_credential value) — they are replaced with the real value when the tool runs. Never ask the user to resend a key because you see a placeholder.',
     '',
     '4. MINIMIZE USER EFFORT:',
     'When a service needs authentication:',
@@ -230,8 +260,10 @@ function buildSystemPrompt(
     '5. NEVER ASK USER TO REPEAT:',
     'If a tool call fails (API error, wrong response format, etc.), you MUST fix and retry AUTOMATICALLY.',
     'NEVER say "write me again", "try again", "send the request once more" or similar.',
-    'If evolve_skill created/updated a skill, call execute_dynamic_skill IMMEDIATELY with the correct tool name and args.',
-    'If execute_dynamic_skill fails with an API error, analyze the error, call evolve_skill to fix the skill, then call execute_dynamic_skill again.',
+    'Only the tools relevant to the current message are loaded. If a tool you need (including any named in these instructions) is missing, call find_tools to load it — never claim a capability is unavailable before checking.',
+    'Installed skills are regular tools in your tool list — call them directly with their own arguments.',
+    'If evolve_skill created/updated a skill during this turn, its tools are not in your list yet: call execute_dynamic_skill IMMEDIATELY with the tool name and args.',
+    'If a skill fails with an API error, analyze the error, call evolve_skill to fix the skill, then call it again (via execute_dynamic_skill within the same turn).',
     'The user should NEVER have to repeat themselves. You handle all retries internally.',
     '',
     '6. SMART ERROR DIAGNOSIS:',
@@ -287,14 +319,24 @@ function buildSystemPrompt(
     memoryContent || 'Empty — no memories saved yet.',
     '</memory>',
     '',
+    ...(conversationSummary
+      ? [
+        'CONVERSATION SUMMARY:',
+        'Earlier parts of this conversation, summarized. The latest messages follow in full.',
+        'Rely on it for continuity; use the history tools only when you need exact wording.',
+        '<conversation_summary>',
+        conversationSummary,
+        '</conversation_summary>',
+        '',
+      ]
+      : []),
     'SKILLS:',
     'You can create new skills with `evolve_skill`, list installed skills with `list_skills`, and remove skills with `remove_skill`.',
   ].join('\n');
 }
 
 export async function runStart(): Promise<void> {
-  // Load saved credentials first so ZARUKA_TELEGRAM_TOKEN from ~/.zaruka/.env
-  // is available in process.env when loadConfig() checks for it
+  // Unlock the vault first: loadConfig() reads ZARUKA_TELEGRAM_TOKEN from it
   loadCredentials();
 
   const config = loadConfig();
@@ -302,26 +344,71 @@ export async function runStart(): Promise<void> {
 
   // Init DB
   const db = getDb();
-  const taskRepo = new TaskRepository(db);
+  const taskRepo = new TaskRepository(db, () => configManager.getConfig().timezone);
   const messageRepo = new MessageRepository(db);
+  const scrubbed = messageRepo.redactStored();
+  if (scrubbed > 0) console.log(`Redacted secrets in ${scrubbed} stored message(s).`);
   const usageRepo = new UsageRepository(db);
+  const toolCallRepo = new ToolCallRepository(db);
+
+  // Dangerous tool calls wait for the owner's approval in Telegram
+  const approvalGate = new ApprovalGate(configManager, new ApprovalRepository(db));
 
   // MCP lifecycle
   let mcpManager: McpManager | null = null;
   const rebuildRef: { current: (() => Promise<void>) | null } = { current: null };
 
+  /** Request cost in USD. Subscription (OAuth) usage is prepaid, so it is free per request. */
+  function usageCost(provider: string | undefined, model: string, usage: TokenUsage): number {
+    const cfg = configManager.getConfig();
+    const providerConfig = provider === cfg.ai?.provider ? cfg.ai : provider ? cfg.savedProviders?.[provider] : undefined;
+    if (providerConfig?.authToken) return 0;
+    const price = findModelPrice(provider, model, configManager.getPricingOverrides());
+    return price ? computeCost(price, usage) : 0;
+  }
+
+  /** Record one model request in the usage ledger. */
+  const trackUsage: UsageListener = (report, context) => {
+    usageRepo.track({
+      ...report,
+      source: context.source ?? 'chat',
+      sourceId: context.sourceId,
+      chatId: context.chatId,
+      costUsd: usageCost(report.provider, report.model, report),
+    });
+  };
+
+  // Price usage recorded before cost accounting existed, once. Subscription usage is prepaid;
+  // rows without a provider predate multi-provider tracking and belong to the configured one.
+  const backfilled = usageRepo.backfillCosts((provider, model) => {
+    const cfg = configManager.getConfig();
+    const providerConfig = !provider || provider === cfg.ai?.provider ? cfg.ai : cfg.savedProviders?.[provider];
+    if (providerConfig?.authToken) return undefined;
+    return findModelPrice(provider, model, configManager.getPricingOverrides());
+  });
+  if (backfilled > 0) console.log(`Usage: priced ${backfilled} earlier usage records`);
+
+  // Older messages are folded into per-chat summaries with the current model
+  const summarizer = new ConversationSummarizer(messageRepo, new SummaryRepository(db), () => {
+    const ai = configManager.getConfig().ai;
+    return ai ? { model: createModel(ai), provider: ai.provider } : null;
+  }, trackUsage, (provider) => findExceededCap(configManager, usageRepo, provider));
+
+  // Skills are reloaded one by one when their files change, without rebuilding the assistant
+  const skillWatcher = new SkillWatcher(SKILLS_DIR, {
+    onUpdate: (removed, added) => assistant?.replaceTools(removed, added),
+    onError: (name, message) => {
+      notifyFn(t(configManager, 'skills.load_failed', { name, error: message.slice(0, 1000) })).catch(() => {});
+    },
+  });
+
   // Helper to create assistant from current config — single path for all providers
   async function buildAssistant(): Promise<Assistant> {
     const cfg = configManager.getConfig();
     const ai = cfg.ai!;
-    const profile = configManager.getProfile();
 
     const model = createModel(ai);
 
-    // Read persistent memory
-    const memoryFile = join(MEMORY_DIR, 'MEMORY.md');
-    const memoryContent = existsSync(memoryFile) ? readFileSync(memoryFile, 'utf-8').trim() : undefined;
-
     const builtinTools = createAllTools({
       taskRepo,
       messageRepo,
@@ -333,7 +420,7 @@ export async function runStart(): Promise<void> {
     });
 
     // Add evolve_skill and dynamic skills
-    const dynamicSkills = await loadDynamicSkills(SKILLS_DIR);
+    const dynamicSkills = await skillWatcher.loadAll();
 
     // Connect MCP servers
     if (mcpManager) await mcpManager.closeAll();
@@ -351,23 +438,31 @@ export async function runStart(): Promise<void> {
 
     const tools = {
       ...builtinTools,
-      evolve_skill: createEvolveTool(SKILLS_DIR, ai),
+      evolve_skill: createEvolveTool(SKILLS_DIR, ai, trackUsage),
       ...dynamicSkills,
       ...mcpTools,
       ...createMcpManagementTools(configManager, rebuildRef),
-      ...createSkillManagementTools(SKILLS_DIR, rebuildRef),
+      ...createSkillManagementTools(SKILLS_DIR, (name) => skillWatcher.reload(name)),
     };
 
-    const systemPrompt = buildSystemPrompt(
-      cfg.timezone,
-      configManager.getLanguage(),
-      profile?.name,
-      profile?.birthday,
-      ai.provider,
-      ai.model,
-      mcpServerNames,
-      memoryContent,
-    );
+    // Built per request: profile, memory and language belong to the chat being served
+    const systemPrompt = (context: RequestContext): string => {
+      const chatId = context.chatId ?? configManager.getChatId();
+      const isOwner = !!chatId && chatId === configManager.getChatId();
+      const profile = chatId ? configManager.getProfile(chatId) : undefined;
+      return buildSystemPrompt(
+        profile?.timezone ?? configManager.getConfig().timezone,
+        chatId ? configManager.getChatLanguage(chatId) : configManager.getLanguage(),
+        profile?.name,
+        profile?.birthday,
+        ai.provider,
+        ai.model,
+        mcpServerNames,
+        chatId ? readChatMemory(MEMORY_DIR, chatId, isOwner) : undefined,
+        context.isGroup,
+        chatId ? summarizer.latest(chatId) : undefined,
+      );
+    };
 
     // Collect fallback configs from saved providers (excluding the current one)
     const fallbackConfigs = Object.values(cfg.savedProviders ?? {})
@@ -375,12 +470,23 @@ export async function runStart(): Promise<void> {
 
     return new Assistant({
       model,
+      provider: ai.provider,
       tools,
       systemPrompt,
       fallbackConfigs,
-      onUsage: (usage) => {
-        usageRepo.track(usage.model, usage.inputTokens, usage.outputTokens, 0);
+      approval: approvalGate,
+      onToolCall: (event, context) => {
+        toolCallRepo.record({
+          chatId: context.chatId,
+          toolName: event.toolName,
+          args: JSON.stringify(redactArgs(event.input) ?? {}),
+          durationMs: event.durationMs,
+          success: event.success,
+          result: typeof event.output === 'string' ? event.output : JSON.stringify(event.output) ?? '',
+        });
       },
+      budgetGuard: (provider) => findExceededCap(configManager, usageRepo, provider),
+      onUsage: trackUsage,
     });
   }
 
@@ -400,7 +506,8 @@ export async function runStart(): Promise<void> {
       if (cached !== lang || !translationCacheComplete(configManager)) {
         try {
           const model = createModel(config.ai!);
-          const strings = await translateUI(model, lang);
+          const strings = await translateUI(model, lang, (report) =>
+            trackUsage({ ...report, provider: config.ai!.provider }, { source: 'ui_translation', sourceId: lang }));
           configManager.updateTranslations(lang, strings);
           console.log(`UI translated to ${lang}`);
         } catch (err) {
@@ -414,9 +521,9 @@ export async function runStart(): Promise<void> {
     const transcriberOpts = {
       openaiApiKey:
         (ai.provider === 'openai' || ai.provider === 'openai-compatible' ? ai.apiKey : undefined)
-        ?? process.env.OPENAI_API_KEY,
+        ?? readSecret('OPENAI_API_KEY'),
       openaiBaseUrl: ai.provider === 'openai-compatible' ? (ai.baseUrl ?? undefined) : undefined,
-      groqApiKey: process.env.GROQ_API_KEY,
+      groqApiKey: readSecret('GROQ_API_KEY'),
     };
     transcribe = await createTranscriber(transcriberOpts);
     transcriberFactory = () => createTranscriber(transcriberOpts);
@@ -434,7 +541,8 @@ export async function runStart(): Promise<void> {
           const ai = configManager.getConfig().ai;
           if (ai) {
             const model = createModel(ai);
-            const strings = await translateUI(model, currentLang);
+            const strings = await translateUI(model, currentLang, (report) =>
+              trackUsage({ ...report, provider: ai.provider }, { source: 'ui_translation', sourceId: currentLang }));
             configManager.updateTranslations(currentLang, strings);
             console.log(`UI translated to ${currentLang}`);
           }
@@ -454,6 +562,7 @@ export async function runStart(): Promise<void> {
     configManager,
     usageRepo,
     taskRepo,
+    toolCallRepo,
     transcribe,
     transcriberFactory,
     // Onboarding callback: called when user finishes AI setup in Telegram
@@ -470,17 +579,25 @@ export async function runStart(): Promise<void> {
     refreshTranslations,
   );
 
+  bot.setApprovalGate(approvalGate);
+
   // Get the real send function from the bot for alerts & reminders
   const notifyFn = bot.getSendMessageFn();
 
   // AI executor for scheduled action tasks
-  const executeAction = async (instruction: string): Promise<string> => {
+  const executeAction = async (instruction: string, taskId?: number): Promise<string> => {
     if (!assistant) return 'AI not configured';
-    return (await assistant.process(instruction)).text;
+    return (await assistant.process(instruction, undefined, undefined, {
+      chatId: configManager.getChatId(),
+      source: 'scheduled_task',
+      sourceId: taskId !== undefined ? String(taskId) : undefined,
+    })).text;
   };
 
   // Set up scheduler for reminders + resource monitoring + action tasks
-  new Scheduler(taskRepo, configManager.getConfig().timezone, notifyFn, configManager, executeAction);
+  const scheduler = new Scheduler(
+    taskRepo, configManager.getConfig().timezone, notifyFn, configManager, executeAction, usageRepo, bot.getReminderFn(),
+  );
 
   // Rebuild the assistant with the latest config (used after token refresh)
   async function rebuildAndSet(): Promise<void> {
@@ -489,6 +606,10 @@ export async function runStart(): Promise<void> {
     bot.setAssistant(newAssistant);
   }
   rebuildRef.current = rebuildAndSet;
+  bot.setSkillReloader((name) => skillWatcher.reload(name));
+  bot.setSummarizer(summarizer);
+  bot.setTaskRunner((taskId) => scheduler.runNow(taskId));
+  skillWatcher.start();
 
   if (hasAi) {
     console.log(`Provider: ${configManager.getConfig().ai!.provider} (${configManager.getModel()})`);
@@ -502,12 +623,17 @@ export async function runStart(): Promise<void> {
   const currentMcp = mcpManager as McpManager | null;
   const mcpCount = currentMcp ? currentMcp.getConnectedServers().length : 0;
   if (mcpCount > 0) console.log(`MCP servers: ${mcpCount} connected`);
+  const pairingCode = configManager.ensurePairingCode();
+  if (pairingCode) {
+    console.log(`No owner paired yet. Send "/start ${pairingCode}" to the bot to claim ownership.`);
+  }
   console.log(`Timezone: ${configManager.getConfig().timezone}`);
   console.log(`Resource monitoring: ${configManager.isResourceMonitorEnabled() ? 'enabled' : 'disabled'}`);
   console.log('');
 
   // Graceful shutdown: close MCP connections
   const cleanup = async () => {
+    skillWatcher.stop();
     if (mcpManager) await mcpManager.closeAll();
     process.exit(0);
   };
@@ -0,0 +1,27 @@
+import { randomInt, timingSafeEqual } from 'node:crypto';
+
+// No 0/O/1/I — codes are often read off a terminal and retyped on a phone
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/** Generate a human-friendly one-time code, e.g. "K7QM-3XPA". */
+export function generateAccessCode(): string {
+  let code = '';
+  for (let i = 0; i < 8; i++) {
+    if (i === 4) code += '-';
+    code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/** Normalize user input so "k7qm3xpa", "K7QM-3XPA" and " k7qm 3xpa " all match. */
+export function normalizeAccessCode(input: string): string {
+  const raw = input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return raw.length === 8 ? `${raw.slice(0, 4)}-${raw.slice(4)}` : raw;
+}
+
+/** Constant-time code comparison. */
+export function accessCodesEqual(a: string, b: string): boolean {
+  const ba = Buffer.from(a);
+  const bb = Buffer.from(b);
+  return ba.length === bb.length && timingSafeEqual(ba, bb);
+}
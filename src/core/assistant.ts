@@ -1,6 +1,10 @@
 import type { LanguageModel, ToolSet, ModelMessage } from 'ai';
-import { runAgent, runAgentStream, type StreamCallbacks } from '../ai/agent.js';
+import { runAgent, runAgentStream, type StreamCallbacks, type ToolCallEvent, type UsageReport } from '../ai/agent.js';
 import { createModel, type AiConfig } from '../ai/model-factory.js';
+import type { RequestContext } from '../ai/request-context.js';
+import type { ApprovalGate } from '../ai/approval-gate.js';
+import { routeTools } from '../ai/tool-router.js';
+import { BudgetExceededError, type BudgetStatus } from './budget.js';
 
 const MAX_TOOL_ROUNDS = 10;
 
@@ -26,6 +30,8 @@ export interface ChatMessage {
   fileType?: string | null;
   mimeType?: string | null;
   fileName?: string | null;
+  /** Group chats: who wrote this message. */
+  senderName?: string | null;
 }
 
 export interface ProcessResult {
@@ -35,9 +41,19 @@ export interface ProcessResult {
 }
 
 export interface UsageCallback {
-  (usage: { model: string; inputTokens: number; outputTokens: number }): void;
+  (usage: UsageReport, context: RequestContext): void;
 }
 
+export interface ToolCallCallback {
+  (event: ToolCallEvent, context: RequestContext): void;
+}
+
+/** Returns the hard-capped budget a provider has exhausted, if any. */
+export type BudgetGuard = (provider: string) => BudgetStatus | undefined;
+
+/** Static prompt, or a builder invoked per request (profile, memory and language are per chat). */
+export type SystemPrompt = string | ((context: RequestContext) => string);
+
 function getModelId(model: LanguageModel): string {
   return typeof model === 'string' ? model : model.modelId;
 }
@@ -47,6 +63,13 @@ function estimateTokens(text: string): number {
   return Math.ceil(text.length / 4);
 }
 
+/** Messages the tool router matches against: the new one plus the last exchange, for follow-ups like "do it again". */
+const ROUTING_HISTORY = 2;
+
+function routingQuery(userMessage: string, history?: ChatMessage[]): string {
+  return [...(history ?? []).slice(-ROUTING_HISTORY).map((m) => m.text), userMessage].join('\n');
+}
+
 /** Patterns that indicate the error is provider-side and worth retrying with a fallback. */
 const RETRIABLE_PATTERNS = [
   // Rate limit
@@ -66,55 +89,86 @@ function isRetriableForFailover(err: unknown): boolean {
 
 export class Assistant {
   private model: LanguageModel;
+  private provider?: string;
   private tools: ToolSet;
-  private systemPrompt: string;
+  private systemPrompt: SystemPrompt;
   private onUsage?: UsageCallback;
   private fallbackConfigs: AiConfig[];
+  private approval?: ApprovalGate;
+  private onToolCall?: ToolCallCallback;
+  private budgetGuard?: BudgetGuard;
 
   constructor(opts: {
     model: LanguageModel;
+    /** Provider of the primary model, for cost accounting. */
+    provider?: string;
     tools: ToolSet;
-    systemPrompt: string;
+    systemPrompt: SystemPrompt;
     onUsage?: UsageCallback;
     fallbackConfigs?: AiConfig[];
+    approval?: ApprovalGate;
+    onToolCall?: ToolCallCallback;
+    budgetGuard?: BudgetGuard;
   }) {
     this.model = opts.model;
+    this.provider = opts.provider;
     this.tools = opts.tools;
     this.systemPrompt = opts.systemPrompt;
     this.onUsage = opts.onUsage;
     this.fallbackConfigs = opts.fallbackConfigs ?? [];
+    this.approval = opts.approval;
+    this.onToolCall = opts.onToolCall;
+    this.budgetGuard = opts.budgetGuard;
   }
 
-  async process(userMessage: string, history?: ChatMessage[], attachments?: Attachment[]): Promise<ProcessResult> {
-    const messages = this.buildMessages(userMessage, history, attachments);
+  /**
+   * Swap tools in place (skill hot reload). Requests already running keep
+   * the tool set they started with.
+   */
+  replaceTools(removed: string[], added: ToolSet): void {
+    const tools = { ...this.tools };
+    for (const name of removed) delete tools[name];
+    this.tools = { ...tools, ...added };
+  }
+
+  async process(
+    userMessage: string,
+    history?: ChatMessage[],
+    attachments?: Attachment[],
+    context: RequestContext = {},
+  ): Promise<ProcessResult> {
+    const system = this.resolveSystemPrompt(context);
+    const routing = routeTools(this.tools, routingQuery(userMessage, history));
+    const tools = routing?.tools ?? this.tools;
+    const messages = this.buildMessages(system, userMessage, history, attachments, routing?.active.size ?? Object.keys(tools).length);
 
     // Try primary model first, then fallbacks on retriable errors
     let lastError: unknown;
-    const attempts: Array<{ model: LanguageModel; label: string; config?: AiConfig }> = [
-      { model: this.model, label: 'primary' },
-      ...this.fallbackConfigs.map((cfg) => ({
-        model: createModel(cfg),
-        label: `${cfg.provider}/${cfg.model}`,
-        config: cfg,
-      })),
-    ];
+    const attempts = this.buildAttempts();
 
     for (const attempt of attempts) {
       try {
-        const { text, usage } = await runAgent({
+        const startedAt = Date.now();
+        const { text, usage, steps } = await runAgent({
           model: attempt.model,
-          system: this.systemPrompt,
+          system,
           messages,
-          tools: this.tools,
+          tools,
+          activeTools: routing?.active,
           maxSteps: MAX_TOOL_ROUNDS,
+          context,
+          approval: this.approval,
+          onToolCall: this.toolCallListener(context),
         });
 
         if (this.onUsage) {
           this.onUsage({
+            provider: attempt.config?.provider ?? this.provider,
             model: getModelId(attempt.model),
-            inputTokens: usage.inputTokens,
-            outputTokens: usage.outputTokens,
-          });
+            ...usage,
+            steps,
+            latencyMs: Date.now() - startedAt,
+          }, context);
         }
 
         return { text, switchedTo: attempt.config };
@@ -137,36 +191,40 @@ export class Assistant {
     history: ChatMessage[] | undefined,
     callbacks: StreamCallbacks,
     attachments?: Attachment[],
+    context: RequestContext = {},
   ): Promise<ProcessResult> {
-    const messages = this.buildMessages(userMessage, history, attachments);
+    const system = this.resolveSystemPrompt(context);
+    const routing = routeTools(this.tools, routingQuery(userMessage, history));
+    const tools = routing?.tools ?? this.tools;
+    const messages = this.buildMessages(system, userMessage, history, attachments, routing?.active.size ?? Object.keys(tools).length);
 
     let lastError: unknown;
-    const attempts: Array<{ model: LanguageModel; label: string; config?: AiConfig }> = [
-      { model: this.model, label: 'primary' },
-      ...this.fallbackConfigs.map((cfg) => ({
-        model: createModel(cfg),
-        label: `${cfg.provider}/${cfg.model}`,
-        config: cfg,
-      })),
-    ];
+    const attempts = this.buildAttempts();
 
     for (const attempt of attempts) {
       try {
-        const { text, usage } = await runAgentStream({
+        const startedAt = Date.now();
+        const { text, usage, steps } = await runAgentStream({
           model: attempt.model,
-          system: this.systemPrompt,
+          system,
           messages,
-          tools: this.tools,
+          tools,
+          activeTools: routing?.active,
           maxSteps: MAX_TOOL_ROUNDS,
           callbacks,
+          context,
+          approval: this.approval,
+          onToolCall: this.toolCallListener(context),
         });
 
         if (this.onUsage) {
           this.onUsage({
+            provider: attempt.config?.provider ?? this.provider,
             model: getModelId(attempt.model),
-            inputTokens: usage.inputTokens,
-            outputTokens: usage.outputTokens,
-          });
+            ...usage,
+            steps,
+            latencyMs: Date.now() - startedAt,
+          }, context);
         }
 
         return { text, switchedTo: attempt.config };
@@ -183,18 +241,59 @@ export class Assistant {
     throw lastError;
   }
 
-  private buildMessages(userMessage: string, history?: ChatMessage[], attachments?: Attachment[]): ModelMessage[] {
+  /** Primary model first, then fallbacks — minus providers over a hard spending cap. */
+  private buildAttempts(): Array<{ model: LanguageModel; label: string; config?: AiConfig }> {
+    const candidates = [
+      { model: this.model, label: 'primary', provider: this.provider },
+      ...this.fallbackConfigs.map((cfg) => ({
+        model: createModel(cfg),
+        label: `${cfg.provider}/${cfg.model}`,
+        provider: cfg.provider as string | undefined,
+        config: cfg,
+      })),
+    ];
+    if (!this.budgetGuard) return candidates;
+
+    let firstCapped: BudgetStatus | undefined;
+    const attempts = candidates.filter((c, i) => {
+      const capped = c.provider ? this.budgetGuard!(c.provider) : undefined;
+      if (!capped) return true;
+      // 'refuse' on the primary stops the request; capped fallbacks are simply left out
+      if (i === 0 && capped.hardCap === 'refuse') throw new BudgetExceededError(capped);
+      firstCapped ??= capped;
+      console.warn(`[budget] ${c.label} is over its ${capped.period} cap, skipping`);
+      return false;
+    });
+    if (attempts.length === 0) throw new BudgetExceededError(firstCapped!);
+    return attempts;
+  }
+
+  private toolCallListener(context: RequestContext) {
+    const onToolCall = this.onToolCall;
+    return onToolCall ? (event: ToolCallEvent) => onToolCall(event, context) : undefined;
+  }
+
+  private resolveSystemPrompt(context: RequestContext): string {
+    return typeof this.systemPrompt === 'string' ? this.systemPrompt : this.systemPrompt(context);
+  }
+
+  private buildMessages(
+    system: string,
+    userMessage: string,
+    history: ChatMessage[] | undefined,
+    attachments: Attachment[] | undefined,
+    toolCount: number,
+  ): ModelMessage[] {
     // Estimate fixed overhead: system prompt + tool definitions
-    const systemTokens = estimateTokens(this.systemPrompt);
-    const toolsTokens = estimateTokens(JSON.stringify(Object.keys(this.tools)));
-    // Each tool definition adds description + schema; rough estimate
-    const toolDefTokens = Object.keys(this.tools).length * 200;
+    const systemTokens = estimateTokens(system);
+    // Each tool definition adds name, description + schema; rough estimate
+    const toolDefTokens = toolCount * 200;
 
     const attachmentTokens = attachments
       ? attachments.reduce((sum, a) => sum + (a.type === 'image' ? 1500 : Math.ceil(a.data.length / 4)), 0)
       : 0;
 
-    const fixedTokens = systemTokens + toolsTokens + toolDefTokens + RESPONSE_RESERVE;
+    const fixedTokens = systemTokens + toolDefTokens + RESPONSE_RESERVE;
     const userMsgTokens = estimateTokens(userMessage) + attachmentTokens;
     let budget = MAX_CONTEXT_TOKENS - fixedTokens - userMsgTokens;
 
@@ -213,6 +312,7 @@ export class Assistant {
             : `[Attached: ${m.fileName || 'document'}]`;
           text = `${label}\n${text}`;
         }
+        if (m.role === 'user' && m.senderName) text = `[${m.senderName}]: ${text}`;
         const truncated = text.length > 1000 ? text.slice(0, 1000) + '...' : text;
         const tokens = estimateTokens(truncated);
         if (tokens > budget) break;
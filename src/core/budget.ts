@@ -0,0 +1,71 @@
+import type { ConfigManager } from './config-manager.js';
+import type { ProviderBudget } from './types.js';
+import type { UsageRepository } from '../db/usage-repository.js';
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+export interface BudgetStatus {
+  provider: string;
+  period: BudgetPeriod;
+  /** 'YYYY-MM-DD' for daily limits, 'YYYY-MM' for monthly ones (UTC). */
+  periodKey: string;
+  limit: number;
+  spent: number;
+  percent: number;
+  hardCap?: ProviderBudget['hardCap'];
+}
+
+/** Thrown when a provider is over a hard cap and no fallback may be used. */
+export class BudgetExceededError extends Error {
+  constructor(public readonly status: BudgetStatus) {
+    super(
+      `Spending cap reached for ${status.provider}: ${status.period} spend is `
+      + `${formatUsd(status.spent)} of ${formatUsd(status.limit)}. `
+      + 'Raise the limit in config.json or switch provider via /settings.',
+    );
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export function formatUsd(n: number): string {
+  return `$${n.toFixed(2)}`;
+}
+
+/** Current spend against every configured limit. */
+export function getBudgetStatuses(configManager: ConfigManager, usageRepo: UsageRepository): BudgetStatus[] {
+  const today = new Date().toISOString().slice(0, 10);
+  const month = today.slice(0, 7);
+  const statuses: BudgetStatus[] = [];
+
+  for (const [provider, budget] of Object.entries(configManager.getBudgets().providers)) {
+    const limits: Array<[BudgetPeriod, number | undefined, string, string]> = [
+      ['daily', budget.daily, today, today],
+      ['monthly', budget.monthly, month, `${month}-01`],
+    ];
+    for (const [period, limit, periodKey, from] of limits) {
+      if (!limit || limit <= 0) continue;
+      const spent = usageRepo.getProviderSpend(provider, from, today);
+      statuses.push({
+        provider, period, periodKey, limit, spent,
+        percent: Math.round((spent / limit) * 100),
+        hardCap: budget.hardCap,
+      });
+    }
+  }
+  return statuses;
+}
+
+/** The hard-capped limit this provider has reached, if any. */
+export function findExceededCap(
+  configManager: ConfigManager,
+  usageRepo: UsageRepository,
+  provider: string,
+): BudgetStatus | undefined {
+  return getBudgetStatuses(configManager, usageRepo)
+    .find((s) => s.provider === provider && s.hardCap && s.spent >= s.limit);
+}
+
+export function formatBudgetStatus(status: BudgetStatus): string {
+  const cap = status.hardCap && status.spent >= status.limit ? ' ⛔' : '';
+  return `${status.provider} · ${status.period}: ${formatUsd(status.spent)} / ${formatUsd(status.limit)} (${status.percent}%)${cap}`;
+}
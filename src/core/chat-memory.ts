@@ -0,0 +1,26 @@
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+
+/** Persistent memory lives in `<memoryDir>/<chatId>/MEMORY.md`, one file per chat. */
+function chatMemoryFile(memoryDir: string, chatId: number): string {
+  return join(memoryDir, String(chatId), 'MEMORY.md');
+}
+
+/**
+ * Read a chat's memory. The owner falls back to the legacy single-user
+ * `<memoryDir>/MEMORY.md` until their first save.
+ */
+export function readChatMemory(memoryDir: string, chatId: number, isOwner: boolean): string | undefined {
+  const file = chatMemoryFile(memoryDir, chatId);
+  if (existsSync(file)) return readFileSync(file, 'utf-8').trim() || undefined;
+
+  const legacy = join(memoryDir, 'MEMORY.md');
+  if (isOwner && existsSync(legacy)) return readFileSync(legacy, 'utf-8').trim() || undefined;
+  return undefined;
+}
+
+export function writeChatMemory(memoryDir: string, chatId: number, content: string): void {
+  const file = chatMemoryFile(memoryDir, chatId);
+  mkdirSync(join(memoryDir, String(chatId)), { recursive: true });
+  writeFileSync(file, content, 'utf-8');
+}
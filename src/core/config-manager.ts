@@ -1,11 +1,32 @@
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'node:fs';
 import { join } from 'node:path';
 import { homedir } from 'node:os';
-import type { ZarukaConfig, AiProviderConfig, ResourceThresholds, UserProfile, McpServerConfig } from './types.js';
+import type { ZarukaConfig, AiProviderConfig, ResourceThresholds, UserProfile, McpServerConfig, ChatRole, AllowedChat, ChatSettings, GroupPolicy, ToolApprovalPolicy, ToolClass, ModelPrice, BudgetConfig } from './types.js';
+import { generateAccessCode, normalizeAccessCode, accessCodesEqual } from './access.js';
+import { getVault } from '../vault/vault.js';
+import { hydrateConfigSecrets, stripConfigSecrets } from '../vault/config-secrets.js';
 
 const ZARUKA_DIR = process.env.ZARUKA_DATA_DIR || join(homedir(), '.zaruka');
 const CONFIG_PATH = join(ZARUKA_DIR, 'config.json');
 
+const INVITE_TTL_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_GROUP_POLICY: GroupPolicy = {
+  mention: true,
+  reply: true,
+  keywords: [],
+};
+
+/** Messages of context fed to the model — groups need more to follow several speakers. */
+const DEFAULT_HISTORY_WINDOW = { private: 4, group: 12 };
+
+const DEFAULT_TOOL_APPROVAL: ToolApprovalPolicy = {
+  classes: ['destructive'],
+  alwaysAllow: [],
+};
+
+const DEFAULT_BUDGET_ALERTS = [80, 100];
+
 const DEFAULT_THRESHOLDS: ResourceThresholds = {
   cpuPercent: 90,
   ramPercent: 85,
@@ -26,6 +47,18 @@ export class ConfigManager {
         thresholds: { ...DEFAULT_THRESHOLDS },
       };
     }
+
+    // Migrate first-chat-wins ownership into the allowlist
+    const owner = this.config.telegram.chatId;
+    if (owner && !this.config.telegram.allowlist?.[String(owner)]) {
+      this.config.telegram.allowlist = {
+        ...this.config.telegram.allowlist,
+        [String(owner)]: { role: 'owner', addedAt: new Date().toISOString() },
+      };
+    }
+
+    // API keys and tokens live in the encrypted vault, not in config.json
+    if (hydrateConfigSecrets(this.config, getVault())) this.save();
   }
 
   getConfig(): ZarukaConfig {
@@ -36,9 +69,104 @@ export class ConfigManager {
     return this.config.telegram.chatId;
   }
 
-  setChatId(chatId: number): void {
-    this.config.telegram.chatId = chatId;
+  // === Access control ===
+
+  getChatRole(chatId: number): ChatRole | undefined {
+    return this.config.telegram.allowlist?.[String(chatId)]?.role;
+  }
+
+  getAllowlist(): Record<string, AllowedChat> {
+    return this.config.telegram.allowlist ?? {};
+  }
+
+  /** Add or update an allowlisted chat. Assigning 'owner' demotes the previous owner to member. */
+  setChatRole(chatId: number, role: ChatRole, name?: string): void {
+    const allowlist = { ...this.config.telegram.allowlist };
+    const key = String(chatId);
+
+    if (role === 'owner') {
+      const previous = this.config.telegram.chatId;
+      if (previous && previous !== chatId && allowlist[String(previous)]) {
+        allowlist[String(previous)] = { ...allowlist[String(previous)], role: 'member' };
+      }
+      this.config.telegram.chatId = chatId;
+      delete this.config.telegram.pairingCode;
+    }
+
+    allowlist[key] = {
+      ...allowlist[key],
+      role,
+      ...(name ? { name } : {}),
+      addedAt: allowlist[key]?.addedAt ?? new Date().toISOString(),
+    };
+    this.config.telegram.allowlist = allowlist;
+    this.save();
+  }
+
+  /** Remove a chat from the allowlist. The owner cannot be removed. */
+  removeChat(chatId: number): boolean {
+    const key = String(chatId);
+    if (!this.config.telegram.allowlist?.[key]) return false;
+    if (this.config.telegram.chatId === chatId) return false;
+    delete this.config.telegram.allowlist[key];
     this.save();
+    return true;
+  }
+
+  /** Return the pending pairing code, generating one if no owner is paired yet. */
+  ensurePairingCode(): string | undefined {
+    if (this.config.telegram.chatId) return undefined;
+    if (!this.config.telegram.pairingCode) {
+      this.config.telegram.pairingCode = generateAccessCode();
+      this.save();
+    }
+    return this.config.telegram.pairingCode;
+  }
+
+  /** Claim ownership with the pairing code. Returns true if the code matched. */
+  claimOwnership(code: string, chatId: number, name?: string): boolean {
+    const expected = this.config.telegram.pairingCode;
+    if (!expected || this.config.telegram.chatId) return false;
+    if (!accessCodesEqual(normalizeAccessCode(code), expected)) return false;
+    this.setChatRole(chatId, 'owner', name);
+    return true;
+  }
+
+  createInvite(role: Exclude<ChatRole, 'owner'>): string {
+    const code = generateAccessCode();
+    const now = Date.now();
+    this.config.telegram.invites = {
+      ...this.pruneInvites(now),
+      [code]: {
+        role,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + INVITE_TTL_MS).toISOString(),
+      },
+    };
+    this.save();
+    return code;
+  }
+
+  /** Redeem an invite code. Returns the granted role, or undefined if the code is invalid or expired. */
+  redeemInvite(code: string, chatId: number, name?: string): ChatRole | undefined {
+    const invites = this.pruneInvites(Date.now());
+    const normalized = normalizeAccessCode(code);
+    const match = Object.keys(invites).find((c) => accessCodesEqual(c, normalized));
+    if (!match) return undefined;
+
+    const { role } = invites[match];
+    delete invites[match];
+    this.config.telegram.invites = invites;
+    this.setChatRole(chatId, role, name);
+    return role;
+  }
+
+  private pruneInvites(now: number): NonNullable<ZarukaConfig['telegram']['invites']> {
+    const invites = { ...this.config.telegram.invites };
+    for (const [code, invite] of Object.entries(invites)) {
+      if (new Date(invite.expiresAt).getTime() <= now) delete invites[code];
+    }
+    return invites;
   }
 
   getModel(): string {
@@ -71,24 +199,85 @@ export class ConfigManager {
     return this.config.savedProviders?.[provider];
   }
 
-  getProfile(): UserProfile | undefined {
-    return this.config.profile;
+  // === Per-chat settings ===
+
+  private getChatSettings(chatId: number): ChatSettings | undefined {
+    return this.config.chats?.[String(chatId)];
   }
 
-  updateProfile(profile: Partial<UserProfile>): void {
-    this.config.profile = { ...this.config.profile, ...profile };
+  private updateChatSettings(chatId: number, patch: Partial<ChatSettings>): void {
+    const key = String(chatId);
+    this.config.chats = {
+      ...this.config.chats,
+      [key]: { ...this.config.chats?.[key], ...patch },
+    };
     this.save();
   }
 
+  /** Profile of the given chat. The owner falls back to the legacy global profile. */
+  getProfile(chatId: number): UserProfile | undefined {
+    const own = this.getChatSettings(chatId)?.profile;
+    if (own) return own;
+    return chatId === this.config.telegram.chatId ? this.config.profile : undefined;
+  }
+
+  updateProfile(chatId: number, profile: Partial<UserProfile>): void {
+    const merged = { ...this.getProfile(chatId), ...profile };
+    if (chatId === this.config.telegram.chatId) delete this.config.profile;
+    this.updateChatSettings(chatId, { profile: merged });
+  }
+
   updateTimezone(tz: string): void {
     this.config.timezone = tz;
     this.save();
   }
 
+  /** Effective group policy: global defaults merged with the group's overrides. */
+  getGroupPolicy(chatId: number): GroupPolicy {
+    return {
+      ...DEFAULT_GROUP_POLICY,
+      ...this.config.groupPolicy,
+      ...this.getChatSettings(chatId)?.group,
+    };
+  }
+
+  updateGroupPolicy(chatId: number, patch: Partial<GroupPolicy>): void {
+    this.updateChatSettings(chatId, { group: { ...this.getChatSettings(chatId)?.group, ...patch } });
+  }
+
+  /** How many recent messages of this chat the model sees verbatim. */
+  getHistoryWindow(chatId: number, isGroup: boolean): number {
+    return this.getChatSettings(chatId)?.historyWindow
+      ?? (isGroup ? DEFAULT_HISTORY_WINDOW.group : DEFAULT_HISTORY_WINDOW.private);
+  }
+
+  updateHistoryWindow(chatId: number, size: number): void {
+    this.updateChatSettings(chatId, { historyWindow: size });
+  }
+
   getLanguage(): string {
     return this.config.language || 'auto';
   }
 
+  /**
+   * Language for a specific chat. The owner's language is the global one
+   * (it also drives UI translations); other chats inherit it until they pick their own.
+   */
+  getChatLanguage(chatId: number): string {
+    if (chatId === this.config.telegram.chatId) return this.getLanguage();
+    return this.getChatSettings(chatId)?.language || this.getLanguage();
+  }
+
+  /** Set a chat's language. Returns true if the global UI language changed. */
+  updateChatLanguage(chatId: number, language: string): boolean {
+    if (chatId === this.config.telegram.chatId) {
+      this.updateLanguage(language);
+      return true;
+    }
+    this.updateChatSettings(chatId, { language });
+    return false;
+  }
+
   updateLanguage(language: string): void {
     this.config.language = language;
     delete this.config.uiTranslations;
@@ -210,10 +399,46 @@ export class ConfigManager {
     return true;
   }
 
-  /** Wipe all data except the Telegram bot token. Returns a fresh minimal config. */
+  getToolApproval(): ToolApprovalPolicy {
+    return { ...DEFAULT_TOOL_APPROVAL, ...this.config.toolApproval };
+  }
+
+  /** Whether a call to this tool must wait for the owner's decision. */
+  requiresApproval(toolName: string, toolClass: ToolClass): boolean {
+    const policy = this.getToolApproval();
+    return policy.classes.includes(toolClass) && !policy.alwaysAllow.includes(toolName);
+  }
+
+  updateApprovalClasses(classes: ToolClass[]): void {
+    this.config.toolApproval = { ...this.getToolApproval(), classes };
+    this.save();
+  }
+
+  /** Remember "Always allow" for a tool. */
+  allowToolAlways(toolName: string): void {
+    const policy = this.getToolApproval();
+    if (policy.alwaysAllow.includes(toolName)) return;
+    this.config.toolApproval = { ...policy, alwaysAllow: [...policy.alwaysAllow, toolName] };
+    this.save();
+  }
+
+  /** User price overrides (USD per 1M tokens), keyed by "provider/model" or model prefix. */
+  getPricingOverrides(): Record<string, ModelPrice> {
+    return this.config.pricing ?? {};
+  }
+
+  getBudgets(): Required<BudgetConfig> {
+    return {
+      alertAt: this.config.budgets?.alertAt ?? DEFAULT_BUDGET_ALERTS,
+      providers: this.config.budgets?.providers ?? {},
+    };
+  }
+
+  /** Wipe all data except the Telegram bot token and allowlist. Returns a fresh minimal config. */
   resetAll(): ZarukaConfig {
+    const { botToken, chatId, allowlist } = this.config.telegram;
     const fresh: ZarukaConfig = {
-      telegram: { botToken: this.config.telegram.botToken },
+      telegram: { botToken, chatId, allowlist },
       timezone: 'UTC',
       reminderCron: '0 9 * * *',
     };
@@ -226,6 +451,6 @@ export class ConfigManager {
     if (!existsSync(ZARUKA_DIR)) {
       mkdirSync(ZARUKA_DIR, { recursive: true });
     }
-    writeFileSync(CONFIG_PATH, JSON.stringify(this.config, null, 2));
+    writeFileSync(CONFIG_PATH, JSON.stringify(stripConfigSecrets(this.config, getVault()), null, 2), { mode: 0o600 });
   }
 }
@@ -0,0 +1,128 @@
+import { generateText, type LanguageModel } from 'ai';
+import { toAgentUsage, type UsageListener } from '../ai/agent.js';
+import type { MessageRepository, StoredMessage } from '../db/message-repository.js';
+import type { SummaryRepository } from '../db/summary-repository.js';
+import type { BudgetGuard } from './assistant.js';
+
+/** Summarize once this many messages have dropped out of the history window. */
+const SUMMARIZE_AFTER = 20;
+
+/** Messages folded in per run, so a long backlog is caught up in several small requests. */
+const MAX_BATCH = 200;
+
+/** Long messages are cut in the transcript — the gist is enough for a summary. */
+const MESSAGE_CHARS = 1000;
+
+/** The summary rides along in every system prompt, so it has to stay short. */
+const MAX_SUMMARY_CHARS = 4000;
+
+const SYSTEM = [
+  'You maintain the long-term summary of a conversation between a user and their AI assistant.',
+  'Merge the previous summary with the new messages into one updated summary.',
+  'Keep: facts about the user, decisions, preferences, open questions and promises, ongoing projects, names, dates, links.',
+  'Drop: greetings, small talk, anything superseded by later messages.',
+  'Keep [secret:NAME] placeholders as they are. Never reproduce keys or passwords.',
+  'Write terse bullet points in the language the conversation is mostly in, oldest topics first.',
+  `Stay under ${MAX_SUMMARY_CHARS} characters. Output ONLY the summary.`,
+].join('\n');
+
+export interface SummaryModel {
+  model: LanguageModel;
+  provider: string;
+}
+
+function transcriptLine(m: StoredMessage): string {
+  const speaker = m.role === 'assistant' ? 'Assistant' : m.sender_name ? `User (${m.sender_name})` : 'User';
+  const attachment = m.file_type ? ` [attached ${m.file_type === 'photo' ? 'photo' : m.file_name || 'document'}]` : '';
+  const text = m.text.length > MESSAGE_CHARS ? m.text.slice(0, MESSAGE_CHARS) + '...' : m.text;
+  return `[${m.created_at}] ${speaker}:${attachment} ${text}`;
+}
+
+/**
+ * Rolling conversation summaries. The model sees a chat's recent messages
+ * verbatim; everything older is folded into a per-chat summary that goes into
+ * the system prompt, so long conversations keep their continuity.
+ */
+export class ConversationSummarizer {
+  private messageRepo: MessageRepository;
+  private summaryRepo: SummaryRepository;
+  private getModel: () => SummaryModel | null;
+  private onUsage?: UsageListener;
+  private budgetGuard?: BudgetGuard;
+  /** Chats with a summary request in flight. */
+  private running = new Set<number>();
+
+  constructor(
+    messageRepo: MessageRepository,
+    summaryRepo: SummaryRepository,
+    getModel: () => SummaryModel | null,
+    onUsage?: UsageListener,
+    budgetGuard?: BudgetGuard,
+  ) {
+    this.messageRepo = messageRepo;
+    this.summaryRepo = summaryRepo;
+    this.getModel = getModel;
+    this.onUsage = onUsage;
+    this.budgetGuard = budgetGuard;
+  }
+
+  /** Latest summary of the chat's older messages, for the system prompt. */
+  latest(chatId: number): string | undefined {
+    return this.summaryRepo.latest(chatId)?.summary;
+  }
+
+  /**
+   * Fold messages that have left the history window into the chat's summary.
+   * Does nothing until enough of them have piled up, while a run for the
+   * same chat is in progress, or while the provider is over a hard spending
+   * cap — the summary has no fallback model. Returns true if a new summary was saved.
+   */
+  async update(chatId: number, historyWindow: number): Promise<boolean> {
+    if (this.running.has(chatId)) return false;
+    const ai = this.getModel();
+    if (!ai) return false;
+
+    const previous = this.summaryRepo.latest(chatId);
+    const pending = this.messageRepo.getUnsummarized(chatId, previous?.up_to_message_id ?? 0, historyWindow, MAX_BATCH);
+    if (pending.length < SUMMARIZE_AFTER) return false;
+
+    const capped = this.budgetGuard?.(ai.provider);
+    if (capped) {
+      console.warn(`[budget] ${ai.provider} is over its ${capped.period} cap, skipping summary for chat ${chatId}`);
+      return false;
+    }
+
+    this.running.add(chatId);
+    try {
+      const startedAt = Date.now();
+      const result = await generateText({
+        model: ai.model,
+        system: SYSTEM,
+        prompt: [
+          '<previous_summary>',
+          previous?.summary ?? 'None yet — this is the start of the conversation.',
+          '</previous_summary>',
+          '',
+          '<new_messages>',
+          ...pending.map(transcriptLine),
+          '</new_messages>',
+        ].join('\n'),
+      });
+      this.onUsage?.({
+        provider: ai.provider,
+        model: result.response.modelId,
+        ...toAgentUsage(result.totalUsage),
+        steps: result.steps.length,
+        latencyMs: Date.now() - startedAt,
+      }, { chatId, source: 'summary' });
+
+      const summary = result.text.trim().slice(0, MAX_SUMMARY_CHARS);
+      if (!summary) return false;
+      this.summaryRepo.save(chatId, summary, pending[pending.length - 1].id, (previous?.message_count ?? 0) + pending.length);
+      console.log(`[chat:${chatId}] Summarized ${pending.length} older message(s)`);
+      return true;
+    } finally {
+      this.running.delete(chatId);
+    }
+  }
+}
@@ -1,22 +1,60 @@
 // === Task Model ===
 
+/** What to do with occurrences that passed while the bot was down: run the latest once, run each, or drop them. */
+export type CatchUpPolicy = 'once' | 'all' | 'skip';
+
+/** When an action task messages the user: after every run, when the result changed, or when its condition holds. */
+export type NotifyPolicy = 'always' | 'changed' | 'condition';
+
 export interface Task {
   id: number;
   title: string;
   description: string | null;
   due_date: string | null;
   due_time: string;               // HH:MM, default '12:00'
+  timezone: string | null;        // IANA zone of due_date/due_time (null = the bot's timezone)
+  next_fire_at: string | null;    // absolute fire time, ISO 8601 UTC
   recurrence: string | null;      // null | RRULE string (e.g. 'FREQ=DAILY', 'FREQ=HOURLY;INTERVAL=3')
   action: string | null;          // AI instruction (null = simple reminder)
+  catch_up: CatchUpPolicy;        // missed occurrences, default 'once'
+  notify_policy: NotifyPolicy;    // action tasks: when to message the user, default 'always'
+  notify_condition: string | null; // 'condition' policy: what must hold for the user to be messaged
   status: 'active' | 'completed' | 'deleted' | 'paused';
   source: string;
   source_ref: string | null;
-  reminder_days: number;
-  notified_at: string | null;
+  reminder_days: number;          // one-time reminders: advance notice this many days ahead (0 = none)
+  notified_at: string | null;     // last notice or reminder for the current occurrence, ISO 8601; cleared when acknowledged
+  escalate_minutes: number | null; // re-send an unacknowledged reminder this often (null = once)
+  escalations: number;            // re-sends so far for the current occurrence
+  snoozed_until: string | null;   // re-send the reminder at this instant, ISO 8601
+  fired_at: string | null;        // one-time task fired and kept for acknowledgement or a snooze, ISO 8601; never fires again on its due time
   created_at: string;
   updated_at: string;
 }
 
+/** What started a task run: its schedule, catch-up after downtime, or the "Run now" button. */
+export type TaskRunTrigger = 'schedule' | 'catch_up' | 'manual';
+
+/** One execution of an action task. */
+export interface TaskRun {
+  id: number;
+  task_id: number;
+  trigger: TaskRunTrigger;
+  scheduled_for: string | null;   // occurrence in the task's local time, 'YYYY-MM-DD HH:MM' (null for manual runs)
+  duration_ms: number;
+  success: number;
+  output: string;                 // AI response or error message, truncated
+  state: string | null;           // tracked value(s) the AI reported, compared between runs
+  notified: number;               // whether the user was messaged
+  created_at: string;
+}
+
+/** A finished run: its stored record, and the full answer to send (the stored output is redacted and truncated). */
+export interface TaskRunResult {
+  run: TaskRun;
+  text: string;
+}
+
 // === Resource Monitoring ===
 
 export interface ResourceThresholds {
@@ -48,6 +86,88 @@ export interface UserProfile {
   birthday?: string; // MM-DD format
 }
 
+// === Access Control ===
+
+/** owner — full control; member — chat with the assistant; readonly — view tasks, usage and status only. */
+export type ChatRole = 'owner' | 'member' | 'readonly';
+
+export interface AllowedChat {
+  role: ChatRole;
+  name?: string;
+  addedAt: string;
+}
+
+export interface InviteCode {
+  role: Exclude<ChatRole, 'owner'>;
+  createdAt: string;
+  expiresAt: string;
+}
+
+// === Group Chats ===
+
+/** When the bot should respond in a group chat. It never answers every message. */
+export interface GroupPolicy {
+  /** Respond when the bot is @mentioned. */
+  mention: boolean;
+  /** Respond when someone replies to one of the bot's messages. */
+  reply: boolean;
+  /** Respond when a message contains one of these words (case-insensitive). */
+  keywords: string[];
+}
+
+// === Per-Chat Settings ===
+
+export interface ChatSettings {
+  profile?: UserProfile;
+  language?: string;
+  /** Group chats only: overrides for the global group policy. */
+  group?: Partial<GroupPolicy>;
+  /** Recent messages sent to the model verbatim; older ones reach it through the conversation summary. */
+  historyWindow?: number;
+}
+
+// === Tool Approval ===
+
+/** read — no side effects; mutating — changes assistant data; destructive — touches the host or removes things. */
+export type ToolClass = 'read' | 'mutating' | 'destructive';
+
+export interface ToolApprovalPolicy {
+  /** Tool classes that wait for the owner's approval before executing. */
+  classes: ToolClass[];
+  /** Tools the owner chose to "Always allow". */
+  alwaysAllow: string[];
+}
+
+// === Pricing ===
+
+/** Model prices in USD per 1M tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  /** Cached input read; defaults to the input price. */
+  cacheRead?: number;
+  /** Cache creation; defaults to the input price. */
+  cacheWrite?: number;
+}
+
+// === Budgets ===
+
+export interface ProviderBudget {
+  /** USD per UTC day. */
+  daily?: number;
+  /** USD per calendar month (UTC). */
+  monthly?: number;
+  /** Once a limit is reached: refuse requests, or fall back to another configured provider. Omit to only alert. */
+  hardCap?: 'refuse' | 'fallback';
+}
+
+export interface BudgetConfig {
+  /** Warn when spend crosses these percentages of a limit. Default: 80 and 100. */
+  alertAt?: number[];
+  /** Limits keyed by provider name (e.g. "anthropic"). */
+  providers: Record<string, ProviderBudget>;
+}
+
 // === MCP Server Config ===
 
 export interface McpStdioConfig {
@@ -82,12 +202,24 @@ export type AiProviderConfig = {
 export interface ZarukaConfig {
   telegram: {
     botToken: string;
+    /** Owner chat — receives reminders, alerts and access requests. */
     chatId?: number;
+    /** Chats allowed to talk to the bot, keyed by chat ID. */
+    allowlist?: Record<string, AllowedChat>;
+    /** One-time code that claims ownership. Cleared once an owner is paired. */
+    pairingCode?: string;
+    /** Outstanding invite codes issued by the owner, keyed by code. */
+    invites?: Record<string, InviteCode>;
   };
   ai?: AiProviderConfig;
   /** Previously configured providers, keyed by provider name. */
   savedProviders?: Record<string, AiProviderConfig>;
+  /** Legacy single-user profile; migrated into `chats[ownerChatId]` on first update. */
   profile?: UserProfile;
+  /** Per-chat profile and preferences, keyed by chat ID. */
+  chats?: Record<string, ChatSettings>;
+  /** Default group chat policy; each group can override it via /settings. */
+  groupPolicy?: GroupPolicy;
   timezone: string;
   language?: string;
   reminderCron: string;
@@ -100,4 +232,10 @@ export interface ZarukaConfig {
   uiTranslations?: { language: string; strings: Record<string, string> };
   /** MCP server configurations (Claude Desktop-compatible format). */
   mcpServers?: Record<string, McpServerConfig>;
+  /** Which tool calls need confirmation in Telegram. */
+  toolApproval?: ToolApprovalPolicy;
+  /** Price overrides keyed by "provider/model" or model ID prefix (e.g. "openai-compatible/llama3"). */
+  pricing?: Record<string, ModelPrice>;
+  /** Spending limits per provider. */
+  budgets?: BudgetConfig;
 }
@@ -0,0 +1,50 @@
+import type Database from 'better-sqlite3';
+import type { ToolClass } from '../core/types.js';
+
+export type ApprovalDecision = 'approved' | 'denied' | 'always' | 'timeout';
+
+export interface ToolApprovalRecord {
+  id: number;
+  chat_id: number | null;
+  tool_name: string;
+  tool_class: ToolClass;
+  input: string;
+  decision: ApprovalDecision | 'pending';
+  decided_by: number | null;
+  created_at: string;
+  decided_at: string | null;
+}
+
+/** Audit trail of gated tool calls and the owner's decisions. */
+export class ApprovalRepository {
+  private db: Database.Database;
+
+  constructor(db: Database.Database) {
+    this.db = db;
+  }
+
+  /** Record a pending approval request. Returns its ID. */
+  create(chatId: number | undefined, toolName: string, toolClass: ToolClass, input: string): number {
+    const result = this.db.prepare(
+      'INSERT INTO tool_approvals (chat_id, tool_name, tool_class, input) VALUES (?, ?, ?, ?)',
+    ).run(chatId ?? null, toolName, toolClass, input);
+    return Number(result.lastInsertRowid);
+  }
+
+  decide(id: number, decision: ApprovalDecision, decidedBy?: number): void {
+    this.db.prepare(
+      "UPDATE tool_approvals SET decision = ?, decided_by = ?, decided_at = datetime('now') WHERE id = ?",
+    ).run(decision, decidedBy ?? null, id);
+  }
+
+  findById(id: number): ToolApprovalRecord | undefined {
+    return this.db.prepare('SELECT * FROM tool_approvals WHERE id = ?').get(id) as ToolApprovalRecord | undefined;
+  }
+
+  /** Requests still marked pending were interrupted by a restart — nobody can answer them now. */
+  expireStale(): void {
+    this.db.prepare(
+      "UPDATE tool_approvals SET decision = 'timeout', decided_at = datetime('now') WHERE decision = 'pending'",
+    ).run();
+  }
+}
@@ -1,4 +1,5 @@
 import type Database from 'better-sqlite3';
+import { redactSecrets, secretPlaceholder, stashPastedSecrets } from '../vault/redaction.js';
 
 export interface StoredMessage {
   id: number;
@@ -10,6 +11,8 @@ export interface StoredMessage {
   file_type?: string | null;
   mime_type?: string | null;
   file_name?: string | null;
+  sender_id?: number | null;
+  sender_name?: string | null;
 }
 
 export interface AttachmentMeta {
@@ -19,6 +22,49 @@ export interface AttachmentMeta {
   fileName?: string;
 }
 
+export interface MessageSender {
+  id: number;
+  name: string;
+}
+
+export interface MessageSearchFilter {
+  role?: 'user' | 'assistant';
+  /** Inclusive bounds, 'YYYY-MM-DD' or full datetime (UTC). */
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface MessageSearchResult extends StoredMessage {
+  /** The matching fragment, with matches wrapped in «». */
+  snippet: string;
+}
+
+/** Words around a match kept in a snippet. */
+const SNIPPET_WORDS = 16;
+/** Characters around a match kept in a snippet when falling back to substring search. */
+const SNIPPET_CHARS = 60;
+
+/**
+ * Turn free text into an FTS5 query: every word must appear, as a word or word
+ * prefix. Quoting keeps FTS5 syntax (AND, NEAR, *, :) in user input literal.
+ */
+function ftsQuery(text: string): string | null {
+  const words = text.match(/[\p{L}\p{N}]+/gu);
+  return words ? words.map((w) => `"${w}"*`).join(' ') : null;
+}
+
+/** Snippet for a substring match, in the same format as FTS5 snippets. */
+function substringSnippet(text: string, query: string): string {
+  const at = text.toLowerCase().indexOf(query.toLowerCase());
+  if (at < 0) return text.slice(0, SNIPPET_CHARS * 2);
+  const start = Math.max(0, at - SNIPPET_CHARS);
+  const end = Math.min(text.length, at + query.length + SNIPPET_CHARS);
+  return (start > 0 ? '…' : '') + text.slice(start, at) + '«' + text.slice(at, at + query.length) + '»'
+    + text.slice(at + query.length, end) + (end < text.length ? '…' : '');
+}
+
 export class MessageRepository {
   private db: Database.Database;
 
@@ -26,17 +72,57 @@ export class MessageRepository {
     this.db = db;
   }
 
-  /** Save a message to persistent history, optionally with file attachment metadata. */
-  save(chatId: number, role: 'user' | 'assistant', text: string, attachment?: AttachmentMeta): void {
-    if (attachment) {
-      this.db.prepare(
-        'INSERT INTO messages (chat_id, role, text, file_id, file_type, mime_type, file_name) VALUES (?, ?, ?, ?, ?, ?, ?)',
-      ).run(chatId, role, text, attachment.fileId, attachment.fileType, attachment.mimeType ?? null, attachment.fileName ?? null);
-    } else {
-      this.db.prepare(
-        'INSERT INTO messages (chat_id, role, text) VALUES (?, ?, ?)',
-      ).run(chatId, role, text);
-    }
+  /**
+   * Save a message to persistent history, optionally with file attachment metadata and sender attribution.
+   * Vault values in the text are replaced with placeholders; user input is expected to have its pasted
+   * secrets stashed already (stashPastedSecrets).
+   */
+  save(chatId: number, role: 'user' | 'assistant', text: string, attachment?: AttachmentMeta, sender?: MessageSender): void {
+    this.db.prepare(
+      'INSERT INTO messages (chat_id, role, text, file_id, file_type, mime_type, file_name, sender_id, sender_name, redacted) '
+      + 'VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 1)',
+    ).run(
+      chatId, role, redactSecrets(text),
+      attachment?.fileId ?? null, attachment?.fileType ?? null, attachment?.mimeType ?? null, attachment?.fileName ?? null,
+      sender?.id ?? null, sender?.name ?? null,
+    );
+  }
+
+  /**
+   * One-time migration: redact messages stored before redaction existed. Rows
+   * are marked as they are done, so later startups find nothing to do; secrets
+   * saved to the vault afterwards are scrubbed right then (redactSecretValue).
+   * Returns the number of rows changed.
+   */
+  redactStored(): number {
+    let changed = 0;
+    const pending = this.db.prepare('SELECT id, role, text FROM messages WHERE redacted = 0').all() as
+      { id: number; role: StoredMessage['role']; text: string }[];
+    if (pending.length === 0) return 0;
+    const update = this.db.prepare('UPDATE messages SET text = ?, redacted = 1 WHERE id = ?');
+    this.db.transaction(() => {
+      for (const row of pending) {
+        const text = row.role === 'user' ? stashPastedSecrets(row.text) : redactSecrets(row.text);
+        update.run(text, row.id);
+        if (text !== row.text) changed++;
+      }
+    })();
+    return changed;
+  }
+
+  /** Replace a secret value with its placeholder in all stored messages (e.g. after it was saved to the vault). */
+  redactSecretValue(value: string, name: string): number {
+    if (value.length < 8) return 0;
+    return this.db.prepare(
+      'UPDATE messages SET text = replace(text, ?, ?) WHERE instr(text, ?) > 0',
+    ).run(value, secretPlaceholder(name), value).changes;
+  }
+
+  /** Point stored placeholders at another vault entry. */
+  renameSecretPlaceholder(from: string, to: string): number {
+    return this.db.prepare(
+      'UPDATE messages SET text = replace(text, ?, ?) WHERE instr(text, ?) > 0',
+    ).run(secretPlaceholder(from), secretPlaceholder(to), secretPlaceholder(from)).changes;
   }
 
   /** Get the last N messages for a chat (for context window). Returned in chronological order. */
@@ -47,6 +133,19 @@ export class MessageRepository {
     return rows.reverse(); // chronological order
   }
 
+  /**
+   * Messages after `afterId` that are older than the newest `keepRecent`, in
+   * chronological order — the part of the conversation not yet summarized.
+   */
+  getUnsummarized(chatId: number, afterId: number, keepRecent: number, limit: number): StoredMessage[] {
+    return this.db.prepare(`
+      SELECT * FROM messages
+      WHERE chat_id = ? AND id > ?
+        AND id < COALESCE((SELECT MIN(id) FROM (SELECT id FROM messages WHERE chat_id = ? ORDER BY id DESC LIMIT ?)), 0)
+      ORDER BY id ASC LIMIT ?
+    `).all(chatId, afterId, chatId, keepRecent, limit) as StoredMessage[];
+  }
+
   /** Get a page of messages for a chat, ordered newest-first. Used for paginated history browsing. */
   getPage(chatId: number, limit: number, offset: number): StoredMessage[] {
     return this.db.prepare(
@@ -54,18 +153,57 @@ export class MessageRepository {
     ).all(chatId, limit, offset) as StoredMessage[];
   }
 
-  /** Full-text search across all messages for a chat. */
-  search(chatId: number, query: string, limit = 20): StoredMessage[] {
-    return this.db.prepare(
-      'SELECT * FROM messages WHERE chat_id = ? AND text LIKE ? ORDER BY id DESC LIMIT ?',
-    ).all(chatId, `%${query}%`, limit) as StoredMessage[];
+  /**
+   * Full-text search in a chat's messages, best matches first. Falls back to a
+   * substring search when the index finds nothing — it only matches whole words
+   * and word prefixes, which misses fragments of keys and text without spaces (e.g. Chinese).
+   */
+  search(chatId: number, query: string, filter: MessageSearchFilter = {}): MessageSearchResult[] {
+    return this.searchWhere('m.chat_id = ?', [chatId], query, filter);
   }
 
   /** Search across ALL chats (for single-user bot). */
-  searchAll(query: string, limit = 20): StoredMessage[] {
-    return this.db.prepare(
-      'SELECT * FROM messages WHERE text LIKE ? ORDER BY id DESC LIMIT ?',
-    ).all(`%${query}%`, limit) as StoredMessage[];
+  searchAll(query: string, filter: MessageSearchFilter = {}): MessageSearchResult[] {
+    return this.searchWhere('1 = 1', [], query, filter);
+  }
+
+  private searchWhere(scope: string, scopeParams: unknown[], query: string, filter: MessageSearchFilter): MessageSearchResult[] {
+    const conditions = [scope];
+    const params = [...scopeParams];
+    if (filter.role) {
+      conditions.push('m.role = ?');
+      params.push(filter.role);
+    }
+    if (filter.from) {
+      conditions.push('m.created_at >= ?');
+      params.push(filter.from);
+    }
+    if (filter.to) {
+      conditions.push('m.created_at <= ?');
+      // A bare date covers the whole day
+      params.push(filter.to.length === 10 ? `${filter.to} 23:59:59` : filter.to);
+    }
+    const where = conditions.join(' AND ');
+    const limit = filter.limit ?? 20;
+    const offset = filter.offset ?? 0;
+
+    const match = ftsQuery(query);
+    if (match) {
+      const ranked = (pageLimit: number, pageOffset: number) => this.db.prepare(`
+        SELECT m.*, snippet(messages_fts, 0, '«', '»', '…', ${SNIPPET_WORDS}) AS snippet
+        FROM messages_fts JOIN messages m ON m.id = messages_fts.rowid
+        WHERE messages_fts MATCH ? AND ${where}
+        ORDER BY rank, m.id DESC LIMIT ? OFFSET ?
+      `).all(match, ...params, pageLimit, pageOffset) as MessageSearchResult[];
+      const rows = ranked(limit, offset);
+      // An empty page past the last index match is the end, not a reason to fall back
+      if (rows.length > 0 || (offset > 0 && ranked(1, 0).length > 0)) return rows;
+    }
+
+    const rows = this.db.prepare(
+      `SELECT m.* FROM messages m WHERE instr(lower(m.text), lower(?)) > 0 AND ${where} ORDER BY m.id DESC LIMIT ? OFFSET ?`,
+    ).all(query, ...params, limit, offset) as StoredMessage[];
+    return rows.map((m) => ({ ...m, snippet: substringSnippet(m.text, query) }));
   }
 
   /** Get message count and date range stats for a chat. */
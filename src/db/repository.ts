@@ -1,9 +1,14 @@
 import rrule from 'rrule';
 import type Database from 'better-sqlite3';
-import type { Task } from '../core/types.js';
+import type { CatchUpPolicy, NotifyPolicy, Task, TaskRun, TaskRunTrigger } from '../core/types.js';
+import { redactSecrets } from '../vault/redaction.js';
+import { fakeUtcToLocal, localToFakeUtc, toWallClock, wallClockToInstant } from '../scheduler/timezone.js';
 
 const { RRule } = rrule;
 
+/** Stored run output is cut to this many characters. */
+const RUN_OUTPUT_LIMIT = 4_000;
+
 /** Map legacy keyword values to RRULE strings for backward compatibility. */
 const LEGACY_MAP: Record<string, string> = {
   daily: 'FREQ=DAILY',
@@ -16,60 +21,34 @@ export function normalizeRecurrence(rec: string): string {
   return LEGACY_MAP[rec] ?? rec;
 }
 
-/** Convert a local date+time pair into a "fake UTC" Date for rrule math. */
-function localToFakeUtc(dateStr: string, timeStr: string): Date {
-  const [y, m, d] = dateStr.split('-').map(Number);
-  const [h, min] = timeStr.split(':').map(Number);
-  return new Date(Date.UTC(y, m - 1, d, h, min, 0));
-}
-
-/** Get the current time in a timezone as a "fake UTC" Date for rrule comparison. */
-function nowAsFakeUtc(timezone: string): Date {
-  const now = new Date();
-  const parts = new Intl.DateTimeFormat('en-CA', {
-    timeZone: timezone,
-    year: 'numeric', month: '2-digit', day: '2-digit',
-    hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false,
-  }).formatToParts(now);
-  const get = (type: string) => parts.find(p => p.type === type)!.value;
-  return new Date(Date.UTC(
-    +get('year'), +get('month') - 1, +get('day'),
-    +get('hour'), +get('minute'), +get('second'),
-  ));
-}
-
-function computeNextOccurrence(
-  recurrence: string,
-  dueDate: string,
-  dueTime: string,
-  timezone: string,
-): { date: string; time: string } | null {
-  const normalized = normalizeRecurrence(recurrence);
-  const dtstart = localToFakeUtc(dueDate, dueTime);
-
-  const rule = new RRule({
-    ...RRule.parseString(normalized),
-    dtstart,
+function buildRule(recurrence: string, dueDate: string, dueTime: string) {
+  return new RRule({
+    ...RRule.parseString(normalizeRecurrence(recurrence)),
+    dtstart: localToFakeUtc(dueDate, dueTime),
   });
+}
 
-  const now = nowAsFakeUtc(timezone);
-  const next = rule.after(now);
-  if (!next) return null; // COUNT/UNTIL exhausted
-
-  const yyyy = next.getUTCFullYear();
-  const mm = String(next.getUTCMonth() + 1).padStart(2, '0');
-  const dd = String(next.getUTCDate()).padStart(2, '0');
-  const hh = String(next.getUTCHours()).padStart(2, '0');
-  const min = String(next.getUTCMinutes()).padStart(2, '0');
-
-  return { date: `${yyyy}-${mm}-${dd}`, time: `${hh}:${min}` };
+/** One scheduled run of a task, in the task's local time. */
+export interface Occurrence {
+  date: string;
+  time: string;
+  /** How long ago it was due. */
+  lateMs: number;
 }
 
 export class TaskRepository {
   private db: Database.Database;
+  /** Timezone of tasks without their own (the bot's configured timezone). */
+  private defaultTimezone: () => string;
 
-  constructor(db: Database.Database) {
+  constructor(db: Database.Database, defaultTimezone: () => string = () => 'UTC') {
     this.db = db;
+    this.defaultTimezone = defaultTimezone;
+  }
+
+  /** The timezone a task's due date and time are in. */
+  timezoneOf(task: Pick<Task, 'timezone'>): string {
+    return task.timezone ?? this.defaultTimezone();
   }
 
   create(data: {
@@ -77,26 +56,42 @@ export class TaskRepository {
     description?: string;
     due_date?: string;
     due_time?: string;
+    timezone?: string;
     recurrence?: string;
     action?: string;
+    catch_up?: CatchUpPolicy;
+    notify_policy?: NotifyPolicy;
+    notify_condition?: string;
+    reminder_days?: number;
+    escalate_minutes?: number;
     source?: string;
     source_ref?: string;
   }): Task {
     const stmt = this.db.prepare(`
-      INSERT INTO tasks (title, description, due_date, due_time, recurrence, action, source, source_ref)
-      VALUES (@title, @description, @due_date, @due_time, @recurrence, @action, @source, @source_ref)
+      INSERT INTO tasks (title, description, due_date, due_time, timezone, recurrence, action, catch_up,
+        notify_policy, notify_condition, reminder_days, escalate_minutes, source, source_ref)
+      VALUES (@title, @description, @due_date, @due_time, @timezone, @recurrence, @action, @catch_up,
+        @notify_policy, @notify_condition, @reminder_days, @escalate_minutes, @source, @source_ref)
     `);
     const result = stmt.run({
       title: data.title,
       description: data.description ?? null,
       due_date: data.due_date ?? null,
       due_time: data.due_time ?? '12:00',
+      timezone: data.timezone ?? null,
       recurrence: data.recurrence ?? null,
       action: data.action ?? null,
+      catch_up: data.catch_up ?? 'once',
+      notify_policy: data.notify_policy ?? 'always',
+      notify_condition: data.notify_condition || null,
+      reminder_days: data.reminder_days ?? 1,
+      escalate_minutes: data.escalate_minutes || null,
       source: data.source ?? 'manual',
       source_ref: data.source_ref ?? null,
     });
-    return this.getById(result.lastInsertRowid as number)!;
+    const id = result.lastInsertRowid as number;
+    this.reschedule(id);
+    return this.getById(id)!;
   }
 
   getById(id: number): Task | undefined {
@@ -115,7 +110,7 @@ export class TaskRepository {
     return this.getById(id);
   }
 
-  update(id: number, data: Partial<Pick<Task, 'title' | 'description' | 'due_date' | 'due_time' | 'recurrence' | 'action' | 'reminder_days'>>): Task | undefined {
+  update(id: number, data: Partial<Pick<Task, 'title' | 'description' | 'due_date' | 'due_time' | 'timezone' | 'recurrence' | 'action' | 'catch_up' | 'notify_policy' | 'notify_condition' | 'reminder_days' | 'escalate_minutes'>>): Task | undefined {
     const fields: string[] = [];
     const values: Record<string, unknown> = { id };
 
@@ -123,14 +118,25 @@ export class TaskRepository {
     if (data.description !== undefined) { fields.push('description = @description'); values.description = data.description; }
     if (data.due_date !== undefined) { fields.push('due_date = @due_date'); values.due_date = data.due_date; }
     if (data.due_time !== undefined) { fields.push('due_time = @due_time'); values.due_time = data.due_time; }
+    if (data.timezone !== undefined) { fields.push('timezone = @timezone'); values.timezone = data.timezone; }
     if (data.recurrence !== undefined) { fields.push('recurrence = @recurrence'); values.recurrence = data.recurrence; }
     if (data.action !== undefined) { fields.push('action = @action'); values.action = data.action; }
+    if (data.catch_up !== undefined) { fields.push('catch_up = @catch_up'); values.catch_up = data.catch_up; }
+    if (data.notify_policy !== undefined) { fields.push('notify_policy = @notify_policy'); values.notify_policy = data.notify_policy; }
+    if (data.notify_condition !== undefined) { fields.push('notify_condition = @notify_condition'); values.notify_condition = data.notify_condition || null; }
     if (data.reminder_days !== undefined) { fields.push('reminder_days = @reminder_days'); values.reminder_days = data.reminder_days; }
+    if (data.escalate_minutes !== undefined) { fields.push('escalate_minutes = @escalate_minutes'); values.escalate_minutes = data.escalate_minutes || null; }
 
     if (fields.length === 0) return this.getById(id);
+    // A new due date is a new occurrence: not fired, and its notice hasn't been sent yet
+    const moved = data.due_date !== undefined || data.due_time !== undefined || data.timezone !== undefined;
+    if (moved) fields.push('notified_at = NULL', 'escalations = 0', 'fired_at = NULL', 'snoozed_until = NULL');
+    else if (data.recurrence !== undefined) fields.push('fired_at = NULL');
 
     fields.push("updated_at = datetime('now')");
     this.db.prepare(`UPDATE tasks SET ${fields.join(', ')} WHERE id = @id`).run(values);
+    // Other edits (title, description...) leave the schedule alone
+    if (moved || data.recurrence !== undefined) this.reschedule(id);
     return this.getById(id);
   }
 
@@ -149,43 +155,212 @@ export class TaskRepository {
     return result.changes > 0;
   }
 
-  /** Return active tasks whose date+time has arrived in the given timezone. */
-  getDueNow(timezone: string): Task[] {
-    const now = new Date();
-    const today = new Intl.DateTimeFormat('en-CA', {
-      timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit',
-    }).format(now); // YYYY-MM-DD
-    const currentTime = new Intl.DateTimeFormat('en-GB', {
-      timeZone: timezone, hour: '2-digit', minute: '2-digit', hour12: false,
-    }).format(now); // HH:MM
-
+  /**
+   * Return active tasks whose next fire time has arrived, including ones due
+   * earlier (missed while the bot was down).
+   */
+  getDueNow(now = new Date()): Task[] {
     return this.db.prepare(`
       SELECT * FROM tasks
       WHERE status = 'active'
-        AND due_date IS NOT NULL
-        AND due_date = @today
-        AND due_time <= @currentTime
-      ORDER BY due_time ASC
-    `).all({ today, currentTime }) as Task[];
+        AND next_fire_at IS NOT NULL
+        AND next_fire_at <= ?
+        AND fired_at IS NULL
+      ORDER BY next_fire_at ASC
+    `).all(now.toISOString()) as Task[];
   }
 
-  /** Advance a recurring task to the next occurrence, or complete it if exhausted. */
-  advanceRecurrence(id: number, timezone: string): void {
+  /** Recompute a task's absolute fire time from its local due date, time and timezone. */
+  reschedule(id: number): void {
+    const task = this.getById(id);
+    if (!task) return;
+    const nextFireAt = task.due_date
+      ? wallClockToInstant(localToFakeUtc(task.due_date, task.due_time), this.timezoneOf(task)).toISOString()
+      : null;
+    this.db.prepare('UPDATE tasks SET next_fire_at = ? WHERE id = ?').run(nextFireAt, id);
+  }
+
+  /**
+   * Recompute fire times of active tasks: those never scheduled (created before
+   * fire times existed), or also every task in the default timezone after it changed.
+   * One-time tasks that already fired keep their state.
+   */
+  rescheduleAll(scope: 'unscheduled' | 'default_timezone'): number {
+    const where = scope === 'unscheduled' ? 'next_fire_at IS NULL' : 'timezone IS NULL';
+    const ids = this.db.prepare(
+      `SELECT id FROM tasks WHERE status IN ('active', 'paused') AND due_date IS NOT NULL AND fired_at IS NULL AND ${where}`,
+    ).all() as { id: number }[];
+    this.db.transaction(() => {
+      for (const { id } of ids) this.reschedule(id);
+    })();
+    return ids.length;
+  }
+
+  /**
+   * Occurrences of a due task up to now, oldest first: its due date for a one-time
+   * task, every recurrence since then for a recurring one. Only the latest
+   * `limit` are returned; `total` counts them all.
+   */
+  pendingOccurrences(task: Task, limit: number): { occurrences: Occurrence[]; total: number } {
+    if (!task.due_date) return { occurrences: [], total: 0 };
+    const timezone = this.timezoneOf(task);
+    const now = new Date();
+    const due = localToFakeUtc(task.due_date, task.due_time);
+    let dates = [due];
+    if (task.recurrence) {
+      // Expanded in local wall time, so DST changes don't move the clock time
+      const passed = buildRule(task.recurrence, task.due_date, task.due_time).between(due, toWallClock(now, timezone), true);
+      // The due date itself may fall outside the rule (e.g. BYDAY=MO set on a Tuesday); it still counts
+      if (passed.length > 0) dates = passed;
+    }
+    const occurrences = dates.slice(-limit).map((d) => ({
+      ...fakeUtcToLocal(d),
+      lateMs: now.getTime() - wallClockToInstant(d, timezone).getTime(),
+    }));
+    return { occurrences, total: dates.length };
+  }
+
+  /** Advance a recurring task to its next occurrence after now, or complete it if exhausted. */
+  advanceRecurrence(id: number): void {
     const task = this.getById(id);
     if (!task || !task.recurrence || !task.due_date) return;
 
-    const next = computeNextOccurrence(task.recurrence, task.due_date, task.due_time, timezone);
+    const timezone = this.timezoneOf(task);
+    const next = buildRule(task.recurrence, task.due_date, task.due_time).after(toWallClock(new Date(), timezone));
     if (next) {
+      const { date, time } = fakeUtcToLocal(next);
       this.db.prepare(`
-        UPDATE tasks SET due_date = @date, due_time = @time, updated_at = datetime('now')
+        UPDATE tasks SET due_date = @date, due_time = @time, next_fire_at = @nextFireAt, updated_at = datetime('now')
         WHERE id = @id
-      `).run({ id, date: next.date, time: next.time });
+      `).run({ id, date, time, nextFireAt: wallClockToInstant(next, timezone).toISOString() });
     } else {
       // COUNT or UNTIL exhausted — auto-complete
       this.complete(id);
     }
   }
 
+  // === Reminder delivery ===
+
+  /** Record that a reminder (or advance notice) for the current occurrence was sent. */
+  markNotified(id: number, escalation = false): void {
+    this.db.prepare(
+      'UPDATE tasks SET notified_at = ?, escalations = CASE WHEN ? THEN escalations + 1 ELSE 0 END WHERE id = ?',
+    ).run(new Date().toISOString(), escalation ? 1 : 0, id);
+  }
+
+  /** A one-time reminder that escalates stays active, marked as fired, until it is acknowledged. */
+  awaitAcknowledgement(id: number): void {
+    const now = new Date().toISOString();
+    this.db.prepare(
+      "UPDATE tasks SET fired_at = ?, notified_at = ?, escalations = 0, updated_at = datetime('now') WHERE id = ?",
+    ).run(now, now, id);
+  }
+
+  /** Done or skipped: a one-time task is completed, a recurring one waits for its next occurrence. */
+  acknowledge(id: number): Task | undefined {
+    const task = this.getById(id);
+    if (!task || task.status === 'deleted') return task;
+    if (!task.recurrence) return this.complete(id);
+    this.db.prepare(
+      "UPDATE tasks SET notified_at = NULL, escalations = 0, snoozed_until = NULL, updated_at = datetime('now') WHERE id = ?",
+    ).run(id);
+    return this.getById(id);
+  }
+
+  /**
+   * Send the reminder again at `until`. Revives a one-time task completed when it
+   * fired, marked as fired so only the snooze brings it back.
+   */
+  snooze(id: number, until: Date): Task | undefined {
+    this.db.prepare(`
+      UPDATE tasks SET snoozed_until = @until, notified_at = NULL, escalations = 0,
+        fired_at = CASE WHEN recurrence IS NULL THEN COALESCE(fired_at, @now) ELSE NULL END,
+        status = CASE WHEN status = 'completed' THEN 'active' ELSE status END, updated_at = datetime('now')
+      WHERE id = @id AND status != 'deleted'
+    `).run({ id, until: until.toISOString(), now: new Date().toISOString() });
+    return this.getById(id);
+  }
+
+  /** Snoozed reminders whose time has come. Clears the snooze. */
+  takeSnoozedDue(now = new Date()): Task[] {
+    const tasks = this.db.prepare(
+      "SELECT * FROM tasks WHERE status = 'active' AND snoozed_until IS NOT NULL AND snoozed_until <= ?",
+    ).all(now.toISOString()) as Task[];
+    const clear = this.db.prepare('UPDATE tasks SET snoozed_until = NULL WHERE id = ?');
+    for (const task of tasks) clear.run(task.id);
+    return tasks;
+  }
+
+  /** Fired reminders still unacknowledged after their escalation interval, up to `maxEscalations` re-sends. */
+  getEscalationsDue(maxEscalations: number, now = new Date()): Task[] {
+    const candidates = this.db.prepare(`
+      SELECT * FROM tasks
+      WHERE status = 'active' AND action IS NULL AND escalate_minutes IS NOT NULL
+        AND notified_at IS NOT NULL AND snoozed_until IS NULL AND escalations < ?
+        -- a one-time task's notified_at also marks its advance notice; it only escalates once fired
+        AND (recurrence IS NOT NULL OR fired_at IS NOT NULL)
+    `).all(maxEscalations) as Task[];
+    return candidates.filter((t) => Date.parse(t.notified_at!) + t.escalate_minutes! * 60_000 <= now.getTime());
+  }
+
+  /**
+   * One-time reminders whose advance notice is due: within reminder_days of
+   * firing, not yet noticed, and created before the notice window opened.
+   */
+  getNoticesDue(now = new Date()): Task[] {
+    const candidates = this.db.prepare(`
+      SELECT * FROM tasks
+      WHERE status = 'active' AND action IS NULL AND recurrence IS NULL AND reminder_days > 0
+        AND notified_at IS NULL AND fired_at IS NULL AND next_fire_at > ?
+    `).all(now.toISOString()) as Task[];
+    return candidates.filter((t) => {
+      const noticeAt = Date.parse(t.next_fire_at!) - t.reminder_days * 86_400_000;
+      // created_at is SQLite's UTC 'YYYY-MM-DD HH:MM:SS'
+      return noticeAt <= now.getTime() && Date.parse(t.created_at.replace(' ', 'T') + 'Z') < noticeAt;
+    });
+  }
+
+  // === Run history ===
+
+  recordRun(entry: {
+    taskId: number;
+    trigger: TaskRunTrigger;
+    scheduledFor?: string;
+    durationMs: number;
+    success: boolean;
+    output: string;
+    state?: string;
+  }): TaskRun {
+    const redacted = redactSecrets(entry.output);
+    const output = redacted.length > RUN_OUTPUT_LIMIT ? redacted.slice(0, RUN_OUTPUT_LIMIT) + '…' : redacted;
+    const result = this.db.prepare(
+      'INSERT INTO task_runs (task_id, trigger, scheduled_for, duration_ms, success, output, state) VALUES (?, ?, ?, ?, ?, ?, ?)',
+    ).run(
+      entry.taskId, entry.trigger, entry.scheduledFor ?? null, Math.round(entry.durationMs), entry.success ? 1 : 0, output,
+      entry.state !== undefined ? redactSecrets(entry.state) : null,
+    );
+    return this.db.prepare('SELECT * FROM task_runs WHERE id = ?').get(result.lastInsertRowid) as TaskRun;
+  }
+
+  /** Record whether a run messaged the user (runs of conditional tasks may stay quiet). */
+  setRunNotified(runId: number, notified: boolean): void {
+    this.db.prepare('UPDATE task_runs SET notified = ? WHERE id = ?').run(notified ? 1 : 0, runId);
+  }
+
+  /** The latest successful run — what the next result is compared with. */
+  getLastSuccessfulRun(taskId: number): TaskRun | undefined {
+    return this.db.prepare(
+      'SELECT * FROM task_runs WHERE task_id = ? AND success = 1 ORDER BY id DESC LIMIT 1',
+    ).get(taskId) as TaskRun | undefined;
+  }
+
+  /** A task's most recent runs, newest first. */
+  getRuns(taskId: number, limit = 10): TaskRun[] {
+    return this.db.prepare(
+      'SELECT * FROM task_runs WHERE task_id = ? ORDER BY id DESC LIMIT ?',
+    ).all(taskId, limit) as TaskRun[];
+  }
+
   /** Find an active task whose title matches (case-insensitive substring). */
   findActiveByTitle(substring: string): Task | undefined {
     return this.db.prepare(
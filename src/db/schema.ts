@@ -40,18 +40,92 @@ export function getDb(): Database.Database {
 
     CREATE INDEX IF NOT EXISTS idx_messages_chat_id ON messages(chat_id, created_at DESC);
 
-    CREATE TABLE IF NOT EXISTS api_usage (
+    CREATE TABLE IF NOT EXISTS usage_events (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       date TEXT NOT NULL,
+      source TEXT NOT NULL DEFAULT 'chat',
+      source_id TEXT,
+      chat_id INTEGER,
+      provider TEXT,
       model TEXT NOT NULL,
       input_tokens INTEGER NOT NULL DEFAULT 0,
       output_tokens INTEGER NOT NULL DEFAULT 0,
+      cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+      cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+      reasoning_tokens INTEGER NOT NULL DEFAULT 0,
       cost_usd REAL NOT NULL DEFAULT 0,
-      requests INTEGER NOT NULL DEFAULT 0,
-      UNIQUE(date, model)
+      steps INTEGER,
+      latency_ms INTEGER,
+      requests INTEGER NOT NULL DEFAULT 1,
+      created_at TEXT DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_usage_events_date ON usage_events(date);
+    CREATE INDEX IF NOT EXISTS idx_usage_events_source ON usage_events(source, date);
+
+    CREATE TABLE IF NOT EXISTS migrations (
+      name TEXT PRIMARY KEY,
+      applied_at TEXT DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS tool_approvals (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      chat_id INTEGER,
+      tool_name TEXT NOT NULL,
+      tool_class TEXT NOT NULL,
+      input TEXT NOT NULL,
+      decision TEXT NOT NULL DEFAULT 'pending'
+        CHECK(decision IN ('pending', 'approved', 'denied', 'always', 'timeout')),
+      decided_by INTEGER,
+      created_at TEXT DEFAULT (datetime('now')),
+      decided_at TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_tool_approvals_created ON tool_approvals(created_at DESC);
+
+    CREATE TABLE IF NOT EXISTS tool_calls (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      chat_id INTEGER,
+      tool_name TEXT NOT NULL,
+      args TEXT NOT NULL,
+      duration_ms INTEGER NOT NULL DEFAULT 0,
+      success INTEGER NOT NULL DEFAULT 1,
+      result TEXT,
+      created_at TEXT DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_tool_calls_tool ON tool_calls(tool_name, id DESC);
+
+    CREATE TABLE IF NOT EXISTS budget_alerts (
+      key TEXT PRIMARY KEY,
+      sent_at TEXT DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS conversation_summaries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      chat_id INTEGER NOT NULL,
+      summary TEXT NOT NULL,
+      up_to_message_id INTEGER NOT NULL,
+      message_count INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_conversation_summaries_chat ON conversation_summaries(chat_id, id DESC);
+
+    CREATE TABLE IF NOT EXISTS task_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      task_id INTEGER NOT NULL,
+      trigger TEXT NOT NULL,
+      scheduled_for TEXT,
+      duration_ms INTEGER NOT NULL,
+      success INTEGER NOT NULL,
+      output TEXT NOT NULL,
+      state TEXT,
+      notified INTEGER NOT NULL DEFAULT 1,
+      created_at TEXT DEFAULT (datetime('now'))
     );
 
-    CREATE INDEX IF NOT EXISTS idx_api_usage_date ON api_usage(date);
+    CREATE INDEX IF NOT EXISTS idx_task_runs_task ON task_runs(task_id, id DESC);
   `);
 
   // Migrate: add new task columns (due_time, recurrence, action)
@@ -60,6 +134,15 @@ export function getDb(): Database.Database {
   if (!colNames.has('due_time')) db.exec("ALTER TABLE tasks ADD COLUMN due_time TEXT DEFAULT '12:00'");
   if (!colNames.has('recurrence')) db.exec('ALTER TABLE tasks ADD COLUMN recurrence TEXT');
   if (!colNames.has('action')) db.exec('ALTER TABLE tasks ADD COLUMN action TEXT');
+  if (!colNames.has('timezone')) db.exec('ALTER TABLE tasks ADD COLUMN timezone TEXT');
+  if (!colNames.has('next_fire_at')) db.exec('ALTER TABLE tasks ADD COLUMN next_fire_at TEXT');
+  if (!colNames.has('escalate_minutes')) db.exec('ALTER TABLE tasks ADD COLUMN escalate_minutes INTEGER');
+  if (!colNames.has('escalations')) db.exec('ALTER TABLE tasks ADD COLUMN escalations INTEGER NOT NULL DEFAULT 0');
+  if (!colNames.has('snoozed_until')) db.exec('ALTER TABLE tasks ADD COLUMN snoozed_until TEXT');
+  if (!colNames.has('fired_at')) db.exec('ALTER TABLE tasks ADD COLUMN fired_at TEXT');
+  if (!colNames.has('catch_up')) db.exec("ALTER TABLE tasks ADD COLUMN catch_up TEXT NOT NULL DEFAULT 'once'");
+  if (!colNames.has('notify_policy')) db.exec("ALTER TABLE tasks ADD COLUMN notify_policy TEXT NOT NULL DEFAULT 'always'");
+  if (!colNames.has('notify_condition')) db.exec('ALTER TABLE tasks ADD COLUMN notify_condition TEXT');
 
   // Migrate: add file attachment columns to messages
   const msgCols = db.prepare("PRAGMA table_info('messages')").all() as { name: string }[];
@@ -69,5 +152,70 @@ export function getDb(): Database.Database {
   if (!msgColNames.has('mime_type')) db.exec('ALTER TABLE messages ADD COLUMN mime_type TEXT');
   if (!msgColNames.has('file_name')) db.exec('ALTER TABLE messages ADD COLUMN file_name TEXT');
 
+  // Migrate: sender attribution (group chats have many participants per chat_id)
+  if (!msgColNames.has('sender_id')) db.exec('ALTER TABLE messages ADD COLUMN sender_id INTEGER');
+  if (!msgColNames.has('sender_name')) db.exec('ALTER TABLE messages ADD COLUMN sender_name TEXT');
+
+  // Migrate: messages saved before secret redaction are scrubbed once at startup
+  if (!msgColNames.has('redacted')) db.exec('ALTER TABLE messages ADD COLUMN redacted INTEGER NOT NULL DEFAULT 0');
+
+  // Migrate: per-request usage ledger. The old daily aggregates are imported as 'legacy'
+  // events (steps and latency unknown), then api_usage is recreated as a rollup view.
+  const apiUsage = db.prepare("SELECT type FROM sqlite_master WHERE name = 'api_usage'").get() as { type: string } | undefined;
+  if (apiUsage?.type === 'table') {
+    const usageCols = db.prepare("PRAGMA table_info('api_usage')").all() as { name: string }[];
+    const usageColNames = new Set(usageCols.map((c) => c.name));
+    const col = (name: string, fallback: string) => (usageColNames.has(name) ? name : fallback);
+    db.transaction(() => {
+      db.exec(`
+        INSERT INTO usage_events (date, source, provider, model, input_tokens, output_tokens,
+          cache_read_tokens, cache_write_tokens, reasoning_tokens, cost_usd, requests, created_at)
+        SELECT date, 'legacy', ${col('provider', 'NULL')}, model, input_tokens, output_tokens,
+          ${col('cache_read_tokens', '0')}, ${col('cache_write_tokens', '0')}, ${col('reasoning_tokens', '0')},
+          cost_usd, requests, date || ' 00:00:00'
+        FROM api_usage
+      `);
+      db.exec('DROP TABLE api_usage');
+    })();
+  }
+
+  // Full-text index over message text, kept in sync by triggers (redaction updates included).
+  // unicode61 folds case and diacritics for non-Latin scripts too, unlike LIKE.
+  const hasFts = db.prepare("SELECT 1 FROM sqlite_master WHERE name = 'messages_fts'").get();
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+      text, content='messages', content_rowid='id', tokenize='unicode61 remove_diacritics 2'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+      INSERT INTO messages_fts(rowid, text) VALUES (new.id, new.text);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+      INSERT INTO messages_fts(messages_fts, rowid, text) VALUES ('delete', old.id, old.text);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF text ON messages BEGIN
+      INSERT INTO messages_fts(messages_fts, rowid, text) VALUES ('delete', old.id, old.text);
+      INSERT INTO messages_fts(rowid, text) VALUES (new.id, new.text);
+    END;
+  `);
+  // Migrate: index history saved before full-text search existed
+  if (!hasFts) db.exec("INSERT INTO messages_fts(messages_fts) VALUES ('rebuild')");
+
+  db.exec(`
+    CREATE VIEW IF NOT EXISTS api_usage AS
+    SELECT date, model, provider,
+           SUM(input_tokens) AS input_tokens,
+           SUM(output_tokens) AS output_tokens,
+           SUM(cache_read_tokens) AS cache_read_tokens,
+           SUM(cache_write_tokens) AS cache_write_tokens,
+           SUM(reasoning_tokens) AS reasoning_tokens,
+           SUM(cost_usd) AS cost_usd,
+           SUM(requests) AS requests
+    FROM usage_events
+    GROUP BY date, model, provider
+  `);
+
   return db;
 }
@@ -0,0 +1,37 @@
+import type Database from 'better-sqlite3';
+import { redactSecrets } from '../vault/redaction.js';
+
+export interface ConversationSummary {
+  id: number;
+  chat_id: number;
+  summary: string;
+  /** Last message folded into this summary; later messages are not covered yet. */
+  up_to_message_id: number;
+  /** Messages covered in total, across all earlier summaries. */
+  message_count: number;
+  created_at: string;
+}
+
+/**
+ * Rolling per-chat summaries of older conversation. Each record supersedes the
+ * previous one; earlier records are kept as a trail.
+ */
+export class SummaryRepository {
+  private db: Database.Database;
+
+  constructor(db: Database.Database) {
+    this.db = db;
+  }
+
+  latest(chatId: number): ConversationSummary | undefined {
+    return this.db.prepare(
+      'SELECT * FROM conversation_summaries WHERE chat_id = ? ORDER BY id DESC LIMIT 1',
+    ).get(chatId) as ConversationSummary | undefined;
+  }
+
+  save(chatId: number, summary: string, upToMessageId: number, messageCount: number): void {
+    this.db.prepare(
+      'INSERT INTO conversation_summaries (chat_id, summary, up_to_message_id, message_count) VALUES (?, ?, ?, ?)',
+    ).run(chatId, redactSecrets(summary), upToMessageId, messageCount);
+  }
+}
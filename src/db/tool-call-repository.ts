@@ -0,0 +1,86 @@
+import type Database from 'better-sqlite3';
+
+/** Stored results are cut to this many characters. */
+const RESULT_LIMIT = 2_000;
+
+export interface ToolCallRecord {
+  id: number;
+  chat_id: number | null;
+  tool_name: string;
+  /** JSON arguments with secrets redacted. */
+  args: string;
+  duration_ms: number;
+  success: number;
+  /** Truncated tool output. */
+  result: string | null;
+  created_at: string;
+}
+
+export interface ToolCallFilter {
+  toolName?: string;
+  /** Inclusive lower bound, 'YYYY-MM-DD' or full datetime (UTC). */
+  since?: string;
+}
+
+export class ToolCallRepository {
+  private db: Database.Database;
+
+  constructor(db: Database.Database) {
+    this.db = db;
+  }
+
+  record(entry: {
+    chatId?: number;
+    toolName: string;
+    args: string;
+    durationMs: number;
+    success: boolean;
+    result: string;
+  }): void {
+    const result = entry.result.length > RESULT_LIMIT ? entry.result.slice(0, RESULT_LIMIT) + '…' : entry.result;
+    this.db.prepare(
+      'INSERT INTO tool_calls (chat_id, tool_name, args, duration_ms, success, result) VALUES (?, ?, ?, ?, ?, ?)',
+    ).run(entry.chatId ?? null, entry.toolName, entry.args, Math.round(entry.durationMs), entry.success ? 1 : 0, result);
+  }
+
+  /** A page of calls, newest first. */
+  list(filter: ToolCallFilter, limit: number, offset: number): ToolCallRecord[] {
+    const { where, params } = this.buildWhere(filter);
+    return this.db.prepare(
+      `SELECT * FROM tool_calls ${where} ORDER BY id DESC LIMIT ? OFFSET ?`,
+    ).all(...params, limit, offset) as ToolCallRecord[];
+  }
+
+  count(filter: ToolCallFilter = {}): number {
+    const { where, params } = this.buildWhere(filter);
+    const row = this.db.prepare(`SELECT COUNT(*) as count FROM tool_calls ${where}`).get(...params) as { count: number };
+    return row.count;
+  }
+
+  /** Most frequently used tools, for filter shortcuts. */
+  topTools(limit: number): Array<{ tool_name: string; calls: number }> {
+    return this.db.prepare(
+      'SELECT tool_name, COUNT(*) as calls FROM tool_calls GROUP BY tool_name ORDER BY calls DESC LIMIT ?',
+    ).all(limit) as Array<{ tool_name: string; calls: number }>;
+  }
+
+  /** All matching calls in chronological order (for export). */
+  export(filter: ToolCallFilter = {}): ToolCallRecord[] {
+    const { where, params } = this.buildWhere(filter);
+    return this.db.prepare(`SELECT * FROM tool_calls ${where} ORDER BY id ASC`).all(...params) as ToolCallRecord[];
+  }
+
+  private buildWhere(filter: ToolCallFilter): { where: string; params: string[] } {
+    const clauses: string[] = [];
+    const params: string[] = [];
+    if (filter.toolName) {
+      clauses.push('tool_name = ?');
+      params.push(filter.toolName);
+    }
+    if (filter.since) {
+      clauses.push('created_at >= ?');
+      params.push(filter.since);
+    }
+    return { where: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '', params };
+  }
+}
@@ -1,29 +1,78 @@
 import type Database from 'better-sqlite3';
+import type { ModelPrice } from '../core/types.js';
+import type { UsageSource } from '../ai/request-context.js';
+import { computeCost } from '../ai/pricing.js';
 
-export interface UsageRecord {
-  date: string;
-  model: string;
+/**
+ * Token counts as stored. Cache reads/writes are the cached part of input_tokens;
+ * reasoning tokens are the part of output_tokens spent thinking.
+ */
+interface TokenColumns {
   input_tokens: number;
   output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+  reasoning_tokens: number;
+}
+
+export interface UsageRecord extends TokenColumns {
+  date: string;
+  model: string;
   cost_usd: number;
   requests: number;
 }
 
-export interface UsageSummary {
-  input_tokens: number;
-  output_tokens: number;
+export interface UsageSummary extends TokenColumns {
   total_tokens: number;
   cost_usd: number;
   requests: number;
   breakdown: UsageRecord[];
 }
 
-export interface DailyTotal {
+export interface DailyTotal extends TokenColumns {
   date: string;
+  cost_usd: number;
+  requests: number;
+}
+
+/** One model request, as reported by the assistant. */
+export interface UsageEntry {
+  source: UsageSource;
+  sourceId?: string;
+  chatId?: number;
+  model: string;
+  provider?: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+  reasoningTokens?: number;
+  costUsd: number;
+  steps?: number;
+  latencyMs?: number;
+}
+
+/** Usage grouped by what triggered it. */
+export interface SourceBreakdown {
+  source: UsageSource;
   input_tokens: number;
   output_tokens: number;
   cost_usd: number;
   requests: number;
+  /** Averages over per-request rows; null when only legacy aggregates exist. */
+  avg_steps: number | null;
+  avg_latency_ms: number | null;
+}
+
+/** Usage of one source broken down by task, skill, language or chat. */
+export interface SourceDetail {
+  source_id: string | null;
+  chat_id: number | null;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  requests: number;
+  avg_latency_ms: number | null;
 }
 
 export interface ModelBreakdown {
@@ -59,17 +108,69 @@ export class UsageRepository {
     this.db = db;
   }
 
-  track(model: string, inputTokens: number, outputTokens: number, costUsd: number): void {
+  track(entry: UsageEntry): void {
     const today = new Date().toISOString().slice(0, 10);
     this.db.prepare(`
-      INSERT INTO api_usage (date, model, input_tokens, output_tokens, cost_usd, requests)
-      VALUES (?, ?, ?, ?, ?, 1)
-      ON CONFLICT(date, model) DO UPDATE SET
-        input_tokens = input_tokens + excluded.input_tokens,
-        output_tokens = output_tokens + excluded.output_tokens,
-        cost_usd = cost_usd + excluded.cost_usd,
-        requests = requests + 1
-    `).run(today, model, inputTokens, outputTokens, costUsd);
+      INSERT INTO usage_events (date, source, source_id, chat_id, provider, model, input_tokens, output_tokens,
+        cache_read_tokens, cache_write_tokens, reasoning_tokens, cost_usd, steps, latency_ms)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      today, entry.source, entry.sourceId ?? null, entry.chatId ?? null, entry.provider ?? null, entry.model,
+      entry.inputTokens, entry.outputTokens,
+      entry.cacheReadTokens ?? 0, entry.cacheWriteTokens ?? 0, entry.reasoningTokens ?? 0, entry.costUsd,
+      entry.steps ?? null, entry.latencyMs ?? null,
+    );
+  }
+
+  /** Total spend for one provider between two dates (inclusive). */
+  getProviderSpend(provider: string, from: string, to: string): number {
+    const row = this.db.prepare(
+      'SELECT COALESCE(SUM(cost_usd), 0) as cost FROM usage_events WHERE provider = ? AND date >= ? AND date <= ?',
+    ).get(provider, from, to) as { cost: number };
+    return row.cost;
+  }
+
+  /** Budget alerts already sent, so each threshold fires once per period. */
+  hasBudgetAlert(key: string): boolean {
+    return !!this.db.prepare('SELECT 1 FROM budget_alerts WHERE key = ?').get(key);
+  }
+
+  markBudgetAlert(key: string): void {
+    this.db.prepare('INSERT OR IGNORE INTO budget_alerts (key) VALUES (?)').run(key);
+  }
+
+  /**
+   * One-time migration: fill in cost for usage recorded before pricing existed —
+   * the 'legacy' rows imported from the old daily aggregates. Later rows were
+   * priced when recorded, and a zero there is deliberate (subscription usage,
+   * free models). Each row is priced by its own provider; `priceFor` returns
+   * undefined for rows that should stay free. Rows older than cache tracking
+   * have no cache counts and are priced at the full input rate.
+   */
+  backfillCosts(priceFor: (provider: string | undefined, model: string) => ModelPrice | undefined): number {
+    if (this.db.prepare("SELECT 1 FROM migrations WHERE name = 'usage_cost_backfill'").get()) return 0;
+    const rows = this.db.prepare(
+      `SELECT id, provider, model, input_tokens, output_tokens, cache_read_tokens, cache_write_tokens
+       FROM usage_events WHERE source = 'legacy' AND cost_usd = 0 AND (input_tokens > 0 OR output_tokens > 0)`,
+    ).all() as Array<{ id: number; provider: string | null; model: string } & Omit<TokenColumns, 'reasoning_tokens'>>;
+
+    const update = this.db.prepare('UPDATE usage_events SET cost_usd = ? WHERE id = ?');
+    let updated = 0;
+    this.db.transaction(() => {
+      this.db.prepare("INSERT INTO migrations (name) VALUES ('usage_cost_backfill')").run();
+      for (const row of rows) {
+        const price = priceFor(row.provider ?? undefined, row.model);
+        if (!price) continue;
+        update.run(computeCost(price, {
+          inputTokens: row.input_tokens,
+          outputTokens: row.output_tokens,
+          cacheReadTokens: row.cache_read_tokens,
+          cacheWriteTokens: row.cache_write_tokens,
+        }), row.id);
+        updated++;
+      }
+    })();
+    return updated;
   }
 
   getToday(): UsageSummary {
@@ -100,7 +201,8 @@ export class UsageRepository {
 
   getByRange(from: string, to: string): UsageSummary {
     const rows = this.db.prepare(`
-      SELECT date, model, input_tokens, output_tokens, cost_usd, requests
+      SELECT date, model, input_tokens, output_tokens, cache_read_tokens, cache_write_tokens,
+             reasoning_tokens, cost_usd, requests
       FROM api_usage
       WHERE date >= ? AND date <= ?
       ORDER BY date DESC
@@ -108,12 +210,18 @@ export class UsageRepository {
 
     let input_tokens = 0;
     let output_tokens = 0;
+    let cache_read_tokens = 0;
+    let cache_write_tokens = 0;
+    let reasoning_tokens = 0;
     let cost_usd = 0;
     let requests = 0;
 
     for (const r of rows) {
       input_tokens += r.input_tokens;
       output_tokens += r.output_tokens;
+      cache_read_tokens += r.cache_read_tokens;
+      cache_write_tokens += r.cache_write_tokens;
+      reasoning_tokens += r.reasoning_tokens;
       cost_usd += r.cost_usd;
       requests += r.requests;
     }
@@ -121,6 +229,9 @@ export class UsageRepository {
     return {
       input_tokens,
       output_tokens,
+      cache_read_tokens,
+      cache_write_tokens,
+      reasoning_tokens,
       total_tokens: input_tokens + output_tokens,
       cost_usd: Math.round(cost_usd * 10000) / 10000,
       requests,
@@ -133,6 +244,9 @@ export class UsageRepository {
       SELECT date,
              SUM(input_tokens) as input_tokens,
              SUM(output_tokens) as output_tokens,
+             SUM(cache_read_tokens) as cache_read_tokens,
+             SUM(cache_write_tokens) as cache_write_tokens,
+             SUM(reasoning_tokens) as reasoning_tokens,
              SUM(cost_usd) as cost_usd,
              SUM(requests) as requests
       FROM api_usage
@@ -156,6 +270,39 @@ export class UsageRepository {
     `).all(from, to) as ModelBreakdown[];
   }
 
+  getSourceBreakdown(from: string, to: string): SourceBreakdown[] {
+    return this.db.prepare(`
+      SELECT source,
+             SUM(input_tokens) as input_tokens,
+             SUM(output_tokens) as output_tokens,
+             SUM(cost_usd) as cost_usd,
+             SUM(requests) as requests,
+             AVG(steps) as avg_steps,
+             AVG(latency_ms) as avg_latency_ms
+      FROM usage_events
+      WHERE date >= ? AND date <= ?
+      GROUP BY source
+      ORDER BY cost_usd DESC, requests DESC
+    `).all(from, to) as SourceBreakdown[];
+  }
+
+  /** Heaviest consumers within one source (e.g. which scheduled task or chat). */
+  getSourceDetails(source: UsageSource, from: string, to: string, limit = 10): SourceDetail[] {
+    return this.db.prepare(`
+      SELECT source_id, chat_id,
+             SUM(input_tokens) as input_tokens,
+             SUM(output_tokens) as output_tokens,
+             SUM(cost_usd) as cost_usd,
+             SUM(requests) as requests,
+             AVG(latency_ms) as avg_latency_ms
+      FROM usage_events
+      WHERE source = ? AND date >= ? AND date <= ?
+      GROUP BY source_id, chat_id
+      ORDER BY cost_usd DESC, requests DESC
+      LIMIT ?
+    `).all(source, from, to, limit) as SourceDetail[];
+  }
+
   static getDateRange(period: 'today' | 'week' | 'month' | 'year'): { from: string; to: string; label: string } {
     const now = new Date();
     const to = now.toISOString().slice(0, 10);
@@ -1,8 +1,17 @@
 import { z } from 'zod/v4';
 import { tool, generateText, stepCountIs, type Tool, type ToolSet } from 'ai';
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
-import { resolve } from 'node:path';
+import { relative, resolve, sep } from 'node:path';
 import { createBestModel, type AiConfig } from '../ai/model-factory.js';
+import { toAgentUsage, type UsageListener } from '../ai/agent.js';
+import { getRequestContext } from '../ai/request-context.js';
+import { readSecret } from '../vault/vault.js';
+import { loadManifest, refreshManifest, writeManifest, type SkillManifest } from '../skills/manifest.js';
+import { discardStaged, nextVersion, promoteStagedSkill, stagingDir } from '../skills/versions.js';
+import { describeSkill, type SandboxToolInfo } from '../skills/sandbox.js';
+import {
+  formatTestReport, loadTests, runSkillTests, testsPassed, testsPath, type SkillTest, type SkillTestResult,
+} from '../skills/skill-tests.js';
 
 const SKILL_TEMPLATE = `
 import { z } from 'zod/v4';
@@ -22,6 +31,20 @@ export const tools = {
 };
 `.trim();
 
+const TESTS_TEMPLATE = `
+[
+  {
+    "name": "converts 100 USD to EUR",
+    "tool": "TOOL_NAME",
+    "input": { "amount": 100, "from": "USD", "to": "EUR" },
+    "expect": { "keys": ["result"] }
+  }
+]
+`.trim();
+
+/** Generation attempts before evolve_skill gives up on a skill that fails its tests. */
+const MAX_ATTEMPTS = 3;
+
 /**
  * Quick web search via DuckDuckGo HTML to find real URLs before spawning the inner agent.
  */
@@ -38,7 +61,8 @@ async function preResearch(description: string): Promise<{ urls: string[]; snipp
   let foundUrls = false;
   const searchFns: Array<() => Promise<void>> = [];
 
-  if (process.env.BRAVE_API_KEY) {
+  const braveKey = readSecret('BRAVE_API_KEY');
+  if (braveKey) {
     searchFns.push(async () => {
       const bUrl = new URL('https://api.search.brave.com/res/v1/web/search');
       bUrl.searchParams.set('q', searchQuery);
@@ -48,7 +72,7 @@ async function preResearch(description: string): Promise<{ urls: string[]; snipp
       for (let attempt = 0; attempt < 3; attempt++) {
         if (attempt > 0) await new Promise((r) => setTimeout(r, attempt * 1500));
         const resp = await fetch(bUrl.toString(), {
-          headers: { 'Accept': 'application/json', 'X-Subscription-Token': process.env.BRAVE_API_KEY! },
+          headers: { 'Accept': 'application/json', 'X-Subscription-Token': braveKey },
           signal: AbortSignal.timeout(10000),
         });
         if (resp.status === 429) { lastErr = new Error('Brave API: 429'); continue; }
@@ -125,14 +149,14 @@ async function preResearch(description: string): Promise<{ urls: string[]; snipp
 const evolvingSkills = new Set<string>();
 
 /** Create the evolve_skill tool with Vercel AI SDK inner agent. */
-export function createEvolveTool(skillsDir: string, aiConfig: AiConfig): Tool {
+export function createEvolveTool(skillsDir: string, aiConfig: AiConfig, onUsage?: UsageListener): Tool {
   return tool({
     description: 'SELF-EVOLUTION: Create a new skill that integrates an external API or automates a task. Call this when the user needs a capability that requires an external service (e.g. currency conversion, stock data, weather, image generation via Leonardo/Stability AI, etc.). The new skill will be available on the next message.',
     inputSchema: z.object({
       skill_name: z.string().describe('Short snake_case name for the skill (e.g. "currency_converter", "translator")'),
       description: z.string().describe('Detailed description of what the skill should do, including expected inputs and outputs'),
     }),
-    execute: async (args) => {
+    execute: async (args, options) => {
       // Prevent duplicate parallel calls for the same skill
       if (evolvingSkills.has(args.skill_name)) {
         return JSON.stringify({
@@ -150,6 +174,19 @@ export function createEvolveTool(skillsDir: string, aiConfig: AiConfig): Tool {
       const fileName = `${args.skill_name}.js`;
       const filePath = resolve(skillsDir, fileName);
 
+      // New code goes to staging and only replaces the live skill once its tests pass.
+      // Staging starts from the live code and permissions, so an update is an edit.
+      const stagedDir = stagingDir(skillsDir);
+      mkdirSync(stagedDir, { recursive: true });
+      discardStaged(skillsDir, args.skill_name);
+      const stagedPath = resolve(stagedDir, fileName);
+      const stagedTestsPath = testsPath(stagedDir, args.skill_name);
+      const liveSource = existsSync(filePath) ? readFileSync(filePath, 'utf-8') : null;
+      if (liveSource !== null) {
+        writeFileSync(stagedPath, liveSource);
+        writeManifest(stagedDir, args.skill_name, loadManifest(skillsDir, args.skill_name, liveSource));
+      }
+
       console.log(`evolve_skill: pre-researching "${args.skill_name}"...`);
       const research = await preResearch(args.description);
       console.log(`evolve_skill: found ${research.urls.length} URLs, ${research.pages.length} pages`);
@@ -173,7 +210,9 @@ export function createEvolveTool(skillsDir: string, aiConfig: AiConfig): Tool {
         : '';
 
       const prompt = [
-        `Create a skill file at ${filePath} that: ${args.description}`,
+        liveSource !== null
+          ? `Update the skill file at ${stagedPath} (read it first — it is the current version) so that: ${args.description}`
+          : `Create a skill file at ${stagedPath} that: ${args.description}`,
         researchContext,
         '',
         '=== STEP 1: ANALYZE DOCUMENTATION ===',
@@ -201,7 +240,10 @@ export function createEvolveTool(skillsDir: string, aiConfig: AiConfig): Tool {
         '- Export a `tools` object (not array) where keys are tool names and values are tool() calls',
         '- Each tool\'s execute returns a JSON string',
         '- Use fetch() for HTTP requests (no extra deps)',
-        `- Write the file to: ${filePath}`,
+        '- Write API base URLs as full literal strings (e.g. "https://api.example.com/v1") — the skill runs in a sandbox '
+          + 'that only allows hosts appearing in its code',
+        '- Do not spawn processes or touch files: the sandbox blocks both',
+        `- Write the file to: ${stagedPath}`,
         '',
         'Auth handling:',
         '- Read credentials from env variables (e.g. process.env.SERVICE_NAME_API_KEY)',
@@ -209,7 +251,15 @@ export function createEvolveTool(skillsDir: string, aiConfig: AiConfig): Tool {
         '  { error: "auth_required", auth_url: "REAL URL from documentation", auth_methods: [...], message: "clear instructions" }',
         '- auth_url MUST come from the documentation found above — NEVER invent URLs',
         '',
-        '=== STEP 3: SUMMARY ===',
+        '=== STEP 3: WRITE TESTS ===',
+        `Write 1-3 example invocations to ${stagedTestsPath} as a JSON array:`,
+        TESTS_TEMPLATE,
+        '- Use realistic inputs that should succeed against the real API',
+        '- "expect.keys": top-level keys a successful JSON result must have',
+        '- A call that returns auth_required because credentials are missing counts as skipped, not failed',
+        '- The tests run in the sandbox before the skill is activated — a skill that fails them is NOT installed',
+        '',
+        '=== STEP 4: SUMMARY ===',
         'Output a brief summary:',
         '- What API documentation you found (with real URLs)',
         '- What auth methods are available',
@@ -226,8 +276,9 @@ export function createEvolveTool(skillsDir: string, aiConfig: AiConfig): Tool {
             content: z.string().describe('File content'),
           }),
           execute: async (a) => {
-            if (!a.path.startsWith(skillsDir)) {
-              return JSON.stringify({ error: `Cannot write outside ${skillsDir}` });
+            // Only staging: the live skill is replaced after the tests pass
+            if (!resolve(a.path).startsWith(stagedDir + sep)) {
+              return JSON.stringify({ error: `Cannot write outside ${stagedDir}` });
             }
             writeFileSync(a.path, a.content, 'utf-8');
             return JSON.stringify({ success: true, path: a.path });
@@ -279,27 +330,96 @@ export function createEvolveTool(skillsDir: string, aiConfig: AiConfig): Tool {
         }),
       };
 
+      const generate = async (text: string): Promise<string> => {
+        try {
+          const model = await createBestModel(aiConfig);
+          const startedAt = Date.now();
+          const result = await generateText({
+            model,
+            system: [
+              `You are a skill developer for the Zaruka AI assistant. You create JavaScript skill files in ${skillsDir}.`,
+              '',
+              'YOUR #1 RULE: Use ONLY real URLs from the pre-research results or from web_fetch/web_search.',
+              'NEVER invent or guess URLs. If you cannot find real documentation, include that in your summary.',
+            ].join('\n'),
+            prompt: text,
+            tools: innerTools,
+            stopWhen: stepCountIs(6),
+          });
+          onUsage?.({
+            provider: aiConfig.provider,
+            model: result.response.modelId,
+            ...toAgentUsage(result.totalUsage),
+            steps: result.steps.length,
+            latencyMs: Date.now() - startedAt,
+          }, { ...getRequestContext(options), source: 'evolve_skill', sourceId: args.skill_name });
+          return result.text;
+        } catch (err) {
+          return `Error: ${err instanceof Error ? err.message : String(err)}`;
+        }
+      };
+
       let resultText = '';
-      try {
-        const model = await createBestModel(aiConfig);
-        const result = await generateText({
-          model,
-          system: [
-            `You are a skill developer for the Zaruka AI assistant. You create JavaScript skill files in ${skillsDir}.`,
-            '',
-            'YOUR #1 RULE: Use ONLY real URLs from the pre-research results or from web_fetch/web_search.',
-            'NEVER invent or guess URLs. If you cannot find real documentation, include that in your summary.',
-          ].join('\n'),
-          prompt,
-          tools: innerTools,
-          stopWhen: stepCountIs(6),
-        });
-        resultText = result.text;
-      } catch (err) {
-        resultText = `Error: ${err instanceof Error ? err.message : String(err)}`;
+      let testResults: SkillTestResult[] = [];
+      let testFailure: string | null = null;
+      let manifest: SkillManifest | null = null;
+      let unchanged = false;
+      let toolInfos: SandboxToolInfo[] = [];
+      let feedback = '';
+
+      for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+        resultText = await generate(feedback ? `${prompt}\n\n${feedback}` : prompt);
+        if (!existsSync(stagedPath)) {
+          testFailure = 'No skill file was written.';
+          break;
+        }
+        const source = readFileSync(stagedPath, 'utf-8');
+        if (source === liveSource) {
+          unchanged = true;
+          break;
+        }
+        // New code may call new hosts or read new credentials: extend the sandbox manifest
+        refreshManifest(stagedDir, args.skill_name, source, { version: nextVersion(skillsDir, args.skill_name) });
+
+        let tests: SkillTest[] = [];
+        try {
+          tests = loadTests(stagedDir, args.skill_name) ?? [];
+          testFailure = tests.length > 0 ? null : `No tests were written to ${stagedTestsPath}.`;
+        } catch (err) {
+          testFailure = `Invalid tests file: ${err instanceof Error ? err.message : String(err)}`;
+        }
+        if (tests.length > 0) {
+          console.log(`evolve_skill: testing "${args.skill_name}" (attempt ${attempt}/${MAX_ATTEMPTS})...`);
+          testResults = await runSkillTests(skillsDir, relative(skillsDir, stagedPath), tests);
+          testFailure = testsPassed(testResults) ? null : formatTestReport(args.skill_name, testResults);
+        }
+
+        if (!testFailure) {
+          try {
+            toolInfos = await describeSkill(skillsDir, relative(skillsDir, stagedPath));
+          } catch { /* the tests passed, so the skill loads */ }
+          const description = toolInfos.map((info) => info.description).filter(Boolean).join('; ');
+          manifest = promoteStagedSkill(skillsDir, args.skill_name, {
+            description: description || args.description.slice(0, 200),
+            prompt: args.description,
+          });
+          break;
+        }
+
+        console.log(`evolve_skill: "${args.skill_name}" failed its tests:\n${testFailure}`);
+        feedback = [
+          '=== PREVIOUS ATTEMPT FAILED ===',
+          testFailure,
+          `Read ${stagedPath}, fix the problem and write the file again. Keep ${stagedTestsPath} up to date — `
+            + 'fix a test only if the test itself was wrong.',
+        ].join('\n');
       }
 
-      const created = existsSync(filePath);
+      const created = manifest !== null || (unchanged && liveSource !== null);
+      if (!manifest) {
+        discardStaged(skillsDir, args.skill_name);
+        if (unchanged && liveSource !== null) manifest = loadManifest(skillsDir, args.skill_name, liveSource);
+      }
 
       // Build auth_info from multiple sources
       const authParts: string[] = [];
@@ -334,8 +454,13 @@ export function createEvolveTool(skillsDir: string, aiConfig: AiConfig): Tool {
         success: created,
         skill_name: args.skill_name,
         auth_info: authInfo || null,
+        version: manifest?.version ?? null,
+        tools: toolInfos.map((info) => ({ name: info.name, description: info.description, input_schema: info.inputSchema })),
+        tests: testResults.length > 0 ? formatTestReport(args.skill_name, testResults) : null,
+        sandbox: manifest ? { allowed_hosts: manifest.hosts, env: manifest.env } : null,
         _behavior: created
-          ? 'Capability ready. To use it NOW, call execute_dynamic_skill with the tool name and args. '
+          ? 'Capability ready. From the next message its tools are regular tools; to use it NOW, call execute_dynamic_skill '
+            + 'with the tool name and args. '
             + 'Do NOT tell the user to "write again" or "try again" — execute it IMMEDIATELY via execute_dynamic_skill. '
             + 'Do NOT tell the user you created or learned anything new. '
             + 'Act as if you ALWAYS had this capability. '
@@ -343,7 +468,8 @@ export function createEvolveTool(skillsDir: string, aiConfig: AiConfig): Tool {
             + 'You MUST include these URLs in your response as clickable links. '
             + 'NEVER give navigation steps like "go to Settings → API" — give the direct URL. '
             + 'If credentials are needed, ask naturally and provide the real URLs from auth_info.'
-          : `Setup failed: ${resultText}. Try a different approach or inform the user.`,
+          : `Setup failed: ${testFailure ?? resultText}. The previous version (if any) is still active. `
+            + 'Try a different approach or inform the user.',
       });
       } finally {
         evolvingSkills.delete(args.skill_name);
@@ -0,0 +1,101 @@
+/**
+ * Output contract for action tasks that don't message the user after every
+ * run. The instruction asks the AI to end its answer with a machine-readable
+ * verdict; the scheduler strips it and decides from it whether to notify.
+ */
+import type { Task, TaskRun } from '../core/types.js';
+
+/** What the AI reports about a run, besides its answer. */
+export interface ActionVerdict {
+  /** Whether the task's condition holds ('condition' policy). */
+  notify?: boolean;
+  /** The tracked value(s) in a short, stable form, compared between runs ('changed' policy). */
+  state?: string;
+}
+
+export interface ActionResult {
+  /** The answer for the user, without the verdict. */
+  text: string;
+  /** Null when the AI didn't follow the contract. */
+  verdict: ActionVerdict | null;
+}
+
+const VERDICT_PATTERN = /<verdict>([\s\S]*?)<\/verdict>/g;
+
+/**
+ * The instruction sent to the AI: the task's own, plus the verdict it must report.
+ * `previousState` is the last run's state, shown so the model reuses its exact
+ * format — otherwise "BTC 64210 USD" vs "BTC: 64,210 USD" would count as a change.
+ */
+export function actionPrompt(
+  task: Pick<Task, 'action' | 'notify_policy' | 'notify_condition'>,
+  previousState?: string | null,
+): string {
+  const instruction = task.action ?? '';
+  if (task.notify_policy === 'always') return instruction;
+
+  const lines = [instruction, '', '<output_contract>'];
+  if (task.notify_policy === 'condition') {
+    const condition = task.notify_condition || 'the result is worth interrupting the user for';
+    lines.push(
+      'After your answer, add one last line: <verdict>{"notify": true|false, "state": "..."}</verdict>',
+      `"notify" is true only if this condition holds: ${condition}`,
+      'The user only sees your answer when "notify" is true.',
+    );
+  } else {
+    lines.push(
+      'After your answer, add one last line: <verdict>{"state": "..."}</verdict>',
+      'The user only sees your answer when "state" differs from the previous run.',
+    );
+  }
+  lines.push(
+    '"state" is the value(s) this task tracks in a short, stable form (e.g. "BTC 64210 USD", "3 open issues") — '
+      + 'no timestamps, no wording that changes between runs.',
+  );
+  if (previousState) {
+    lines.push(
+      `The previous run reported: "state": ${JSON.stringify(previousState)}`,
+      'Use exactly the same format. If the tracked value has not changed, repeat it character for character.',
+    );
+  }
+  lines.push('</output_contract>');
+  return lines.join('\n');
+}
+
+/** Split the AI's reply into the answer and its verdict (the last one, if several). */
+export function parseActionResult(reply: string): ActionResult {
+  const matches = [...reply.matchAll(VERDICT_PATTERN)];
+  const text = reply.replace(VERDICT_PATTERN, '').trim();
+  const last = matches.at(-1);
+  if (!last) return { text, verdict: null };
+
+  try {
+    const raw = JSON.parse(last[1].trim()) as Record<string, unknown>;
+    const verdict: ActionVerdict = {};
+    if (typeof raw.notify === 'boolean') verdict.notify = raw.notify;
+    if (raw.state !== undefined && raw.state !== null) {
+      verdict.state = typeof raw.state === 'string' ? raw.state.trim() : JSON.stringify(raw.state);
+    }
+    return { text, verdict };
+  } catch {
+    return { text, verdict: null };
+  }
+}
+
+/**
+ * Whether a successful run messages the user. The first run always does, and
+ * so does a run without a usable verdict: a broken contract should not
+ * silently swallow results. Stored runs are compared, so both sides are
+ * redacted and truncated the same way.
+ */
+export function shouldNotify(
+  task: Pick<Task, 'notify_policy'>,
+  result: ActionResult,
+  run: TaskRun,
+  previous: TaskRun | undefined,
+): boolean {
+  if (task.notify_policy === 'always' || result.verdict === null) return true;
+  if (task.notify_policy === 'condition') return result.verdict.notify ?? true;
+  if (task.notify_policy === 'changed') return !previous || (run.state ?? run.output) !== (previous.state ?? previous.output);
+  return true;
+}
@@ -1,36 +1,57 @@
 import cron from 'node-cron';
-import type { TaskRepository } from '../db/repository.js';
+import type { Occurrence, TaskRepository } from '../db/repository.js';
+import type { Task, TaskRunResult, TaskRunTrigger } from '../core/types.js';
 import type { ConfigManager } from '../core/config-manager.js';
+import type { UsageRepository } from '../db/usage-repository.js';
 import { getResourceSnapshot, formatResourceReport } from '../monitor/resources.js';
+import { getBudgetStatuses, formatUsd } from '../core/budget.js';
+import { actionPrompt, parseActionResult, shouldNotify } from './action-contract.js';
+
+/** Delivers a reminder with Done / Snooze / Skip buttons. A 'notice' is the advance notice before a task is due. */
+export type ReminderSender = (task: Task, message: string, kind: 'due' | 'notice') => Promise<void>;
 
 export class Scheduler {
   private taskJob: cron.ScheduledTask | null = null;
   private resourceJob: cron.ScheduledTask | null = null;
+  private budgetJob: cron.ScheduledTask | null = null;
   private repo: TaskRepository;
-  private timezone: string;
   private notifyFn: (message: string) => Promise<void>;
-  private executeAction: ((instruction: string) => Promise<string>) | null;
+  private executeAction: ((instruction: string, taskId?: number) => Promise<string>) | null;
   private configManager: ConfigManager;
+  private usageRepo: UsageRepository | null;
+  private sendReminder: ReminderSender;
   private lastAlerts: Map<string, number> = new Map(); // resource → last alert timestamp
+  private taskCheck: Promise<void> | null = null;
+  private taskTimezone: string; // default timezone the stored fire times were computed in
   private static ALERT_COOLDOWN_MS = 15 * 60 * 1000; // 15 minutes
+  private static MISSED_AFTER_MS = 5 * 60 * 1000; // later than this, an occurrence was missed rather than just due
+  private static MAX_CATCH_UP = 10; // runs per task with the 'all' catch-up policy
+  private static MAX_ESCALATIONS = 12; // re-sends of an unacknowledged reminder
 
   constructor(
     repo: TaskRepository,
     timezone: string,
     notifyFn: (message: string) => Promise<void>,
     configManager: ConfigManager,
-    executeAction?: (instruction: string) => Promise<string>,
+    executeAction?: (instruction: string, taskId?: number) => Promise<string>,
+    usageRepo?: UsageRepository,
+    sendReminder?: ReminderSender,
   ) {
     this.repo = repo;
-    this.timezone = timezone;
     this.notifyFn = notifyFn;
     this.configManager = configManager;
     this.executeAction = executeAction ?? null;
+    this.usageRepo = usageRepo ?? null;
+    this.sendReminder = sendReminder ?? ((_task, message) => notifyFn(message));
+    this.taskTimezone = configManager.getConfig().timezone;
+
+    // Tasks created before absolute fire times existed
+    const scheduled = this.repo.rescheduleAll('unscheduled');
+    if (scheduled > 0) console.log(`Scheduler: computed fire times for ${scheduled} task(s)`);
 
-    // Check tasks every minute
-    this.taskJob = cron.schedule('* * * * *', () => {
-      this.checkTasks().catch(console.error);
-    }, { timezone });
+    // Check tasks every minute, and right away for anything missed while the bot was down
+    this.taskJob = cron.schedule('* * * * *', () => this.runTaskCheck(), { timezone });
+    this.runTaskCheck();
 
     // Resource monitoring cron
     if (this.configManager.isResourceMonitorEnabled()) {
@@ -39,38 +60,180 @@ export class Scheduler {
         this.checkResources().catch(console.error);
       }, { timezone });
     }
+
+    // Budget alerts
+    if (this.usageRepo) {
+      this.budgetJob = cron.schedule('*/5 * * * *', () => {
+        this.checkBudgets().catch(console.error);
+      }, { timezone });
+    }
+  }
+
+  /** Long action tasks can outlast a tick; the next check waits for this one instead of firing tasks twice. */
+  private runTaskCheck(): void {
+    if (this.taskCheck) return;
+    this.taskCheck = this.checkTasks()
+      .catch(console.error)
+      .finally(() => { this.taskCheck = null; });
   }
 
   private async checkTasks(): Promise<void> {
-    const tasks = this.repo.getDueNow(this.timezone);
+    // Tasks without their own timezone follow the user's; move them when it changes (e.g. after travel)
+    const timezone = this.configManager.getConfig().timezone;
+    if (timezone !== this.taskTimezone) {
+      this.taskTimezone = timezone;
+      this.repo.rescheduleAll('default_timezone');
+    }
+
+    await this.fireDueTasks();
+    await this.resendSnoozed();
+    await this.escalate();
+    await this.sendNotices();
+  }
+
+  private async fireDueTasks(): Promise<void> {
+    const tasks = this.repo.getDueNow();
     if (tasks.length === 0) return;
 
+    // Decide what to run before running anything, so the missed summary comes first
+    const runs: Array<{ task: Task; occurrences: Occurrence[]; late: boolean }> = [];
+    const missed: string[] = [];
     for (const task of tasks) {
-      try {
-        if (task.action && this.executeAction) {
-          // Action task — run AI with the instruction and send result
-          const result = await this.executeAction(task.action);
-          const message = `🤖 [${task.title}]\n\n${result}`;
-          await this.notifyFn(message);
-        } else {
-          // Simple reminder
-          const due = task.due_date ? ` (${task.due_date} ${task.due_time})` : '';
-          const desc = task.description ? `\n${task.description}` : '';
-          await this.notifyFn(`⏰ ${task.title}${due}${desc}`);
-        }
-      } catch (err) {
-        console.error(`Scheduler: error processing task #${task.id}:`, err);
+      const { occurrences, total } = this.repo.pendingOccurrences(task, Scheduler.MAX_CATCH_UP);
+      const late = total > 1 || occurrences.some((o) => o.lateMs > Scheduler.MISSED_AFTER_MS);
+      if (!late) {
+        runs.push({ task, occurrences, late });
+        continue;
+      }
+
+      const fire = task.catch_up === 'skip' ? [] : task.catch_up === 'all' ? occurrences : occurrences.slice(-1);
+      runs.push({ task, occurrences: fire, late });
+      const since = total > 1 ? `${total}× since ${task.due_date} ${task.due_time}` : `${task.due_date} ${task.due_time}`;
+      const outcome = fire.length === 0 ? 'skipped'
+        : fire.length === total ? (total > 1 ? 'all sent now' : 'sent now')
+        : fire.length === 1 ? 'sent once now' : `last ${fire.length} sent now`;
+      missed.push(`• ${task.title} (${since}) — ${outcome}`);
+    }
+
+    if (missed.length > 0) {
+      await this.notifyFn('📭 Catching up on missed tasks\n\n' + missed.join('\n')).catch(console.error);
+    }
+
+    for (const { task, occurrences, late } of runs) {
+      for (const occurrence of occurrences) {
+        await this.runTask(task, late ? occurrence : undefined);
       }
 
-      // Advance recurring tasks or complete one-time tasks
+      // Advance recurring tasks past now, or complete one-time tasks — unless a reminder waits to be acknowledged
+      const awaitsAck = !task.action && occurrences.length > 0;
       if (task.recurrence) {
-        this.repo.advanceRecurrence(task.id, this.timezone);
+        this.repo.advanceRecurrence(task.id);
+        if (awaitsAck) this.repo.markNotified(task.id);
+      } else if (awaitsAck && task.escalate_minutes) {
+        this.repo.awaitAcknowledgement(task.id);
       } else {
         this.repo.complete(task.id);
       }
     }
   }
 
+  private async resendSnoozed(): Promise<void> {
+    for (const task of this.repo.takeSnoozedDue()) {
+      const desc = task.description ? `\n${task.description}` : '';
+      await this.deliver(task, `⏰ ${task.title}${desc}`, 'due');
+      if (task.recurrence || task.escalate_minutes) this.repo.markNotified(task.id);
+      else this.repo.complete(task.id);
+    }
+  }
+
+  /** Re-send reminders nobody has acknowledged yet. */
+  private async escalate(): Promise<void> {
+    for (const task of this.repo.getEscalationsDue(Scheduler.MAX_ESCALATIONS)) {
+      const desc = task.description ? `\n${task.description}` : '';
+      await this.deliver(task, `🔔 Still waiting: ${task.title}${desc}`, 'due');
+      this.repo.markNotified(task.id, true);
+    }
+  }
+
+  private async sendNotices(): Promise<void> {
+    for (const task of this.repo.getNoticesDue()) {
+      const desc = task.description ? `\n${task.description}` : '';
+      await this.deliver(task, `📅 Coming up: ${task.title} (${task.due_date} ${task.due_time})${desc}`, 'notice');
+      this.repo.markNotified(task.id);
+    }
+  }
+
+  private async deliver(task: Task, message: string, kind: 'due' | 'notice'): Promise<void> {
+    try {
+      await this.sendReminder(task, message, kind);
+    } catch (err) {
+      console.error(`Scheduler: error sending reminder for task #${task.id}:`, err);
+    }
+  }
+
+  /** Run an action task on demand ("Run now"). Its schedule is left as it is. */
+  async runNow(taskId: number): Promise<TaskRunResult | undefined> {
+    const task = this.repo.getById(taskId);
+    if (!task?.action || task.status === 'deleted') return undefined;
+    return this.executeTask(task, 'manual');
+  }
+
+  /**
+   * Run the task's AI instruction and record the outcome in its run history.
+   * `notified` on the returned run says whether the result is worth a message
+   * under the task's notify policy; failures and manual runs always are.
+   */
+  private async executeTask(task: Task, trigger: TaskRunTrigger, scheduledFor?: string): Promise<TaskRunResult> {
+    const previous = this.repo.getLastSuccessfulRun(task.id);
+    const startedAt = Date.now();
+    let reply: string;
+    let success = true;
+    try {
+      reply = this.executeAction ? await this.executeAction(actionPrompt(task, previous?.state), task.id) : 'AI not configured';
+    } catch (err) {
+      reply = err instanceof Error ? err.message : String(err);
+      success = false;
+    }
+    const result = success ? parseActionResult(reply) : { text: reply, verdict: null };
+    const run = this.repo.recordRun({
+      taskId: task.id, trigger, scheduledFor, durationMs: Date.now() - startedAt, success,
+      output: result.text, state: result.verdict?.state,
+    });
+
+    const notify = !success || trigger === 'manual'
+      || shouldNotify(task, result, run, previous);
+    if (!notify) this.repo.setRunNotified(run.id, false);
+    return { run: { ...run, notified: notify ? 1 : 0 }, text: result.text };
+  }
+
+  /** Send a reminder or run an action task. `missed` is set when catching up on a past occurrence. */
+  private async runTask(task: Task, missed?: Occurrence): Promise<void> {
+    try {
+      const lateNote = missed ? ` (missed ${missed.date} ${missed.time})` : '';
+      if (task.action && this.executeAction) {
+        // Action task — run AI with the instruction and send result
+        const occurrence = missed ?? (task.due_date ? { date: task.due_date, time: task.due_time } : undefined);
+        const { run, text } = await this.executeTask(task, missed ? 'catch_up' : 'schedule',
+          occurrence && `${occurrence.date} ${occurrence.time}`);
+        if (!run.notified) {
+          console.log(`Scheduler: task #${task.id} ran, nothing to report (${task.notify_policy})`);
+          return;
+        }
+        const message = run.success
+          ? `🤖 [${task.title}]${lateNote}\n\n${text}`
+          : `⚠️ [${task.title}]${lateNote} failed\n\n${text}`;
+        await this.notifyFn(message);
+      } else {
+        // Simple reminder
+        const due = missed ? lateNote : task.due_date ? ` (${task.due_date} ${task.due_time})` : '';
+        const desc = task.description ? `\n${task.description}` : '';
+        await this.sendReminder(task, `⏰ ${task.title}${due}${desc}`, 'due');
+      }
+    } catch (err) {
+      console.error(`Scheduler: error processing task #${task.id}:`, err);
+    }
+  }
+
   private async checkResources(): Promise<void> {
     if (!this.configManager.isResourceMonitorEnabled()) return;
 
@@ -111,6 +274,33 @@ export class Scheduler {
     }
   }
 
+  /** Alert once per period when spend crosses each configured percentage of a limit. */
+  private async checkBudgets(): Promise<void> {
+    if (!this.usageRepo) return;
+    const thresholds = [...this.configManager.getBudgets().alertAt].sort((a, b) => b - a);
+
+    for (const status of getBudgetStatuses(this.configManager, this.usageRepo)) {
+      const crossed = thresholds.find((p) => status.percent >= p);
+      if (crossed === undefined) continue;
+      const key = `${status.provider}:${status.period}:${status.periodKey}:${crossed}`;
+      if (this.usageRepo.hasBudgetAlert(key)) continue;
+
+      // Lower thresholds are implied — don't send them after a big jump
+      for (const p of thresholds.filter((p) => p <= crossed)) {
+        this.usageRepo.markBudgetAlert(`${status.provider}:${status.period}:${status.periodKey}:${p}`);
+      }
+
+      let message = `💸 Budget Alert\n\n${status.provider} ${status.period} spend: `
+        + `${formatUsd(status.spent)} of ${formatUsd(status.limit)} (${status.percent}%)`;
+      if (status.hardCap && status.spent >= status.limit) {
+        message += status.hardCap === 'refuse'
+          ? '\n\nHard cap reached — requests to this provider are refused until the period ends.'
+          : '\n\nHard cap reached — requests are routed to your other providers until the period ends.';
+      }
+      await this.notifyFn(message);
+    }
+  }
+
   private isOnCooldown(resource: string, now: number): boolean {
     const lastAlert = this.lastAlerts.get(resource);
     if (!lastAlert) return false;
@@ -120,10 +310,12 @@ export class Scheduler {
   start(): void {
     this.taskJob?.start();
     this.resourceJob?.start();
+    this.budgetJob?.start();
   }
 
   stop(): void {
     this.taskJob?.stop();
     this.resourceJob?.stop();
+    this.budgetJob?.stop();
   }
 }
@@ -0,0 +1,68 @@
+/**
+ * Wall-clock time helpers. Recurrences are expanded in the task's local wall
+ * time (RRULE TZID semantics: "9:00 daily" stays 9:00 across DST changes) and
+ * only then turned into absolute instants. Wall times are carried as "fake UTC"
+ * Dates — the UTC fields hold the local date and time — which is what rrule expects.
+ */
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timezone: string): Intl.DateTimeFormat {
+  let f = formatters.get(timezone);
+  if (!f) {
+    f = new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone,
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit', hourCycle: 'h23',
+    });
+    formatters.set(timezone, f);
+  }
+  return f;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    formatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Convert a local date+time pair into a "fake UTC" Date for rrule math. */
+export function localToFakeUtc(dateStr: string, timeStr: string): Date {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  const [h, min] = timeStr.split(':').map(Number);
+  return new Date(Date.UTC(y, m - 1, d, h, min, 0));
+}
+
+/** Split a "fake UTC" Date back into local date and time strings. */
+export function fakeUtcToLocal(d: Date): { date: string; time: string } {
+  const iso = d.toISOString();
+  return { date: iso.slice(0, 10), time: iso.slice(11, 16) };
+}
+
+/** The wall-clock time in a timezone at an instant, as a "fake UTC" Date. */
+export function toWallClock(instant: Date, timezone: string): Date {
+  const parts = formatter(timezone).formatToParts(instant);
+  const get = (type: string) => +parts.find((p) => p.type === type)!.value;
+  return new Date(Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')));
+}
+
+/**
+ * The instant a wall-clock time happens in a timezone. A time skipped by a DST
+ * jump resolves to the same wall time after the jump (02:30 → 03:30); a time
+ * that happens twice resolves to the first.
+ */
+export function wallClockToInstant(wall: Date, timezone: string): Date {
+  const offsetAt = (instant: number) => toWallClock(new Date(instant), timezone).getTime() - instant;
+  // Offsets just before and after the wall time bracket any DST change near it
+  const before = offsetAt(wall.getTime() - 86_400_000);
+  const after = offsetAt(wall.getTime() + 86_400_000);
+  const first = wall.getTime() - before;
+  if (toWallClock(new Date(first), timezone).getTime() === wall.getTime()) return new Date(first);
+  const second = wall.getTime() - after;
+  if (toWallClock(new Date(second), timezone).getTime() === wall.getTime()) return new Date(second);
+  // In a DST gap: the clock jumped over this time, so shift by the jump
+  return new Date(wall.getTime() - before);
+}
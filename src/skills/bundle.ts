@@ -0,0 +1,154 @@
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { loadManifest, parseManifest, type SkillManifest } from './manifest.js';
+import { testsPath } from './skill-tests.js';
+import { installSkill, skillFile } from './versions.js';
+import { containsSecrets } from '../vault/redaction.js';
+
+export const BUNDLE_EXTENSION = '.zskill';
+/** Bundles are small JSON files; anything bigger is not one. */
+export const MAX_BUNDLE_BYTES = 1024 * 1024;
+
+const BUNDLE_FORMAT = 'zaruka-skill';
+const BUNDLE_FORMAT_VERSION = 1;
+
+/** What travels with a skill. The prompt and enabled state stay on the exporting install. */
+type BundledManifest = Omit<SkillManifest, 'prompt' | 'enabled'>;
+
+/**
+ * A portable skill: code, manifest and tests in one JSON file. Credentials are
+ * listed by name only — the importer adds their own values.
+ */
+export interface SkillBundle {
+  format: typeof BUNDLE_FORMAT;
+  formatVersion: number;
+  name: string;
+  exportedAt: string;
+  manifest: BundledManifest;
+  code: string;
+  tests: unknown[] | null;
+  credentials: string[];
+  /** SHA-256 over name, manifest, code and tests — catches truncated or edited files. */
+  sha256: string;
+}
+
+export class SkillBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SkillBundleError';
+  }
+}
+
+function checksum(bundle: Pick<SkillBundle, 'name' | 'manifest' | 'code' | 'tests'>): string {
+  const payload = JSON.stringify([bundle.name, bundle.manifest, bundle.code, bundle.tests]);
+  return createHash('sha256').update(payload).digest('hex');
+}
+
+/** Paths under the home directory are written as ~/..., so they resolve on the importing machine. */
+function portablePath(path: string): string {
+  const home = homedir();
+  return path === home || path.startsWith(home + '/') ? '~' + path.slice(home.length) : path;
+}
+
+/** Pack an installed skill into a bundle. Returns the suggested file name and the file content. */
+export function exportSkill(skillsDir: string, skillName: string): { fileName: string; content: string } {
+  const file = skillFile(skillsDir, skillName);
+  if (!file) throw new SkillBundleError(`Skill "${skillName}" not found.`);
+  const code = readFileSync(file, 'utf-8');
+  // Secrets belong in the vault; a key pasted into the code would leave with the bundle
+  if (containsSecrets(code)) {
+    throw new SkillBundleError(`Skill "${skillName}" contains what looks like a secret. Move it to the vault before exporting.`);
+  }
+
+  const { prompt: _prompt, enabled: _enabled, ...manifest } = loadManifest(skillsDir, skillName, code);
+  manifest.fs = { read: manifest.fs.read.map(portablePath), write: manifest.fs.write.map(portablePath) };
+  const testsFile = testsPath(skillsDir, skillName);
+  const tests = existsSync(testsFile) ? JSON.parse(readFileSync(testsFile, 'utf-8')) as unknown[] : null;
+
+  const content = { name: skillName, manifest, code, tests };
+  const bundle: SkillBundle = {
+    format: BUNDLE_FORMAT,
+    formatVersion: BUNDLE_FORMAT_VERSION,
+    name: skillName,
+    exportedAt: new Date().toISOString(),
+    manifest,
+    code,
+    tests,
+    credentials: manifest.credentials,
+    sha256: checksum(content),
+  };
+  return { fileName: `${skillName}${BUNDLE_EXTENSION}`, content: JSON.stringify(bundle, null, 2) + '\n' };
+}
+
+/** Parse a bundle file and verify its checksum. Throws SkillBundleError if it is not a valid bundle. */
+export function parseBundle(raw: string | Buffer): SkillBundle {
+  if (raw.length > MAX_BUNDLE_BYTES) throw new SkillBundleError('File is too large to be a skill bundle.');
+  let data: Partial<SkillBundle>;
+  try {
+    data = JSON.parse(raw.toString()) as Partial<SkillBundle>;
+  } catch {
+    throw new SkillBundleError('Not a skill bundle (invalid JSON).');
+  }
+  if (data.format !== BUNDLE_FORMAT) throw new SkillBundleError('Not a skill bundle.');
+  if (data.formatVersion !== BUNDLE_FORMAT_VERSION) {
+    throw new SkillBundleError(`Unsupported bundle version ${data.formatVersion}. Update Zaruka to import it.`);
+  }
+  if (typeof data.name !== 'string' || !/^\w{1,50}$/.test(data.name)) throw new SkillBundleError('Bundle has an invalid skill name.');
+  if (typeof data.code !== 'string' || !data.manifest || typeof data.manifest !== 'object') {
+    throw new SkillBundleError('Bundle is incomplete.');
+  }
+  const tests = data.tests ?? null;
+  if (tests !== null && !Array.isArray(tests)) throw new SkillBundleError('Bundle has invalid tests.');
+  if (data.sha256 !== checksum({ name: data.name, manifest: data.manifest, code: data.code, tests })) {
+    throw new SkillBundleError('Checksum mismatch: the bundle was modified or damaged.');
+  }
+
+  const { prompt: _prompt, enabled: _enabled, ...manifest } = parseManifest(JSON.stringify(data.manifest), data.name);
+  return {
+    format: BUNDLE_FORMAT,
+    formatVersion: BUNDLE_FORMAT_VERSION,
+    name: data.name,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    manifest,
+    code: data.code,
+    tests,
+    credentials: manifest.credentials,
+    sha256: data.sha256,
+  };
+}
+
+/** Plain-text summary of what a bundle contains and the permissions it asks for. */
+export function formatBundleSummary(bundle: SkillBundle, skillsDir: string): string {
+  const m = bundle.manifest;
+  const none = '(none)';
+  const lines = [`${bundle.name} v${m.version}${m.description ? ` — ${m.description}` : ''}`];
+  const installed = skillFile(skillsDir, bundle.name);
+  if (installed) {
+    const current = loadManifest(skillsDir, bundle.name, readFileSync(installed, 'utf-8'));
+    lines.push(`Replaces the installed v${current.version} (kept, can be rolled back)`);
+  }
+  lines.push(
+    `Network: ${m.hosts.join(', ') || none}`,
+    `Environment: ${m.env.join(', ') || none}`,
+    `Credentials needed: ${bundle.credentials.join(', ') || none}`,
+  );
+  if (m.fs.read.length > 0) lines.push(`Reads: ${m.fs.read.join(', ')}`);
+  if (m.fs.write.length > 0) lines.push(`Writes: ${m.fs.write.join(', ')}`);
+  lines.push(
+    `Limits: ${Math.round(m.timeoutMs / 1000)} s, ${m.memoryMb} MB`,
+    `Tests: ${bundle.tests?.length ?? 0}`,
+    `SHA-256: ${bundle.sha256}`,
+  );
+  return lines.join('\n');
+}
+
+/** Install a verified bundle into skillsDir as the next version of the skill. */
+export function installBundle(skillsDir: string, bundle: SkillBundle): SkillManifest {
+  const now = new Date().toISOString();
+  return installSkill(skillsDir, bundle.name, {
+    source: bundle.code,
+    manifest: { ...bundle.manifest, enabled: true, createdAt: now, updatedAt: now },
+    tests: bundle.tests ? JSON.stringify(bundle.tests, null, 2) + '\n' : null,
+  });
+}
@@ -1,7 +1,9 @@
-import { existsSync, readdirSync, symlinkSync, mkdirSync, writeFileSync, readlinkSync, unlinkSync } from 'node:fs';
+import { existsSync, readdirSync, readFileSync, symlinkSync, mkdirSync, writeFileSync, readlinkSync, unlinkSync } from 'node:fs';
 import { join, dirname } from 'node:path';
-import { pathToFileURL, fileURLToPath } from 'node:url';
+import { fileURLToPath } from 'node:url';
 import type { ToolSet } from 'ai';
+import { describeSkill, sandboxedSkillTools, skillNameOf } from './sandbox.js';
+import { loadManifest } from './manifest.js';
 
 /**
  * Ensure the skills directory can resolve zaruka's node_modules
@@ -44,59 +46,49 @@ function ensureSkillsDeps(skillsDir: string): void {
 }
 
 /**
- * Load dynamic skills from the skills directory.
- * New format: each skill exports `tools` as a ToolSet (Record<string, Tool>).
+ * Tools of one skill file, described in the sandbox. Disabled skills have none.
+ * Tool names in `taken` (loaded from other skills) are skipped. Throws if the skill fails to load.
  */
-export async function loadDynamicSkills(skillsDir: string): Promise<ToolSet> {
+export async function loadSkill(skillsDir: string, file: string, taken: Set<string>): Promise<ToolSet> {
+  const manifest = loadManifest(skillsDir, skillNameOf(file), readFileSync(join(skillsDir, file), 'utf-8'));
+  if (!manifest.enabled) {
+    console.log(`Skills: ${file} is disabled`);
+    return {};
+  }
+  const infos = (await describeSkill(skillsDir, file)).filter((info) => {
+    if (!taken.has(info.name)) return true;
+    console.warn(`Skills: skipping duplicate tool "${info.name}" from ${file}`);
+    return false;
+  });
+  if (infos.length > 0) console.log(`Skills: loaded ${file}`);
+  return sandboxedSkillTools(skillsDir, file, infos);
+}
+
+/**
+ * Load dynamic skills from the skills directory, by skill name.
+ * Skill files are never imported into the bot process: their tool definitions are read
+ * in the sandbox, and every call runs there under the skill's manifest.
+ */
+export async function loadDynamicSkills(skillsDir: string): Promise<Map<string, ToolSet>> {
   ensureSkillsDeps(skillsDir);
 
+  const skills = new Map<string, ToolSet>();
   if (!existsSync(skillsDir)) {
-    return {};
+    return skills;
   }
 
   const files = readdirSync(skillsDir).filter((f) => f.endsWith('.js') || f.endsWith('.mjs'));
-  const tools: ToolSet = {};
+  const taken = new Set<string>();
 
   for (const file of files) {
     try {
-      const fullPath = join(skillsDir, file);
-      const mod = await import(pathToFileURL(fullPath).href);
-
-      let loadedCount = 0;
-
-      if (mod.tools && typeof mod.tools === 'object' && !Array.isArray(mod.tools)) {
-        // New format: tools is a ToolSet
-        for (const [name, t] of Object.entries(mod.tools)) {
-          if (name in tools) {
-            console.warn(`Skills: skipping duplicate tool "${name}" from ${file}`);
-            continue;
-          }
-          (tools as Record<string, unknown>)[name] = t;
-          loadedCount++;
-        }
-      } else if (Array.isArray(mod.tools) || Array.isArray(mod.default)) {
-        // Legacy format: tools is an array of { name, handler } (old Claude Agent SDK format)
-        const toolsList = Array.isArray(mod.tools) ? mod.tools : mod.default;
-        for (const t of toolsList) {
-          if (t && typeof t.name === 'string' && typeof t.handler === 'function') {
-            if (t.name in tools) {
-              console.warn(`Skills: skipping duplicate tool "${t.name}" from ${file}`);
-              continue;
-            }
-            // Wrap legacy tool into compatible shape for execute_dynamic_skill
-            (tools as Record<string, unknown>)[t.name] = { execute: t.handler };
-            loadedCount++;
-          }
-        }
-      }
-
-      if (loadedCount > 0) {
-        console.log(`Skills: loaded ${file}`);
-      }
+      const tools = await loadSkill(skillsDir, file, taken);
+      for (const name of Object.keys(tools)) taken.add(name);
+      skills.set(skillNameOf(file), tools);
     } catch (err) {
       console.error(`Skills: failed to load ${file}:`, err instanceof Error ? err.message : err);
     }
   }
 
-  return tools;
+  return skills;
 }
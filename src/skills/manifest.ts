@@ -0,0 +1,150 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { homedir } from 'node:os';
+
+/**
+ * Metadata and permissions of a dynamic skill, stored next to it as `<skill>.manifest.json`.
+ * Everything not listed under hosts/env/fs is denied inside the sandbox.
+ */
+export interface SkillManifest {
+  name: string;
+  /** Bumped every time evolve_skill rewrites the skill. Older versions live in .versions/. */
+  version: number;
+  description: string;
+  /** Credentials the user has to provide (env vars the code reads). */
+  credentials: string[];
+  /** The evolve_skill request the skill was generated from. */
+  prompt?: string;
+  /** Disabled skills stay on disk but are not offered to the model. */
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  /** Hosts the skill may connect to. `*.example.com` matches subdomains. */
+  hosts: string[];
+  /** Environment variables (usually vault credentials) passed to the skill. */
+  env: string[];
+  /** Extra paths the skill may read or write. The skill's own code is always readable. */
+  fs: { read: string[]; write: string[] };
+  timeoutMs: number;
+  memoryMb: number;
+}
+
+export const DEFAULT_TIMEOUT_MS = 30_000;
+export const DEFAULT_MEMORY_MB = 128;
+
+export function manifestPath(skillsDir: string, skillName: string): string {
+  return join(skillsDir, `${skillName}.manifest.json`);
+}
+
+/** Best guess from the code: hosts of literal URLs and referenced env vars. */
+export function inferManifest(skillName: string, source: string): SkillManifest {
+  const hosts = new Set<string>();
+  for (const m of source.matchAll(/https?:\/\/([a-z0-9.-]+\.[a-z]{2,})/gi)) hosts.add(m[1].toLowerCase());
+  const env = new Set(
+    [...source.matchAll(/process\.env(?:\.([A-Z][A-Z0-9_]*)|\[['"]([A-Z][A-Z0-9_]*)['"]\])/g)].map((m) => m[1] ?? m[2]),
+  );
+  const now = new Date().toISOString();
+  return {
+    name: skillName,
+    version: 1,
+    description: '',
+    credentials: [...env].sort(),
+    enabled: true,
+    createdAt: now,
+    updatedAt: now,
+    hosts: [...hosts].sort(),
+    env: [...env].sort(),
+    fs: { read: [], write: [] },
+    timeoutMs: DEFAULT_TIMEOUT_MS,
+    memoryMb: DEFAULT_MEMORY_MB,
+  };
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+function expandHome(path: string): string {
+  return path.startsWith('~/') ? join(homedir(), path.slice(2)) : path;
+}
+
+/** Parse a manifest file, filling in defaults for anything missing or malformed. */
+export function parseManifest(raw: string, skillName: string): SkillManifest {
+  const data = JSON.parse(raw) as Partial<Record<keyof SkillManifest, unknown>>;
+  const fs = (data.fs ?? {}) as { read?: unknown; write?: unknown };
+  const positive = (v: unknown, fallback: number) => (typeof v === 'number' && v > 0 ? v : fallback);
+  const text = (v: unknown) => (typeof v === 'string' ? v : undefined);
+  const createdAt = text(data.createdAt) ?? new Date(0).toISOString();
+  return {
+    name: skillName,
+    version: positive(data.version, 1),
+    description: text(data.description) ?? '',
+    credentials: stringList(data.credentials),
+    ...(text(data.prompt) ? { prompt: text(data.prompt) } : {}),
+    enabled: data.enabled !== false,
+    createdAt,
+    updatedAt: text(data.updatedAt) ?? createdAt,
+    hosts: stringList(data.hosts).map((h) => h.toLowerCase()),
+    env: stringList(data.env),
+    fs: { read: stringList(fs.read).map(expandHome), write: stringList(fs.write).map(expandHome) },
+    timeoutMs: positive(data.timeoutMs, DEFAULT_TIMEOUT_MS),
+    memoryMb: positive(data.memoryMb, DEFAULT_MEMORY_MB),
+  };
+}
+
+export function writeManifest(skillsDir: string, skillName: string, manifest: SkillManifest): void {
+  writeFileSync(manifestPath(skillsDir, skillName), JSON.stringify(manifest, null, 2) + '\n');
+}
+
+/**
+ * The skill's manifest. Skills created before sandboxing have none: one is
+ * inferred from the code and written out so the owner can review and tighten it.
+ */
+export function loadManifest(skillsDir: string, skillName: string, source: string): SkillManifest {
+  const path = manifestPath(skillsDir, skillName);
+  if (existsSync(path)) {
+    try {
+      return parseManifest(readFileSync(path, 'utf-8'), skillName);
+    } catch (err) {
+      // Fail closed: a broken manifest grants nothing
+      console.error(`Skills: invalid manifest ${path}:`, err instanceof Error ? err.message : err);
+      return { ...inferManifest(skillName, ''), hosts: [], env: [] };
+    }
+  }
+  const manifest = inferManifest(skillName, source);
+  writeManifest(skillsDir, skillName, manifest);
+  console.log(`Skills: wrote manifest for ${skillName} (hosts: ${manifest.hosts.join(', ') || 'none'})`);
+  return manifest;
+}
+
+/**
+ * After evolve_skill (re)generated a skill: record the new version and add hosts
+ * and env vars its code uses, keeping whatever the owner already granted or restricted.
+ */
+export function refreshManifest(
+  skillsDir: string,
+  skillName: string,
+  source: string,
+  meta: { version: number; description?: string; prompt?: string },
+): SkillManifest {
+  const inferred = inferManifest(skillName, source);
+  const current = existsSync(manifestPath(skillsDir, skillName)) ? loadManifest(skillsDir, skillName, source) : inferred;
+  const merged: SkillManifest = {
+    ...current,
+    version: meta.version,
+    description: meta.description ?? current.description,
+    credentials: inferred.credentials,
+    ...(meta.prompt ? { prompt: meta.prompt } : {}),
+    updatedAt: new Date().toISOString(),
+    hosts: [...new Set([...current.hosts, ...inferred.hosts])].sort(),
+    env: [...new Set([...current.env, ...inferred.env])].sort(),
+  };
+  writeManifest(skillsDir, skillName, merged);
+  return merged;
+}
+
+/** Whether a hostname is covered by the manifest's host list. */
+export function hostAllowed(host: string, allowed: string[]): boolean {
+  const h = host.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  return allowed.some((pattern) => (pattern.startsWith('*.') ? h.endsWith(pattern.slice(1)) : h === pattern));
+}
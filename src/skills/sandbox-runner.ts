@@ -0,0 +1,142 @@
+/**
+ * Entry point of the sandbox process (see sandbox.ts). Receives one request
+ * over IPC, runs it against the skill file and exits.
+ */
+import dgram from 'node:dgram';
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+import { syncBuiltinESMExports } from 'node:module';
+import { pathToFileURL } from 'node:url';
+import { asSchema } from 'ai';
+import { hostAllowed } from './manifest.js';
+import type { SandboxRequest, SandboxResponse, SandboxToolInfo } from './sandbox.js';
+
+type SkillTool = { description?: string; inputSchema?: unknown; execute?: (input: unknown) => unknown };
+type LegacyTool = { name?: unknown; description?: unknown; handler?: unknown };
+
+/**
+ * Reject connections to hosts the manifest doesn't list. Every TCP connection
+ * (net, tls, http(s), fetch) goes through Socket#connect; UDP is refused outright.
+ */
+function guardNetwork(hosts: string[]): void {
+  const check = (host: unknown) => {
+    const name = typeof host === 'string' && host ? host : 'localhost';
+    if (!hostAllowed(name, hosts)) {
+      throw new Error(`Network access to "${name}" is not allowed by this skill's manifest`);
+    }
+  };
+  const hostOf = (target: unknown): unknown => {
+    if (typeof target === 'string') return new URL(target).hostname;
+    if (target instanceof URL) return target.hostname;
+    if (target && typeof target === 'object') {
+      const opts = target as { hostname?: unknown; host?: unknown };
+      return opts.hostname ?? opts.host;
+    }
+    return undefined;
+  };
+
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (input, init) => {
+    check(new URL(input instanceof Request ? input.url : String(input)).hostname);
+    return originalFetch(input, init);
+  };
+
+  for (const mod of [http, https]) {
+    const request = mod.request as (...a: unknown[]) => http.ClientRequest;
+    const get = mod.get as (...a: unknown[]) => http.ClientRequest;
+    mod.request = ((...args: unknown[]) => { check(hostOf(args[0])); return request(...args); }) as typeof mod.request;
+    mod.get = ((...args: unknown[]) => { check(hostOf(args[0])); return get(...args); }) as typeof mod.get;
+  }
+  const socketConnect = net.Socket.prototype.connect as (this: net.Socket, ...a: unknown[]) => net.Socket;
+  net.Socket.prototype.connect = function (this: net.Socket, ...args: unknown[]) {
+    // net.connect() and tls.connect() pass their arguments already normalized, as [options, listener]
+    const [target, host] = Array.isArray(args[0]) ? (args[0] as unknown[]) : args;
+    // (port, host) form; an IPC path or a port alone means this machine
+    check(typeof target === 'object' ? hostOf(target) : typeof host === 'string' ? host : undefined);
+    return socketConnect.apply(this, args);
+  } as typeof net.Socket.prototype.connect;
+
+  const refuseUdp = () => {
+    throw new Error('UDP is not allowed inside the skill sandbox');
+  };
+  dgram.createSocket = refuseUdp as typeof dgram.createSocket;
+  for (const method of ['bind', 'connect', 'send'] as const) {
+    dgram.Socket.prototype[method] = refuseUdp as never;
+  }
+
+  // Make `import { request } from 'node:http'` see the guarded versions too
+  syncBuiltinESMExports();
+}
+
+async function describe(mod: Record<string, unknown>): Promise<SandboxToolInfo[]> {
+  if (mod.tools && typeof mod.tools === 'object' && !Array.isArray(mod.tools)) {
+    const infos: SandboxToolInfo[] = [];
+    for (const [name, t] of Object.entries(mod.tools as Record<string, SkillTool>)) {
+      if (!t || typeof t.execute !== 'function') continue;
+      infos.push({
+        name,
+        description: typeof t.description === 'string' ? t.description : '',
+        inputSchema: t.inputSchema
+          ? await asSchema(t.inputSchema as Parameters<typeof asSchema>[0]).jsonSchema
+          : { type: 'object', additionalProperties: true },
+      });
+    }
+    return infos;
+  }
+  // Legacy format: an array of { name, handler }
+  const list = Array.isArray(mod.tools) ? mod.tools : Array.isArray(mod.default) ? mod.default : [];
+  return (list as LegacyTool[])
+    .filter((t) => t && typeof t.name === 'string' && typeof t.handler === 'function')
+    .map((t) => ({
+      name: t.name as string,
+      description: typeof t.description === 'string' ? t.description : '',
+      inputSchema: { type: 'object', additionalProperties: true },
+    }));
+}
+
+function findTool(mod: Record<string, unknown>, toolName: string): { execute: (input: unknown) => unknown; inputSchema?: unknown } | undefined {
+  if (mod.tools && typeof mod.tools === 'object' && !Array.isArray(mod.tools)) {
+    const t = (mod.tools as Record<string, SkillTool>)[toolName];
+    return typeof t?.execute === 'function' ? { execute: t.execute.bind(t), inputSchema: t.inputSchema } : undefined;
+  }
+  const list = Array.isArray(mod.tools) ? mod.tools : Array.isArray(mod.default) ? mod.default : [];
+  const legacy = (list as LegacyTool[]).find((t) => t?.name === toolName);
+  return typeof legacy?.handler === 'function' ? { execute: legacy.handler as (input: unknown) => unknown } : undefined;
+}
+
+/** One line per problem ("city: Required") for zod errors, the plain message otherwise. */
+function validationMessage(error: Error): string {
+  const issues = (error as { issues?: Array<{ path?: PropertyKey[]; message?: string }> }).issues
+    ?? (error.cause as { issues?: Array<{ path?: PropertyKey[]; message?: string }> } | undefined)?.issues;
+  if (!Array.isArray(issues)) return error.message;
+  return issues.map((i) => `${i.path?.map(String).join('.') || '(input)'}: ${i.message ?? 'invalid'}`).join('; ');
+}
+
+async function handle(req: SandboxRequest): Promise<SandboxResponse> {
+  guardNetwork(req.hosts);
+  const mod = await import(pathToFileURL(req.file).href) as Record<string, unknown>;
+  if (req.type === 'describe') {
+    return { ok: true, tools: await describe(mod) };
+  }
+  const target = findTool(mod, req.tool);
+  if (!target) return { ok: false, error: `Tool "${req.tool}" not found in ${req.file}` };
+
+  // The model only saw the schema as JSON Schema: check the arguments against the skill's own schema
+  let input: unknown = req.input ?? {};
+  if (target.inputSchema) {
+    const check = await asSchema(target.inputSchema as Parameters<typeof asSchema>[0]).validate?.(input);
+    if (check && !check.success) {
+      return { ok: true, result: JSON.stringify({ error: 'invalid_arguments', message: validationMessage(check.error) }) };
+    }
+    if (check) input = check.value;
+  }
+  const result = await target.execute(input);
+  return { ok: true, result: typeof result === 'string' ? result : JSON.stringify(result) };
+}
+
+process.once('message', (req: SandboxRequest) => {
+  handle(req)
+    .catch((err): SandboxResponse => ({ ok: false, error: err instanceof Error ? err.message : String(err) }))
+    .then((res) => process.send!(res, () => process.exit(0)));
+});
@@ -0,0 +1,170 @@
+import { fork } from 'node:child_process';
+import { readFileSync, realpathSync } from 'node:fs';
+import { basename, dirname, extname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { jsonSchema, tool, type JSONSchema7, type ToolSet } from 'ai';
+import { getVault, isAppSecretName } from '../vault/vault.js';
+import { loadManifest, type SkillManifest } from './manifest.js';
+
+export interface SandboxToolInfo {
+  name: string;
+  description: string;
+  inputSchema: JSONSchema7;
+}
+
+type SandboxCall = { type: 'describe' } | { type: 'execute'; tool: string; input: unknown };
+
+export type SandboxRequest = SandboxCall & { file: string; hosts: string[] };
+
+export type SandboxResponse =
+  | { ok: true; tools?: SandboxToolInfo[]; result?: string }
+  | { ok: false; error: string };
+
+/** A skill call that failed inside the sandbox (error, timeout, crash). The bot keeps running. */
+export class SkillSandboxError extends Error {
+  constructor(skillName: string, reason: string) {
+    super(`Skill "${skillName}" ${reason}`);
+    this.name = 'SkillSandboxError';
+  }
+}
+
+const thisFile = fileURLToPath(import.meta.url);
+/** Under tsx (dev) the runner is the .ts source, loaded through tsx's own execArgv. */
+const RUNNER = join(dirname(thisFile), `sandbox-runner${extname(thisFile)}`);
+const PROJECT_ROOT = join(dirname(thisFile), extname(thisFile) === '.ts' ? '../..' : '../../..');
+
+/** Node 20 calls the permission model experimental; 22+ has the stable flag. */
+const PERMISSION_FLAG = process.allowedNodeEnvironmentFlags.has('--permission') ? '--permission' : '--experimental-permission';
+
+/** Not secret, and harmless for any skill. */
+const BASE_ENV = ['TZ', 'LANG', 'LC_ALL'];
+/** Non-secret variables a manifest may additionally ask for; anything else has to come from the vault. */
+const PUBLIC_ENV = new Set(['NODE_ENV', 'LANGUAGE', 'LC_TIME', 'LC_NUMERIC', 'LC_MESSAGES']);
+
+export function skillNameOf(file: string): string {
+  return file.replace(/\.m?js$/, '');
+}
+
+/**
+ * Environment for the sandbox: declared variables only. Secrets come from the
+ * vault as scoped there, never from process.env, and Zaruka's own settings and
+ * provider credentials are refused whatever the manifest says.
+ */
+function sandboxEnv(skillName: string, source: string, manifest: SkillManifest): NodeJS.ProcessEnv {
+  const secrets = getVault().secretsForSkill(skillName, source);
+  const env: NodeJS.ProcessEnv = {};
+  for (const name of BASE_ENV) {
+    if (process.env[name]) env[name] = process.env[name];
+  }
+  for (const name of manifest.env) {
+    if (isAppSecretName(name)) continue;
+    if (name in secrets) env[name] = secrets[name];
+    else if (PUBLIC_ENV.has(name) && process.env[name] !== undefined) env[name] = process.env[name];
+  }
+  return env;
+}
+
+function execArgv(skillsDir: string, manifest: SkillManifest): string[] {
+  const args = [`--max-old-space-size=${manifest.memoryMb}`, '--no-warnings'];
+  // The permission model blocks the loader tsx needs, so the filesystem scope is only enforced in builds
+  if (extname(thisFile) === '.ts') return [...process.execArgv, ...args];
+
+  const readable = [PROJECT_ROOT, skillsDir, ...manifest.fs.read];
+  const realpaths = readable.flatMap((p) => {
+    try { return [p, realpathSync(p)]; } catch { return [p]; }
+  });
+  return [
+    ...args,
+    PERMISSION_FLAG,
+    ...[...new Set(realpaths)].map((p) => `--allow-fs-read=${p}`),
+    ...manifest.fs.write.map((p) => `--allow-fs-write=${p}`),
+  ];
+}
+
+/**
+ * Run one request in a fresh sandbox process, enforcing the skill's manifest.
+ * `file` is relative to skillsDir and may point into a subdirectory (staged skills);
+ * the manifest is the one next to the file.
+ */
+function runInSandbox(skillsDir: string, file: string, call: SandboxCall): Promise<SandboxResponse & { ok: true }> {
+  const path = join(skillsDir, file);
+  const skillName = skillNameOf(basename(file));
+  const source = readFileSync(path, 'utf-8');
+  const manifest = loadManifest(dirname(path), skillName, source);
+  if (call.type === 'execute' && !manifest.enabled) {
+    return Promise.reject(new SkillSandboxError(skillName, 'is disabled. Enable it in /skills first.'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const child = fork(RUNNER, [], {
+      cwd: skillsDir,
+      env: sandboxEnv(skillName, source, manifest),
+      execArgv: execArgv(skillsDir, manifest),
+      stdio: ['ignore', 'pipe', 'pipe', 'ipc'],
+    });
+    const log = (chunk: Buffer) => {
+      for (const line of chunk.toString().trimEnd().split('\n')) console.log(`[skill:${skillName}] ${line}`);
+    };
+    child.stdout?.on('data', log);
+    child.stderr?.on('data', log);
+
+    let settled = false;
+    const finish = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      fn();
+    };
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      finish(() => reject(new SkillSandboxError(skillName, `timed out after ${manifest.timeoutMs / 1000}s`)));
+    }, manifest.timeoutMs);
+
+    child.on('message', (res: SandboxResponse) => {
+      finish(() => (res.ok ? resolve(res) : reject(new SkillSandboxError(skillName, `failed: ${res.error}`))));
+    });
+    child.on('error', (err) => finish(() => reject(new SkillSandboxError(skillName, `could not start: ${err.message}`))));
+    // 'close' comes after any pending IPC message, so a reply always wins over this
+    child.on('close', (code, signal) => {
+      // V8 aborts when the heap limit is hit
+      const outOfMemory = signal === 'SIGABRT' || code === 134;
+      finish(() => reject(new SkillSandboxError(
+        skillName,
+        outOfMemory ? `ran out of memory (limit ${manifest.memoryMb} MB)` : `crashed (${signal ?? `exit code ${code}`})`,
+      )));
+    });
+    const request: SandboxRequest = { ...call, file: path, hosts: manifest.hosts };
+    child.send(request);
+  });
+}
+
+/** Tool names, descriptions and input schemas of a skill file, read inside the sandbox. */
+export async function describeSkill(skillsDir: string, file: string): Promise<SandboxToolInfo[]> {
+  const res = await runInSandbox(skillsDir, file, { type: 'describe' });
+  return res.tools ?? [];
+}
+
+/** Call one tool of a skill in the sandbox. Returns the tool's result as a string. */
+export async function runSkillTool(skillsDir: string, file: string, toolName: string, input: unknown): Promise<string> {
+  const res = await runInSandbox(skillsDir, file, { type: 'execute', tool: toolName, input });
+  return res.result ?? '';
+}
+
+/** Tools the model can call directly; every call runs in the sandbox. */
+export function sandboxedSkillTools(skillsDir: string, file: string, infos: SandboxToolInfo[]): ToolSet {
+  const tools: ToolSet = {};
+  for (const info of infos) {
+    tools[info.name] = tool({
+      description: info.description,
+      inputSchema: jsonSchema<Record<string, unknown>>(info.inputSchema),
+      execute: async (input) => {
+        try {
+          return await runSkillTool(skillsDir, file, info.name, input);
+        } catch (err) {
+          return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+        }
+      },
+    });
+  }
+  return tools;
+}
@@ -0,0 +1,120 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { runSkillTool } from './sandbox.js';
+
+/**
+ * One example invocation with assertions on the shape of the result, stored
+ * with the skill as `<skill>.tests.json` (an array of these).
+ */
+export interface SkillTest {
+  name: string;
+  tool: string;
+  input: Record<string, unknown>;
+  expect?: {
+    /** Result must parse as JSON (default true). */
+    json?: boolean;
+    type?: 'object' | 'array' | 'string' | 'number' | 'boolean';
+    /** Top-level keys the JSON object must have. */
+    keys?: string[];
+    /** The call is expected to return { error } (e.g. invalid input). */
+    error?: boolean;
+  };
+}
+
+export type SkillTestStatus = 'passed' | 'failed' | 'skipped';
+
+export interface SkillTestResult {
+  name: string;
+  tool: string;
+  status: SkillTestStatus;
+  /** Why it failed or was skipped. */
+  reason?: string;
+  durationMs: number;
+}
+
+/** Start of the result shown in failure reports. */
+const RESULT_PREVIEW = 300;
+
+export function testsPath(dir: string, skillName: string): string {
+  return join(dir, `${skillName}.tests.json`);
+}
+
+/** Tests stored next to a skill, or null if it has none. Throws on a malformed file. */
+export function loadTests(dir: string, skillName: string): SkillTest[] | null {
+  const path = testsPath(dir, skillName);
+  if (!existsSync(path)) return null;
+  const data = JSON.parse(readFileSync(path, 'utf-8')) as unknown;
+  if (!Array.isArray(data)) throw new Error(`${path} must contain a JSON array of tests`);
+  return data.map((t, i) => {
+    const test = t as Partial<SkillTest>;
+    if (typeof test.tool !== 'string') throw new Error(`Test #${i + 1} in ${path} has no "tool"`);
+    return {
+      name: typeof test.name === 'string' ? test.name : `${test.tool} #${i + 1}`,
+      tool: test.tool,
+      input: test.input && typeof test.input === 'object' ? test.input : {},
+      ...(test.expect ? { expect: test.expect } : {}),
+    };
+  });
+}
+
+function typeOf(value: unknown): string {
+  return Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+}
+
+/** Check one result against the test's expectations. Returns the failure reason, if any. */
+function checkResult(test: SkillTest, result: string): { status: SkillTestStatus; reason?: string } {
+  const expect = test.expect ?? {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(result);
+  } catch {
+    if (expect.json !== false) return { status: 'failed', reason: `result is not JSON: ${result.slice(0, RESULT_PREVIEW)}` };
+    if (expect.type && expect.type !== 'string') return { status: 'failed', reason: `expected ${expect.type}, got text` };
+    return { status: 'passed' };
+  }
+
+  const error = parsed && typeof parsed === 'object' ? (parsed as { error?: unknown }).error : undefined;
+  // Credentials aren't configured yet — the code path can't be exercised, but it handled that correctly
+  if (error === 'auth_required') return { status: 'skipped', reason: 'credentials not configured' };
+  if (error !== undefined && !expect.error) return { status: 'failed', reason: `returned an error: ${JSON.stringify(error).slice(0, RESULT_PREVIEW)}` };
+  if (error === undefined && expect.error) return { status: 'failed', reason: 'expected an error, got a result' };
+
+  if (expect.type && typeOf(parsed) !== expect.type) {
+    return { status: 'failed', reason: `expected ${expect.type}, got ${typeOf(parsed)}` };
+  }
+  const missing = (expect.keys ?? []).filter((k) => !(parsed && typeof parsed === 'object' && k in parsed));
+  if (missing.length > 0) {
+    return { status: 'failed', reason: `missing keys: ${missing.join(', ')} in ${result.slice(0, RESULT_PREVIEW)}` };
+  }
+  return { status: 'passed' };
+}
+
+/** Run tests one by one in the sandbox against a skill file (relative to skillsDir). */
+export async function runSkillTests(skillsDir: string, file: string, tests: SkillTest[]): Promise<SkillTestResult[]> {
+  const results: SkillTestResult[] = [];
+  for (const test of tests) {
+    const startedAt = Date.now();
+    let outcome: { status: SkillTestStatus; reason?: string };
+    try {
+      outcome = checkResult(test, await runSkillTool(skillsDir, file, test.tool, test.input));
+    } catch (err) {
+      outcome = { status: 'failed', reason: err instanceof Error ? err.message : String(err) };
+    }
+    results.push({ name: test.name, tool: test.tool, ...outcome, durationMs: Date.now() - startedAt });
+  }
+  return results;
+}
+
+/** Passed unless something failed (skipped tests don't count against a skill). */
+export function testsPassed(results: SkillTestResult[]): boolean {
+  return results.every((r) => r.status !== 'failed');
+}
+
+/** Plain-text report, one line per test. */
+export function formatTestReport(skillName: string, results: SkillTestResult[]): string {
+  const icon: Record<SkillTestStatus, string> = { passed: '✓', failed: '✗', skipped: '–' };
+  const lines = results.map((r) => `${icon[r.status]} ${r.name} (${r.tool}, ${r.durationMs} ms)${r.reason ? ` — ${r.reason}` : ''}`);
+  const count = (s: SkillTestStatus) => results.filter((r) => r.status === s).length;
+  lines.push(`${skillName}: ${count('passed')} passed, ${count('failed')} failed, ${count('skipped')} skipped`);
+  return lines.join('\n');
+}
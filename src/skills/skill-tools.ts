@@ -1,45 +1,49 @@
 import { tool, type ToolSet } from 'ai';
 import { z } from 'zod/v4';
-import { existsSync, readdirSync, unlinkSync } from 'node:fs';
-import { join } from 'node:path';
-import { pathToFileURL } from 'node:url';
+import { basename } from 'node:path';
+import { describeSkill } from './sandbox.js';
+import { formatTestReport, loadTests, runSkillTests, testsPassed } from './skill-tests.js';
+import { diffSkill, listSkills, listVersions, removeSkill, rollbackSkill, setSkillEnabled, skillFile } from './versions.js';
 
 export function createSkillManagementTools(
   skillsDir: string,
-  rebuildRef: { current: (() => Promise<void>) | null },
+  reloadSkill: (name: string) => Promise<void>,
 ): ToolSet {
+  const reload = async (name: string) => {
+    try {
+      await reloadSkill(name);
+    } catch { /* non-fatal */ }
+  };
+
   return {
     list_skills: tool({
-      description: 'List all installed dynamic skills and their tools.',
+      description: 'List all installed dynamic skills: version, enabled state, required credentials, archived versions and tools.',
       inputSchema: z.object({}),
       execute: async () => {
-        if (!existsSync(skillsDir)) {
-          return JSON.stringify({ skills: [], message: 'No skills installed.' });
-        }
-
-        const files = readdirSync(skillsDir).filter((f) => f.endsWith('.js') || f.endsWith('.mjs'));
-        if (files.length === 0) {
+        const manifests = listSkills(skillsDir);
+        if (manifests.length === 0) {
           return JSON.stringify({ skills: [], message: 'No skills installed.' });
         }
 
-        const skills: Array<{ file: string; tools: Array<{ name: string; description: string }> }> = [];
-
-        for (const file of files) {
+        const skills = [];
+        for (const m of manifests) {
+          const file = basename(skillFile(skillsDir, m.name)!);
+          let tools: Array<{ name: string; description: string }>;
           try {
-            const fullPath = join(skillsDir, file);
-            const mod = await import(pathToFileURL(fullPath).href + `?t=${Date.now()}`);
-            const toolsMap = mod.tools as Record<string, { description?: string }> | undefined;
-
-            if (toolsMap && typeof toolsMap === 'object' && !Array.isArray(toolsMap)) {
-              const toolEntries = Object.entries(toolsMap).map(([name, t]) => ({
-                name,
-                description: (typeof t?.description === 'string' ? t.description : '') || '(no description)',
-              }));
-              skills.push({ file, tools: toolEntries });
-            }
+            tools = (await describeSkill(skillsDir, file))
+              .map((info) => ({ name: info.name, description: info.description || '(no description)' }));
           } catch {
-            skills.push({ file, tools: [{ name: '(failed to load)', description: 'Error loading skill file' }] });
+            tools = [{ name: '(failed to load)', description: 'Error loading skill file' }];
           }
+          skills.push({
+            file,
+            version: m.version,
+            enabled: m.enabled,
+            description: m.description || undefined,
+            credentials: m.credentials,
+            previous_versions: listVersions(skillsDir, m.name).map((v) => v.version).filter((v) => v !== m.version),
+            tools,
+          });
         }
 
         return JSON.stringify({ skills });
@@ -47,32 +51,96 @@ export function createSkillManagementTools(
     }),
 
     remove_skill: tool({
-      description: 'Remove an installed dynamic skill by file name.',
+      description: 'Remove an installed dynamic skill by file name. Its last version is kept and can be restored with rollback_skill.',
       inputSchema: z.object({
         name: z.string().describe('Skill file name (e.g. "weather.js" or "weather")'),
       }),
       execute: async (args) => {
-        let fileName = args.name;
-        if (!fileName.endsWith('.js') && !fileName.endsWith('.mjs')) {
-          fileName += '.js';
+        const name = args.name.replace(/\.m?js$/, '');
+        try {
+          if (!removeSkill(skillsDir, name)) {
+            return JSON.stringify({ error: `Skill "${name}" not found.` });
+          }
+        } catch (err) {
+          return JSON.stringify({ error: `Failed to delete "${name}": ${err instanceof Error ? err.message : err}` });
         }
 
-        const fullPath = join(skillsDir, fileName);
-        if (!existsSync(fullPath)) {
-          return JSON.stringify({ error: `Skill file "${fileName}" not found.` });
+        await reload(name);
+        return JSON.stringify({ success: true, message: `Skill "${name}" removed.` });
+      },
+    }),
+
+    rollback_skill: tool({
+      description: 'Revert a skill to an earlier version (e.g. after evolve_skill broke it). '
+        + 'Defaults to the version before the current one. The current version is kept, so a rollback can be undone.',
+      inputSchema: z.object({
+        name: z.string().describe('Skill name (e.g. "weather")'),
+        version: z.number().int().optional().describe('Version to restore (see list_skills). Omit for the previous one.'),
+      }),
+      execute: async (args) => {
+        const name = args.name.replace(/\.m?js$/, '');
+        try {
+          const manifest = rollbackSkill(skillsDir, name, args.version);
+          await reload(name);
+          return JSON.stringify({ success: true, name, version: manifest.version, enabled: manifest.enabled });
+        } catch (err) {
+          return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
         }
+      },
+    }),
 
+    diff_skill: tool({
+      description: 'Show what changed between two versions of a skill as a unified diff. '
+        + 'Defaults to the previous version against the current one.',
+      inputSchema: z.object({
+        name: z.string().describe('Skill name'),
+        from_version: z.number().int().optional().describe('Older version (default: the previous one)'),
+        to_version: z.number().int().optional().describe('Newer version (default: the current one)'),
+      }),
+      execute: async (args) => {
         try {
-          unlinkSync(fullPath);
+          return diffSkill(skillsDir, args.name.replace(/\.m?js$/, ''), args.from_version, args.to_version);
         } catch (err) {
-          return JSON.stringify({ error: `Failed to delete "${fileName}": ${err instanceof Error ? err.message : err}` });
+          return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
         }
+      },
+    }),
 
+    test_skill: tool({
+      description: 'Re-run the stored example tests of a skill in the sandbox (e.g. after adding credentials, or to check an API still works).',
+      inputSchema: z.object({
+        name: z.string().describe('Skill name'),
+      }),
+      execute: async (args) => {
+        const name = args.name.replace(/\.m?js$/, '');
+        const file = skillFile(skillsDir, name);
+        if (!file) return JSON.stringify({ error: `Skill "${name}" not found.` });
         try {
-          if (rebuildRef.current) await rebuildRef.current();
-        } catch { /* non-fatal */ }
+          const tests = loadTests(skillsDir, name);
+          if (!tests || tests.length === 0) return JSON.stringify({ error: `Skill "${name}" has no tests.` });
+          const results = await runSkillTests(skillsDir, basename(file), tests);
+          return JSON.stringify({ name, passed: testsPassed(results), report: formatTestReport(name, results) });
+        } catch (err) {
+          return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+        }
+      },
+    }),
 
-        return JSON.stringify({ success: true, message: `Skill "${fileName}" removed.` });
+    disable_skill: tool({
+      description: 'Disable a skill without deleting it (its tools disappear until re-enabled), or re-enable it with disabled: false.',
+      inputSchema: z.object({
+        name: z.string().describe('Skill name'),
+        disabled: z.boolean().optional().describe('false to enable the skill again (default: true)'),
+      }),
+      execute: async (args) => {
+        const name = args.name.replace(/\.m?js$/, '');
+        try {
+          const manifest = setSkillEnabled(skillsDir, name, args.disabled === false);
+          await reload(name);
+          return JSON.stringify({ success: true, name, enabled: manifest.enabled });
+        } catch (err) {
+          return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+        }
       },
     }),
   };
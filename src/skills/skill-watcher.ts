@@ -0,0 +1,130 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, watch, type FSWatcher } from 'node:fs';
+import { basename } from 'node:path';
+import type { ToolSet } from 'ai';
+import { loadDynamicSkills, loadSkill } from './dynamic-loader.js';
+import { manifestPath } from './manifest.js';
+import { skillFile } from './versions.js';
+
+/** evolve_skill and editors write a skill as several files; wait for them to settle. */
+const DEBOUNCE_MS = 300;
+
+/** Files that define a skill's tools. Tests, staging and archived versions don't. */
+const SKILL_FILE = /^(\w+)(?:\.m?js|\.manifest\.json)$/;
+
+export interface SkillReloadHandlers {
+  /** Swap a skill's tools in the live assistant. */
+  onUpdate: (removed: string[], added: ToolSet) => void;
+  /** A changed skill failed to load. */
+  onError: (skillName: string, message: string) => void;
+}
+
+/**
+ * Keeps the assistant's skill tools in sync with SKILLS_DIR. A changed skill is
+ * reloaded on its own — MCP servers and other skills are left alone. Skill code
+ * is only ever imported by a fresh sandbox process, so there is no module cache to go stale.
+ */
+export class SkillWatcher {
+  private skillsDir: string;
+  private handlers: SkillReloadHandlers;
+  /** Loaded skills: fingerprint of code + manifest, and the tools they contributed. */
+  private loaded = new Map<string, { fingerprint: string; tools: string[] }>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  private watcher: FSWatcher | null = null;
+  /** Loads run one at a time, so two skills never claim the same tool name. */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(skillsDir: string, handlers: SkillReloadHandlers) {
+    this.skillsDir = skillsDir;
+    this.handlers = handlers;
+  }
+
+  /** Load every skill (on assistant rebuild) and remember what each one contributed. */
+  loadAll(): Promise<ToolSet> {
+    return this.enqueue(async () => {
+      const skills = await loadDynamicSkills(this.skillsDir);
+      this.loaded.clear();
+      const tools: ToolSet = {};
+      for (const [name, skillTools] of skills) {
+        this.loaded.set(name, { fingerprint: this.fingerprint(name), tools: Object.keys(skillTools) });
+        Object.assign(tools, skillTools);
+      }
+      return tools;
+    });
+  }
+
+  /** Reload one skill if its code or manifest changed since it was loaded. A removed skill is unloaded. */
+  reload(skillName: string): Promise<void> {
+    return this.enqueue(async () => {
+      const previous = this.loaded.get(skillName);
+      if (previous && previous.fingerprint === this.fingerprint(skillName)) return;
+      this.loaded.delete(skillName);
+
+      const file = skillFile(this.skillsDir, skillName);
+      let added: ToolSet = {};
+      if (file) {
+        const taken = new Set([...this.loaded.values()].flatMap((s) => s.tools));
+        try {
+          added = await loadSkill(this.skillsDir, basename(file), taken);
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          console.error(`Skills: failed to reload ${skillName}:`, message);
+          this.handlers.onError(skillName, message);
+        }
+        // Taken after loading: loading writes a missing manifest, which must not trigger another reload
+        this.loaded.set(skillName, { fingerprint: this.fingerprint(skillName), tools: Object.keys(added) });
+      } else if (previous) {
+        console.log(`Skills: unloaded ${skillName}`);
+      }
+
+      const removed = previous?.tools ?? [];
+      if (removed.length > 0 || Object.keys(added).length > 0) this.handlers.onUpdate(removed, added);
+    });
+  }
+
+  /** Watch SKILLS_DIR for added, changed and removed skills. */
+  start(): void {
+    if (this.watcher) return;
+    mkdirSync(this.skillsDir, { recursive: true });
+    try {
+      this.watcher = watch(this.skillsDir, (_event, filename) => {
+        const match = filename?.toString().match(SKILL_FILE);
+        if (match) this.schedule(match[1]);
+      });
+      this.watcher.on('error', (err) => console.error('Skills: watcher error:', err.message));
+      console.log('Skills: watching for changes');
+    } catch (err) {
+      console.warn('Skills: hot reload unavailable:', err instanceof Error ? err.message : err);
+    }
+  }
+
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  private schedule(skillName: string): void {
+    clearTimeout(this.timers.get(skillName));
+    this.timers.set(skillName, setTimeout(() => {
+      this.timers.delete(skillName);
+      this.reload(skillName).catch((err) => console.error(`Skills: reload of ${skillName} failed:`, err));
+    }, DEBOUNCE_MS));
+  }
+
+  private fingerprint(skillName: string): string {
+    const hash = createHash('sha256');
+    const file = skillFile(this.skillsDir, skillName);
+    if (file) hash.update(readFileSync(file));
+    const manifest = manifestPath(this.skillsDir, skillName);
+    if (existsSync(manifest)) hash.update(readFileSync(manifest));
+    return hash.digest('hex');
+  }
+
+  private enqueue<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(fn, fn);
+    this.queue = run.catch(() => {});
+    return run;
+  }
+}
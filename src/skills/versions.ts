@@ -0,0 +1,270 @@
+import { copyFileSync, existsSync, mkdirSync, readdirSync, readFileSync, unlinkSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { loadManifest, manifestPath, parseManifest, refreshManifest, writeManifest, type SkillManifest } from './manifest.js';
+import { testsPath } from './skill-tests.js';
+
+/** Previous versions: `.versions/<skill>/<version>.js` plus the manifest and tests it shipped with. */
+const VERSIONS_DIR = '.versions';
+/** evolve_skill writes new code here; it only replaces the live skill once its tests pass. */
+const STAGING_DIR = '.staging';
+
+/** Lines of context around each change in diff_skill output. */
+const DIFF_CONTEXT = 3;
+/** Beyond this (lines × lines) the diff table gets too big to compute. */
+const MAX_DIFF_CELLS = 4_000_000;
+
+export interface SkillVersion {
+  version: number;
+  description: string;
+  updatedAt: string;
+}
+
+function versionsDir(skillsDir: string, skillName: string): string {
+  return join(skillsDir, VERSIONS_DIR, skillName);
+}
+
+/** Path of the live skill file (.js or .mjs), or null if the skill is not installed. */
+export function skillFile(skillsDir: string, skillName: string): string | null {
+  for (const ext of ['.js', '.mjs']) {
+    const path = join(skillsDir, skillName + ext);
+    if (existsSync(path)) return path;
+  }
+  return null;
+}
+
+/** Installed skills with their manifests, by name. */
+export function listSkills(skillsDir: string): SkillManifest[] {
+  if (!existsSync(skillsDir)) return [];
+  return readdirSync(skillsDir)
+    .filter((f) => f.endsWith('.js') || f.endsWith('.mjs'))
+    .map((f) => {
+      const name = f.replace(/\.m?js$/, '');
+      return loadManifest(skillsDir, name, readFileSync(join(skillsDir, f), 'utf-8'));
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Archived versions of a skill, oldest first. */
+export function listVersions(skillsDir: string, skillName: string): SkillVersion[] {
+  const dir = versionsDir(skillsDir, skillName);
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((f) => /^\d+\.js$/.test(f))
+    .map((f) => {
+      const version = parseInt(f, 10);
+      const manifestFile = join(dir, `${version}.manifest.json`);
+      const manifest = existsSync(manifestFile) ? parseManifest(readFileSync(manifestFile, 'utf-8'), skillName) : null;
+      return { version, description: manifest?.description ?? '', updatedAt: manifest?.updatedAt ?? '' };
+    })
+    .sort((a, b) => a.version - b.version);
+}
+
+/** Version number for the next rewrite: above both the live and every archived version. */
+export function nextVersion(skillsDir: string, skillName: string): number {
+  const file = skillFile(skillsDir, skillName);
+  const live = file ? loadManifest(skillsDir, skillName, readFileSync(file, 'utf-8')).version : 0;
+  return Math.max(live, ...listVersions(skillsDir, skillName).map((v) => v.version)) + 1;
+}
+
+/** Archive the live version of a skill — code, manifest and tests — before it is replaced or removed. */
+function archiveLive(skillsDir: string, skillName: string): void {
+  const file = skillFile(skillsDir, skillName);
+  if (!file) return;
+  const source = readFileSync(file, 'utf-8');
+  const manifest = loadManifest(skillsDir, skillName, source);
+  const dir = versionsDir(skillsDir, skillName);
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, `${manifest.version}.js`), source);
+  writeFileSync(join(dir, `${manifest.version}.manifest.json`), JSON.stringify(manifest, null, 2) + '\n');
+  const tests = testsPath(skillsDir, skillName);
+  if (existsSync(tests)) copyFileSync(tests, join(dir, `${manifest.version}.tests.json`));
+}
+
+/** Replace (or remove) a live file with its counterpart from another directory. */
+function replaceWith(source: string, target: string): void {
+  if (existsSync(source)) copyFileSync(source, target);
+  else if (existsSync(target)) unlinkSync(target);
+}
+
+export function stagingDir(skillsDir: string): string {
+  return join(skillsDir, STAGING_DIR);
+}
+
+/** Drop a staged skill that failed its tests. */
+export function discardStaged(skillsDir: string, skillName: string): void {
+  const dir = stagingDir(skillsDir);
+  for (const path of [join(dir, `${skillName}.js`), manifestPath(dir, skillName), testsPath(dir, skillName)]) {
+    if (existsSync(path)) unlinkSync(path);
+  }
+}
+
+/**
+ * Make a staged skill live: archive the current version, move the staged code
+ * and tests into place and record the new version in the manifest.
+ */
+export function promoteStagedSkill(skillsDir: string, skillName: string, meta: { description?: string; prompt?: string }): SkillManifest {
+  const dir = stagingDir(skillsDir);
+  const source = readFileSync(join(dir, `${skillName}.js`), 'utf-8');
+  const version = nextVersion(skillsDir, skillName);
+
+  archiveLive(skillsDir, skillName);
+  const live = skillFile(skillsDir, skillName);
+  if (live && !live.endsWith('.js')) unlinkSync(live);
+  writeFileSync(join(skillsDir, `${skillName}.js`), source);
+  replaceWith(testsPath(dir, skillName), testsPath(skillsDir, skillName));
+  discardStaged(skillsDir, skillName);
+  return refreshManifest(skillsDir, skillName, source, { version, ...meta });
+}
+
+/**
+ * Install a skill from outside (an imported bundle). An installed skill of the
+ * same name is archived first, so the import can be rolled back.
+ */
+export function installSkill(
+  skillsDir: string,
+  skillName: string,
+  files: { source: string; manifest: SkillManifest; tests: string | null },
+): SkillManifest {
+  const version = nextVersion(skillsDir, skillName);
+  mkdirSync(skillsDir, { recursive: true });
+  archiveLive(skillsDir, skillName);
+  const live = skillFile(skillsDir, skillName);
+  if (live && !live.endsWith('.js')) unlinkSync(live);
+  writeFileSync(join(skillsDir, `${skillName}.js`), files.source);
+  const tests = testsPath(skillsDir, skillName);
+  if (files.tests !== null) writeFileSync(tests, files.tests);
+  else if (existsSync(tests)) unlinkSync(tests);
+  const now = new Date().toISOString();
+  const manifest: SkillManifest = { ...files.manifest, name: skillName, version, enabled: true, updatedAt: now };
+  writeManifest(skillsDir, skillName, manifest);
+  return manifest;
+}
+
+/** Remove a skill, keeping its last version so it can be restored with rollback_skill. */
+export function removeSkill(skillsDir: string, skillName: string): boolean {
+  const file = skillFile(skillsDir, skillName);
+  if (!file) return false;
+  archiveLive(skillsDir, skillName);
+  unlinkSync(file);
+  for (const path of [manifestPath(skillsDir, skillName), testsPath(skillsDir, skillName)]) {
+    if (existsSync(path)) unlinkSync(path);
+  }
+  return true;
+}
+
+/**
+ * Restore an archived version (default: the newest one older than the live version).
+ * The live version is archived first, so a rollback can itself be undone.
+ */
+export function rollbackSkill(skillsDir: string, skillName: string, version?: number): SkillManifest {
+  const versions = listVersions(skillsDir, skillName);
+  const file = skillFile(skillsDir, skillName);
+  const liveVersion = file ? loadManifest(skillsDir, skillName, readFileSync(file, 'utf-8')).version : Infinity;
+  const target = version ?? versions.filter((v) => v.version < liveVersion).pop()?.version;
+  if (target === undefined) throw new Error(`Skill "${skillName}" has no earlier version to roll back to.`);
+  if (target === liveVersion) throw new Error(`Version ${target} of "${skillName}" is already live.`);
+  if (!versions.some((v) => v.version === target)) {
+    throw new Error(`Skill "${skillName}" has no version ${target}. Available: ${versions.map((v) => v.version).join(', ') || 'none'}.`);
+  }
+
+  archiveLive(skillsDir, skillName);
+  const dir = versionsDir(skillsDir, skillName);
+  if (file && !file.endsWith('.js')) unlinkSync(file);
+  copyFileSync(join(dir, `${target}.js`), join(skillsDir, `${skillName}.js`));
+  const source = readFileSync(join(dir, `${target}.js`), 'utf-8');
+  replaceWith(join(dir, `${target}.tests.json`), testsPath(skillsDir, skillName));
+  const archivedManifest = join(dir, `${target}.manifest.json`);
+  if (existsSync(archivedManifest)) {
+    writeManifest(skillsDir, skillName, parseManifest(readFileSync(archivedManifest, 'utf-8'), skillName));
+  } else if (existsSync(manifestPath(skillsDir, skillName))) {
+    unlinkSync(manifestPath(skillsDir, skillName));
+  }
+  return loadManifest(skillsDir, skillName, source);
+}
+
+/** Enable or disable a skill. Disabled skills stay installed but are not loaded. */
+export function setSkillEnabled(skillsDir: string, skillName: string, enabled: boolean): SkillManifest {
+  const file = skillFile(skillsDir, skillName);
+  if (!file) throw new Error(`Skill "${skillName}" not found.`);
+  const manifest = loadManifest(skillsDir, skillName, readFileSync(file, 'utf-8'));
+  const updated = { ...manifest, enabled, updatedAt: new Date().toISOString() };
+  writeManifest(skillsDir, skillName, updated);
+  return updated;
+}
+
+function readVersion(skillsDir: string, skillName: string, version: number | 'live'): string {
+  if (version === 'live') {
+    const file = skillFile(skillsDir, skillName);
+    if (!file) throw new Error(`Skill "${skillName}" is not installed.`);
+    return readFileSync(file, 'utf-8');
+  }
+  const path = join(versionsDir(skillsDir, skillName), `${version}.js`);
+  if (!existsSync(path)) throw new Error(`Skill "${skillName}" has no version ${version}.`);
+  return readFileSync(path, 'utf-8');
+}
+
+/**
+ * Unified diff between two versions of a skill. Defaults: the newest archived
+ * version against the live one.
+ */
+export function diffSkill(skillsDir: string, skillName: string, from?: number, to?: number): string {
+  const liveFile = skillFile(skillsDir, skillName);
+  const liveVersion = liveFile ? loadManifest(skillsDir, skillName, readFileSync(liveFile, 'utf-8')).version : undefined;
+  const fromVersion = from ?? listVersions(skillsDir, skillName).filter((v) => v.version !== liveVersion).pop()?.version;
+  if (fromVersion === undefined) throw new Error(`Skill "${skillName}" has no earlier version to compare with.`);
+  const toRef = to === undefined || to === liveVersion ? 'live' : to;
+  const fromRef = fromVersion === liveVersion ? 'live' : fromVersion;
+
+  return unifiedDiff(
+    readVersion(skillsDir, skillName, fromRef),
+    readVersion(skillsDir, skillName, toRef),
+    `${skillName} v${fromVersion}`,
+    `${skillName} v${toRef === 'live' ? liveVersion : toRef}`,
+  );
+}
+
+/** Line diff (LCS) rendered as unified diff hunks. */
+function unifiedDiff(before: string, after: string, labelA: string, labelB: string): string {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  if (a.length * b.length > MAX_DIFF_CELLS) return `--- ${labelA}\n+++ ${labelB}\n(files too large to diff)`;
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  type Line = { op: ' ' | '-' | '+'; text: string; aLine: number; bLine: number };
+  const lines: Line[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) lines.push({ op: ' ', text: a[i++], aLine: i, bLine: ++j });
+    else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) lines.push({ op: '-', text: a[i++], aLine: i, bLine: j });
+    else lines.push({ op: '+', text: b[j++], aLine: i, bLine: j });
+  }
+
+  const changed = lines.map((l, idx) => (l.op !== ' ' ? idx : -1)).filter((idx) => idx >= 0);
+  if (changed.length === 0) return `--- ${labelA}\n+++ ${labelB}\n(no changes)`;
+
+  // Group changes whose context windows overlap into hunks
+  const out = [`--- ${labelA}`, `+++ ${labelB}`];
+  let start = 0;
+  while (start < changed.length) {
+    let end = start;
+    while (end + 1 < changed.length && changed[end + 1] - changed[end] <= DIFF_CONTEXT * 2) end++;
+    const from = Math.max(0, changed[start] - DIFF_CONTEXT);
+    const to = Math.min(lines.length - 1, changed[end] + DIFF_CONTEXT);
+    const hunk = lines.slice(from, to + 1);
+    const aCount = hunk.filter((l) => l.op !== '+').length;
+    const bCount = hunk.filter((l) => l.op !== '-').length;
+    const aStart = hunk.find((l) => l.op !== '+')?.aLine ?? hunk[0].aLine;
+    const bStart = hunk.find((l) => l.op !== '-')?.bLine ?? hunk[0].bLine;
+    out.push(`@@ -${aStart},${aCount} +${bStart},${bCount} @@`, ...hunk.map((l) => l.op + l.text));
+    start = end + 1;
+  }
+  return out.join('\n');
+}
@@ -0,0 +1,81 @@
+import type { AiProviderConfig, ZarukaConfig } from '../core/types.js';
+import type { Vault } from './vault.js';
+
+const SECRET_FIELDS = ['apiKey', 'authToken', 'refreshToken'] as const;
+type SecretField = typeof SECRET_FIELDS[number];
+type SecretSlot = { name: string; holder: AiProviderConfig | ZarukaConfig['telegram']; field: string };
+
+const FIELD_SUFFIX: Record<SecretField, string> = {
+  apiKey: 'API_KEY',
+  authToken: 'AUTH_TOKEN',
+  refreshToken: 'REFRESH_TOKEN',
+};
+
+const BOT_TOKEN = 'ZARUKA_TELEGRAM_BOT_TOKEN';
+const SAVED_PREFIX = 'ZARUKA_SAVED_';
+/** Provider credentials managed here (other ZARUKA_* secrets may come from an imported .env). */
+const PROVIDER_SECRET_RE = /^ZARUKA_(AI|SAVED_[A-Z0-9_]+)_(API_KEY|AUTH_TOKEN|REFRESH_TOKEN)$/;
+
+function providerSlot(provider: string): string {
+  return `${SAVED_PREFIX}${provider.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+}
+
+/** Vault name → where it lives in the config, for every credential field. */
+function secretSlots(config: ZarukaConfig): SecretSlot[] {
+  const slots: SecretSlot[] = [
+    { name: BOT_TOKEN, holder: config.telegram, field: 'botToken' },
+  ];
+  if (config.ai) {
+    for (const f of SECRET_FIELDS) slots.push({ name: `ZARUKA_AI_${FIELD_SUFFIX[f]}`, holder: config.ai, field: f });
+  }
+  for (const [provider, saved] of Object.entries(config.savedProviders ?? {})) {
+    for (const f of SECRET_FIELDS) slots.push({ name: providerSlot(provider) + FIELD_SUFFIX[f], holder: saved, field: f });
+  }
+  return slots;
+}
+
+/**
+ * Fill credential fields from the vault. Values already present in the config
+ * (plaintext from an older config.json, or from env vars) are moved into the vault.
+ * Returns true when config.json still holds plaintext and should be rewritten.
+ */
+export function hydrateConfigSecrets(config: ZarukaConfig, vault: Vault): boolean {
+  const slots = secretSlots(config);
+  const read = (slot: SecretSlot) => (slot.holder as unknown as Record<string, string | undefined>)[slot.field];
+  // A provider entry with any plaintext credential is authoritative: don't mix in older vault values
+  const plaintext = new Set(slots.filter((slot) => read(slot)).map((slot) => slot.holder));
+
+  for (const slot of slots) {
+    const value = read(slot);
+    if (value) {
+      vault.set(slot.name, value, { system: true });
+    } else if (!plaintext.has(slot.holder)) {
+      const stored = vault.get(slot.name);
+      if (stored) (slot.holder as unknown as Record<string, string | undefined>)[slot.field] = stored;
+    }
+  }
+  return plaintext.size > 0;
+}
+
+/** Copy of the config with credentials stored in the vault and stripped out. */
+export function stripConfigSecrets(config: ZarukaConfig, vault: Vault): ZarukaConfig {
+  const copy: ZarukaConfig = JSON.parse(JSON.stringify(config));
+  const live = new Set<string>();
+  for (const { name, holder, field } of secretSlots(copy)) {
+    const record = holder as unknown as Record<string, string | undefined>;
+    const value = record[field];
+    delete record[field];
+    if (value) {
+      vault.set(name, value, { system: true });
+      live.add(name);
+    }
+  }
+  // Drop credentials of providers or fields that are gone (e.g. switched from API key to OAuth)
+  for (const { name, system } of vault.list()) {
+    if (system && !live.has(name) && PROVIDER_SECRET_RE.test(name)) {
+      vault.delete(name);
+    }
+  }
+  if (copy.telegram.botToken === undefined) copy.telegram.botToken = '';
+  return copy;
+}
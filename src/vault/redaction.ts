@@ -0,0 +1,144 @@
+import { createHash } from 'node:crypto';
+import type { ToolSet } from 'ai';
+import { getVault } from './vault.js';
+
+/** Well-known credential formats. Matches in the user's own messages are moved into the vault. */
+const SECRET_PATTERNS: RegExp[] = [
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g,            // Anthropic, OpenAI
+  /\bgh[pousr]_[A-Za-z0-9]{36,}/g,                       // GitHub tokens
+  /\bgithub_pat_[A-Za-z0-9_]{22,}/g,
+  /\bglpat-[A-Za-z0-9_-]{20,}/g,                         // GitLab
+  /\bxox[abpr]-[A-Za-z0-9-]{10,}/g,                      // Slack
+  /\bAIza[0-9A-Za-z_-]{35}\b/g,                          // Google API keys
+  /\bAKIA[0-9A-Z]{16}\b/g,                               // AWS access key IDs
+  /\b(?:gsk|xai|hf)[_-][A-Za-z0-9]{30,}/g,               // Groq, xAI, Hugging Face
+  /\b\d{8,10}:[A-Za-z0-9_-]{35}\b/g,                     // Telegram bot tokens
+  /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g, // JWTs
+];
+
+/** `api_key=...`, `password: ...` — only the value is replaced. */
+const ASSIGNMENT_PATTERN = /(?<!\[)\b([A-Za-z_-]*(?:api[_-]?key|token|secret|password|passwd))(\s*[:=]\s*["']?)(?!\[secret:)([^\s"'`,;]{8,})/gi;
+
+const PASTED_PREFIX = 'PASTED_SECRET_';
+
+const PLACEHOLDER_RE = /\[secret:([A-Z][A-Z0-9_]*)\]/g;
+
+/**
+ * Tools whose input may carry placeholders for real values: storing a pasted
+ * key under its name. Everything else (network, shell, MCP, skills) gets the
+ * placeholder text — a prompt-injected URL can't smuggle a secret out.
+ */
+const RESOLVING_TOOLS = new Set(['save_credential', 'rotate_credential']);
+
+/** Vault values shorter than this are too likely to appear by accident. */
+const MIN_SECRET_LENGTH = 8;
+
+export function secretPlaceholder(name: string): string {
+  return `[secret:${name}]`;
+}
+
+/** Store a detected secret (once per value) and return its placeholder. */
+function stashSecret(value: string): string {
+  const name = `${PASTED_PREFIX}${createHash('sha256').update(value).digest('hex').slice(0, 8).toUpperCase()}`;
+  // Not readable by skills — it only resolves inside tool calls (e.g. save_credential)
+  getVault().set(name, value, { skills: [] });
+  return secretPlaceholder(name);
+}
+
+/**
+ * A pasted value was saved under a real name: drop the anonymous copies.
+ * Returns their names so stored placeholders can be renamed.
+ */
+export function adoptPastedSecrets(name: string, value: string): string[] {
+  const vault = getVault();
+  const adopted = vault.list()
+    .filter((s) => s.name !== name && s.name.startsWith(PASTED_PREFIX) && vault.get(s.name) === value)
+    .map((s) => s.name);
+  for (const pasted of adopted) vault.delete(pasted);
+  return adopted;
+}
+
+/**
+ * Replace values already in the vault with `[secret:NAME]` placeholders. Safe
+ * for any text (tool results, summaries, task output): it never adds to the vault.
+ */
+export function redactSecrets(text: string): string {
+  if (!text) return text;
+  const vault = getVault();
+  let result = text;
+
+  for (const { name } of vault.list()) {
+    const value = vault.get(name);
+    if (value && value.length >= MIN_SECRET_LENGTH && result.includes(value)) {
+      result = result.split(value).join(secretPlaceholder(name));
+    }
+  }
+  return result;
+}
+
+/**
+ * Redact a message the user wrote: besides known vault values, anything that
+ * looks like a credential is stored in the vault and replaced. Only for the
+ * user's own input — on fetched pages or command output every token-like
+ * string would end up in the vault.
+ */
+export function stashPastedSecrets(text: string): string {
+  let result = redactSecrets(text);
+  if (!result) return result;
+  for (const pattern of SECRET_PATTERNS) {
+    result = result.replace(pattern, (match) => stashSecret(match));
+  }
+  return result.replace(ASSIGNMENT_PATTERN, (_m, key: string, sep: string, value: string) => `${key}${sep}${stashSecret(value)}`);
+}
+
+/** Whether text holds a vault value or something that looks like a credential. Stores nothing. */
+export function containsSecrets(text: string): boolean {
+  return redactSecrets(text) !== text
+    || SECRET_PATTERNS.some((pattern) => text.search(pattern) >= 0)
+    || text.search(ASSIGNMENT_PATTERN) >= 0;
+}
+
+/** Redact every string inside a tool result (strings, arrays, plain objects). */
+export function redactDeep(value: unknown): unknown {
+  if (typeof value === 'string') return redactSecrets(value);
+  if (Array.isArray(value)) return value.map(redactDeep);
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactDeep(v)]));
+  }
+  return value;
+}
+
+/**
+ * Substitute placeholders of keys the user pasted with their values. Named
+ * secrets never resolve: skills read them through their vault scopes.
+ */
+function resolveDeep(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.replace(PLACEHOLDER_RE, (match, name: string) => {
+      if (!name.startsWith(PASTED_PREFIX)) return match;
+      return getVault().get(name) ?? match;
+    });
+  }
+  if (Array.isArray(value)) return value.map(resolveDeep);
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, resolveDeep(v)]));
+  }
+  return value;
+}
+
+/**
+ * The model only ever sees placeholders: resolve pasted keys in credential
+ * tool inputs right before execution, and redact whatever any tool returns.
+ */
+export function withSecretPlaceholders(tools: ToolSet): ToolSet {
+  const wrapped: ToolSet = {};
+  for (const [name, t] of Object.entries(tools)) {
+    const execute = t.execute;
+    const resolve = RESOLVING_TOOLS.has(name) ? resolveDeep : (input: unknown) => input;
+    wrapped[name] = execute
+      ? { ...t, execute: async (input, options) => redactDeep(await execute(resolve(input), options)) }
+      : t;
+  }
+  return wrapped;
+}
@@ -0,0 +1,238 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { homedir } from 'node:os';
+
+const ZARUKA_DIR = process.env.ZARUKA_DATA_DIR || join(homedir(), '.zaruka');
+
+/** Passphrase for the vault key. Without it a random key file is used. */
+const PASSPHRASE_ENV = 'ZARUKA_VAULT_PASSPHRASE';
+
+/** Encrypted with the vault key so a wrong passphrase is detected instead of yielding garbage. */
+const KEY_CHECK = 'zaruka-vault';
+
+/** Secret names: SCREAMING_SNAKE_CASE, like environment variables. */
+export const SECRET_NAME_RE = /^[A-Z][A-Z0-9_]*$/;
+
+/** Credentials Zaruka reads for itself (providers, transcription, search), besides its ZARUKA_* settings. */
+const APP_CREDENTIALS = new Set([
+  'OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'GOOGLE_GENERATIVE_AI_API_KEY', 'DEEPSEEK_API_KEY',
+  'GROQ_API_KEY', 'XAI_API_KEY', 'BRAVE_API_KEY',
+]);
+
+/** Every name readSecret was asked for: Zaruka's own configuration. */
+const resolvedNames = new Set<string>();
+
+/** Zaruka's own settings and credentials — never handed to shell commands or skills. */
+export function isAppSecretName(name: string): boolean {
+  return name.startsWith('ZARUKA_') || APP_CREDENTIALS.has(name) || resolvedNames.has(name);
+}
+
+interface Sealed {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export interface SecretInfo {
+  name: string;
+  /** Skills allowed to read the secret. Unset: any skill whose code references it by name. */
+  skills?: string[];
+  /** Zaruka's own credentials (provider keys, bot token) — never exposed to skills or shell commands. */
+  system?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface StoredSecret extends SecretInfo {
+  value: Sealed;
+}
+
+interface VaultFile {
+  version: 1;
+  kdf: 'keyfile' | 'scrypt';
+  salt?: string;
+  check: Sealed;
+  secrets: Record<string, StoredSecret>;
+}
+
+function seal(key: Buffer, plaintext: string): Sealed {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+  return { iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64'), data: data.toString('base64') };
+}
+
+function unseal(key: Buffer, sealed: Sealed): string {
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(sealed.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(sealed.data, 'base64')), decipher.final()]).toString('utf-8');
+}
+
+/**
+ * Encrypted store for credentials (AES-256-GCM). Values never leave the vault
+ * except through get() — listings only carry names and scopes.
+ */
+export class Vault {
+  private path: string;
+  private key: Buffer;
+  private file: VaultFile;
+
+  constructor(dir: string = ZARUKA_DIR) {
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    this.path = join(dir, 'vault.json');
+    const passphrase = process.env[PASSPHRASE_ENV];
+    // Shell commands and skills inherit process.env — don't leave the passphrase there
+    delete process.env[PASSPHRASE_ENV];
+
+    if (existsSync(this.path)) {
+      this.file = JSON.parse(readFileSync(this.path, 'utf-8')) as VaultFile;
+      if (this.file.kdf === 'scrypt') {
+        if (!passphrase) throw new Error(`The vault is passphrase-protected. Set ${PASSPHRASE_ENV} to unlock it.`);
+        this.key = scryptSync(passphrase, Buffer.from(this.file.salt!, 'base64'), 32);
+      } else {
+        this.key = this.loadKeyFile(dir);
+      }
+      try {
+        if (unseal(this.key, this.file.check) !== KEY_CHECK) throw new Error('check mismatch');
+      } catch {
+        throw new Error(`Cannot unlock the vault at ${this.path}: wrong passphrase or key file.`);
+      }
+      return;
+    }
+
+    const salt = randomBytes(16);
+    this.key = passphrase ? scryptSync(passphrase, salt, 32) : this.loadKeyFile(dir);
+    this.file = {
+      version: 1,
+      kdf: passphrase ? 'scrypt' : 'keyfile',
+      ...(passphrase ? { salt: salt.toString('base64') } : {}),
+      check: seal(this.key, KEY_CHECK),
+      secrets: {},
+    };
+    this.save();
+  }
+
+  has(name: string): boolean {
+    return name in this.file.secrets;
+  }
+
+  get(name: string): string | undefined {
+    const secret = this.file.secrets[name];
+    return secret ? unseal(this.key, secret.value) : undefined;
+  }
+
+  /** Create or update a secret. Existing scopes are kept unless new ones are given. */
+  set(name: string, value: string, opts: { skills?: string[]; system?: boolean } = {}): void {
+    if (!SECRET_NAME_RE.test(name)) throw new Error(`Invalid secret name "${name}". Use SCREAMING_SNAKE_CASE.`);
+    const existing = this.file.secrets[name];
+    const skills = opts.skills ?? existing?.skills;
+    const system = opts.system ?? existing?.system;
+    if (existing && this.get(name) === value
+      && JSON.stringify(skills) === JSON.stringify(existing.skills) && system === existing.system) return;
+
+    const now = new Date().toISOString();
+    this.file.secrets[name] = {
+      name,
+      ...(skills ? { skills } : {}),
+      ...(system ? { system } : {}),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      value: seal(this.key, value),
+    };
+    this.save();
+  }
+
+  delete(name: string): boolean {
+    if (!this.file.secrets[name]) return false;
+    delete this.file.secrets[name];
+    this.save();
+    return true;
+  }
+
+  /** Names and scopes only — never values. */
+  list(): SecretInfo[] {
+    return Object.values(this.file.secrets)
+      .map(({ value: _value, ...info }) => info)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Secrets a skill may read: those scoped to it by name, plus unscoped
+   * ones its source code references (process.env.NAME).
+   */
+  secretsForSkill(skillName: string, source: string): Record<string, string> {
+    const referenced = new Set(
+      [...source.matchAll(/process\.env(?:\.([A-Z][A-Z0-9_]*)|\[['"]([A-Z][A-Z0-9_]*)['"]\])/g)].map((m) => m[1] ?? m[2]),
+    );
+    const result: Record<string, string> = {};
+    for (const secret of Object.values(this.file.secrets)) {
+      if (secret.system) continue;
+      const allowed = secret.skills ? secret.skills.includes(skillName) : referenced.has(secret.name);
+      if (allowed) result[secret.name] = unseal(this.key, secret.value);
+    }
+    return result;
+  }
+
+  /**
+   * Copy of an environment for child processes: every vault secret removed, and
+   * Zaruka's own settings and credentials too, also when they come from the
+   * environment (Docker) rather than the vault.
+   */
+  scrubEnv(env: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+    const clean = { ...env };
+    for (const name of Object.keys(this.file.secrets)) delete clean[name];
+    for (const name of Object.keys(clean)) {
+      if (isAppSecretName(name)) delete clean[name];
+    }
+    return clean;
+  }
+
+  /** Move a legacy KEY=value .env file into the vault. Returns the number of secrets imported. */
+  importEnvFile(path: string): number {
+    if (!existsSync(path)) return 0;
+    let count = 0;
+    for (const line of readFileSync(path, 'utf-8').split('\n')) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#')) continue;
+      const eqIdx = trimmed.indexOf('=');
+      if (eqIdx === -1) continue;
+      const name = trimmed.slice(0, eqIdx).trim();
+      const value = trimmed.slice(eqIdx + 1).trim();
+      if (!SECRET_NAME_RE.test(name) || !value || this.has(name)) continue;
+      this.set(name, value, { system: name.startsWith('ZARUKA_') });
+      count++;
+    }
+    return count;
+  }
+
+  private loadKeyFile(dir: string): Buffer {
+    const keyPath = join(dir, 'vault.key');
+    if (existsSync(keyPath)) return Buffer.from(readFileSync(keyPath, 'utf-8').trim(), 'base64');
+    const key = randomBytes(32);
+    writeFileSync(keyPath, key.toString('base64') + '\n', { mode: 0o600 });
+    return key;
+  }
+
+  private save(): void {
+    writeFileSync(this.path, JSON.stringify(this.file, null, 2), { mode: 0o600 });
+  }
+}
+
+let shared: Vault | null = null;
+
+/** The process-wide vault in ~/.zaruka, opened on first use. */
+export function getVault(): Vault {
+  shared ??= new Vault();
+  return shared;
+}
+
+/**
+ * A credential from the environment (Docker, shell exports), falling back to the vault.
+ * The environment wins so a fresh deployment value is never shadowed by a stale vault copy
+ * (e.g. one imported from an old .env).
+ */
+export function readSecret(name: string): string | undefined {
+  resolvedNames.add(name);
+  return process.env[name] || getVault().get(name);
+}